@@ -0,0 +1,133 @@
+"use client";
+import React, { useState } from "react";
+import { backtestPlan, defaultBacktestStart, formatDuration, type BacktestOutcome, type RunBacktest } from "./backtest";
+import type { AnalysisRun } from "./historyStore";
+import { formatCandleTime, OhlcvParseError, parseOhlcvCsv, type Candle } from "./marketData";
+import { formatPrice, TRADE_TYPES, tradeTypeLabels } from "./tradePlan";
+
+interface BacktestPanelProps {
+  run: AnalysisRun;
+  onChange: (backtest: RunBacktest) => void;
+}
+
+const outcomeLabels: Record<BacktestOutcome, { label: string; className: string }> = {
+  no_setup: { label: 'No setup', className: 'text-gray-400' },
+  not_filled: { label: 'Not filled', className: 'text-gray-500' },
+  stop: { label: 'Stopped', className: 'text-red-600 dark:text-red-400' },
+  target: { label: 'Target', className: 'text-green-600 dark:text-green-400' },
+  open: { label: 'Still open', className: 'text-amber-600 dark:text-amber-400' },
+};
+
+const formatR = (value: number | null) => value === null ? '—' : `${value >= 0 ? '+' : ''}${value.toFixed(2)}R`;
+
+// <input type="datetime-local"> value for a UTC time, and back
+const toInputValue = (time: number) => new Date(time).toISOString().slice(0, 16);
+const fromInputValue = (value: string) => Date.parse(`${value}Z`);
+
+// Replay the run's setups over an OHLCV export that continues after the analysis
+const BacktestPanel: React.FC<BacktestPanelProps> = ({ run, onChange }) => {
+  const [candles, setCandles] = useState<{ source: string; candles: Candle[] } | null>(null);
+  const [start, setStart] = useState(() => toInputValue(defaultBacktestStart(run)));
+  const [error, setError] = useState<string | null>(null);
+  const backtest = run.backtest;
+
+  const load = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      setCandles({ source: file.name, candles: parseOhlcvCsv(await file.text()) });
+    } catch (err) {
+      setCandles(null);
+      setError(`${file.name}: ${err instanceof OhlcvParseError ? err.message : 'could not be read.'}`);
+    }
+  };
+
+  const runBacktest = () => {
+    if (!candles || !run.tradePlan) return;
+    const startTime = fromInputValue(start);
+    if (Number.isNaN(startTime)) {
+      setError('Choose when the test starts.');
+      return;
+    }
+    if (!candles.candles.some(candle => candle.time >= startTime)) {
+      setError(`${candles.source} ends at ${formatCandleTime(candles.candles[candles.candles.length - 1].time)} UTC, before the test start.`);
+      return;
+    }
+    setError(null);
+    onChange(backtestPlan(run.tradePlan, candles.candles, startTime, candles.source));
+  };
+
+  return (
+    <div className="bg-white dark:bg-neutral-800 rounded-lg p-4 flex flex-col gap-3">
+      <h5 className="font-semibold text-blue-800 dark:text-blue-300">Backtest</h5>
+      <p className="text-xs text-gray-500">
+        Upload candles that continue after this analysis to see how each setup would have played out. A candle that reaches both the stop and a target counts as stopped.
+      </p>
+      <div className="flex flex-wrap items-end gap-3 text-xs">
+        <label className="flex flex-col gap-1 text-gray-600 dark:text-gray-300">
+          OHLCV CSV
+          <input type="file" accept=".csv,text/csv" className="text-xs" onChange={e => load(e.target.files?.[0])} />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-600 dark:text-gray-300">
+          Start (UTC)
+          <input
+            type="datetime-local"
+            className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-neutral-900"
+            value={start}
+            onChange={e => setStart(e.target.value)}
+          />
+        </label>
+        <button type="button" className="px-3 py-1 rounded bg-blue-600 text-white font-medium hover:bg-blue-700 disabled:opacity-50" disabled={!candles} onClick={runBacktest}>
+          Run Backtest
+        </button>
+      </div>
+      {candles && <div className="text-xs text-gray-500">{candles.source}: {candles.candles.length} candles, {formatCandleTime(candles.candles[0].time)} to {formatCandleTime(candles.candles[candles.candles.length - 1].time)} UTC</div>}
+      {error && <div className="text-xs text-red-600">{error}</div>}
+      {backtest && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1"></th>
+                <th className="py-1">Outcome</th>
+                <th className="py-1">Fill</th>
+                <th className="py-1">Exit</th>
+                <th className="py-1">R</th>
+                <th className="py-1">MAE</th>
+                <th className="py-1">MFE</th>
+                <th className="py-1">Wait</th>
+                <th className="py-1">In Trade</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700 font-mono">
+              {TRADE_TYPES.map(type => {
+                const result = backtest.setups[type];
+                const outcome = outcomeLabels[result.outcome];
+                return (
+                  <tr key={type}>
+                    <td className="py-1 font-sans">{tradeTypeLabels[type].title}</td>
+                    <td className={`py-1 font-sans ${outcome.className}`}>
+                      {outcome.label}{result.targetsHit > 0 && result.outcome !== 'target' && ` (TP${result.targetsHit} reached)`}
+                    </td>
+                    <td className="py-1">{formatPrice(result.fillPrice)}</td>
+                    <td className="py-1">{formatPrice(result.exitPrice)}</td>
+                    <td className="py-1">{formatR(result.r)}</td>
+                    <td className="py-1">{result.mae === null ? '—' : `${result.mae.toFixed(2)}R`}</td>
+                    <td className="py-1">{result.mfe === null ? '—' : `${result.mfe.toFixed(2)}R`}</td>
+                    <td className="py-1">{result.outcome === 'not_filled' ? `> ${formatDuration(result.maxWaitMs)}` : formatDuration(result.waitMs)}</td>
+                    <td className="py-1">{formatDuration(result.durationMs)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <div className="text-xs text-gray-500 mt-1">
+            Tested {new Date(backtest.testedAt).toLocaleString()} on {backtest.source}, {formatCandleTime(backtest.start)} to {formatCandleTime(backtest.end)} UTC.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BacktestPanel;
@@ -0,0 +1,89 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { backtestRecords, computeBacktestStats, formatDuration, groupBacktestStats, type BacktestRecord, type BacktestStats } from "./backtest";
+import { listRuns } from "./historyStore";
+import { tradeTypeLabels } from "./tradePlan";
+
+interface BacktestSummaryProps {
+  refreshKey: number; // Bumped by the parent whenever a run is saved
+  onClose: () => void;
+}
+
+const formatPercent = (value: number | null) => value === null ? '—' : `${Math.round(value * 100)}%`;
+const formatR = (value: number | null) => value === null ? '—' : `${value >= 0 ? '+' : ''}${value.toFixed(2)}R`;
+
+const StatsTable: React.FC<{ title: string; rows: [string, BacktestStats][] }> = ({ title, rows }) => (
+  <div>
+    <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-1">{title}</h4>
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="py-1"></th>
+          <th className="py-1">Setups</th>
+          <th className="py-1">Filled</th>
+          <th className="py-1">Win Rate</th>
+          <th className="py-1">Avg R</th>
+          <th className="py-1">Total R</th>
+          <th className="py-1">MAE</th>
+          <th className="py-1">MFE</th>
+          <th className="py-1">In Trade</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100 dark:divide-gray-800 font-mono">
+        {rows.map(([name, stats]) => (
+          <tr key={name}>
+            <td className="py-1 font-sans">{name}</td>
+            <td className="py-1">{stats.setups}</td>
+            <td className="py-1">{formatPercent(stats.fillRate)}</td>
+            <td className="py-1">{formatPercent(stats.winRate)}</td>
+            <td className="py-1">{formatR(stats.averageR)}</td>
+            <td className="py-1">{formatR(stats.totalR)}</td>
+            <td className="py-1">{stats.averageMae === null ? '—' : `${stats.averageMae.toFixed(2)}R`}</td>
+            <td className="py-1">{stats.averageMfe === null ? '—' : `${stats.averageMfe.toFixed(2)}R`}</td>
+            <td className="py-1">{formatDuration(stats.averageDurationMs)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+// Backtest results of every saved run, per strategy and trade type
+const BacktestSummary: React.FC<BacktestSummaryProps> = ({ refreshKey, onClose }) => {
+  const [records, setRecords] = useState<BacktestRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listRuns().then(runs => setRecords(backtestRecords(runs))).catch(() => setError('Could not read the saved runs.'));
+  }, [refreshKey]);
+
+  const runCount = new Set(records.map(record => record.run.id)).size;
+
+  return (
+    <aside className="fixed inset-y-0 right-0 w-full sm:w-[40rem] z-50 bg-white dark:bg-neutral-900 shadow-xl border-l border-gray-200 dark:border-gray-700 flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-200">Backtests</h3>
+        <button type="button" className="text-sm text-gray-500 hover:text-gray-700" onClick={onClose}>Close</button>
+      </div>
+      {error && <div className="p-4 text-xs text-red-600">{error}</div>}
+      <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-6">
+        {records.length === 0 ? (
+          <p className="text-sm text-gray-500">No backtested runs. Open a run with a trade plan and upload the candles that followed it.</p>
+        ) : (
+          <>
+            <StatsTable title="Overall" rows={[[`${runCount} run(s)`, computeBacktestStats(records)]]} />
+            <StatsTable title="By Strategy" rows={groupBacktestStats(records, record => record.run.strategy.name)} />
+            <StatsTable title="By Strategy Version" rows={groupBacktestStats(records, record => `${record.run.strategy.name} v${record.run.strategy.version}`)} />
+            <StatsTable title="By Trade Type" rows={groupBacktestStats(records, record => tradeTypeLabels[record.tradeType].title)} />
+            <StatsTable title="By Symbol" rows={groupBacktestStats(records, record => record.run.symbol)} />
+          </>
+        )}
+        <p className="text-xs text-gray-500">
+          Filled is the share of setups whose entry traded within the maximum wait. Win rate, R and excursions count trades that reached the stop or the last take profit; trades still open at the end of the data are left out. R is measured from the fill to the planned stop.
+        </p>
+      </div>
+    </aside>
+  );
+};
+
+export default BacktestSummary;
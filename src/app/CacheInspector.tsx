@@ -0,0 +1,110 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import {
+  deleteCacheEntries,
+  listCacheEntries,
+  loadCacheSettings,
+  loadCacheStats,
+  pruneCache,
+  purgeCache,
+  resetCacheStats,
+  saveCacheSettings,
+  type CacheEntry,
+  type CacheSettings,
+} from "./responseCache";
+
+const inputClass = "w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-neutral-900 text-sm";
+const buttonClass = "px-3 py-1 rounded text-xs font-medium transition-all";
+
+const formatSize = (bytes: number) => bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Response cache statistics, limits and purge controls
+const CacheInspector: React.FC = () => {
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [stats, setStats] = useState(loadCacheStats);
+  const [settings, setSettings] = useState<CacheSettings>(loadCacheSettings);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = () => {
+    setStats(loadCacheStats());
+    listCacheEntries().then(setEntries).catch(() => setError('Could not read the response cache.'));
+  };
+
+  useEffect(reload, []);
+
+  const lookups = stats.hits + stats.misses;
+  const totalSize = entries.reduce((sum, entry) => sum + entry.response.length, 0);
+
+  const updateSettings = (update: Partial<CacheSettings>) => {
+    const next = { ...settings, ...update };
+    setSettings(next);
+    if (next.ttlHours > 0 && next.maxEntries > 0) saveCacheSettings(next);
+  };
+
+  const handle = (action: () => Promise<void> | void) => async () => {
+    try {
+      await action();
+    } catch {
+      setError('The cache could not be updated.');
+    }
+    reload();
+  };
+
+  return (
+    <div className="flex flex-col gap-3 border-t border-gray-200 dark:border-gray-700 pt-4">
+      <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-200">Response Cache</h4>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+        <div><div className="text-xs text-gray-500">Hit Rate</div><div className="font-mono">{lookups > 0 ? `${Math.round(stats.hits / lookups * 100)}%` : '—'}</div></div>
+        <div><div className="text-xs text-gray-500">Hits / Misses</div><div className="font-mono">{stats.hits} / {stats.misses}</div></div>
+        <div><div className="text-xs text-gray-500">Entries</div><div className="font-mono">{entries.length}</div></div>
+        <div><div className="text-xs text-gray-500">Size</div><div className="font-mono">{formatSize(totalSize)}</div></div>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="flex flex-col gap-1 text-xs text-gray-500">
+          Keep responses for (hours)
+          <input type="number" min={1} className={inputClass} value={settings.ttlHours} onChange={e => updateSettings({ ttlHours: Number(e.target.value) })} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-gray-500">
+          Maximum entries
+          <input type="number" min={1} className={inputClass} value={settings.maxEntries} onChange={e => updateSettings({ maxEntries: Number(e.target.value) })} />
+        </label>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <button type="button" className={`${buttonClass} bg-gray-200 dark:bg-neutral-700 hover:bg-gray-300`} onClick={handle(pruneCache)}>Purge Expired</button>
+        <button type="button" className={`${buttonClass} bg-gray-200 dark:bg-neutral-700 hover:bg-gray-300`} onClick={handle(resetCacheStats)}>Reset Statistics</button>
+        <button type="button" className={`${buttonClass} text-red-600 hover:underline`} onClick={handle(purgeCache)}>Purge All</button>
+      </div>
+      {error && <div className="text-xs text-red-600">{error}</div>}
+      {entries.length > 0 && (
+        <div className="max-h-48 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1">Model</th>
+                <th className="py-1">Last Used</th>
+                <th className="py-1">Hits</th>
+                <th className="py-1">Size</th>
+                <th className="py-1"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+              {entries.map(entry => (
+                <tr key={entry.key} title={entry.response.slice(0, 200)}>
+                  <td className="py-1 font-mono">{entry.model.split('|').slice(0, 2).join(' ')}</td>
+                  <td className="py-1">{new Date(entry.lastUsedAt).toLocaleString()}</td>
+                  <td className="py-1 font-mono">{entry.hits}</td>
+                  <td className="py-1 font-mono">{formatSize(entry.response.length)}</td>
+                  <td className="py-1 text-right">
+                    <button type="button" className="text-red-600 hover:underline" onClick={handle(() => deleteCacheEntries([entry.key]))}>Delete</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CacheInspector;
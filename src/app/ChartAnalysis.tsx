@@ -1,8 +1,45 @@
 "use client";
-import React, { useState, useEffect } from "react";
-import { analyzeChartWithGemini } from "./geminiApi";
+import React, { useState, useEffect, useMemo } from "react";
+import { analyzeChartWithGemini, fileToBase64 } from "./geminiApi";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from 'remark-gfm';
+import type { TradePlan } from "./tradePlan";
+import TradePlanView from "./TradePlanView";
+import PositionSizeCalculator from "./PositionSizeCalculator";
+import LevelWarnings from "./LevelWarnings";
+import JournalPanel from "./JournalPanel";
+import JournalActions from "./JournalActions";
+import { FINAL_STEP, pipelineProgress, planPipeline, resetStep, runPipeline, type PipelineStep, type StepOutcome, type StepStatus } from "./analysisPipeline";
+import { validateTradeLevels } from "./levelValidation";
+import ModelSettings from "./ModelSettings";
+import { defaultModelSelection, describeStepModels, loadModelSelection, resolveModel, saveModelSelection, type ModelSelection } from "./modelSelection";
+import type { PlanAgreement } from "./consensus";
+import { analyzeFinalStep, analyzeTimeframeStep, describeStepError, detectChartInstrument, detectChartTimeframe, hasStepInput, lowestTimeframeChart, missingChartAnalysis, type ChartImages, type RunContext } from "./analysisRunner";
+import SettingsPanel from "./SettingsPanel";
+import { getKeyStoreStatus, MissingCredentialsError, unlockKeys } from "./apiKeyStore";
+import { DEFAULT_STRATEGY_ID, getBuiltInStrategies, planLadder, type LadderStep, type Strategy } from "./strategies";
+import { cloneStrategy, getStrategy, listStrategies, loadSelectedStrategyId, saveSelectedStrategyId } from "./strategyStore";
+import StrategyEditor from "./StrategyEditor";
+import { DEFAULT_LADDER, LADDER_PRESETS, loadLadder, parseLadder, saveLadder, sortTimeframes, timeframeLabel, type TimeframeLadder } from "./timeframes";
+import HistorySidebar from "./HistorySidebar";
+import { createRun, createThumbnail, saveRun, type AnalysisRun } from "./historyStore";
+import { buildHtmlReport, buildJsonReport, buildMarkdownReport, createReport, downloadFile, printHtmlReport, reportFileName, runFileStem, type ReportFormat, type ReportImage } from "./reportExport";
+import { buildAlertsCsv, buildAlertsJson, buildPineScript } from "./tradingViewExport";
+import InstrumentPanel, { type InstrumentStatus } from "./InstrumentPanel";
+import { profileFromSymbol, type InstrumentProfile } from "./instrumentProfile";
+import ImageCropper, { FileThumbnail } from "./ImageCropper";
+import ChartOverlay from "./ChartOverlay";
+import FollowUpChat from "./FollowUpChat";
+import EvaluationPanel from "./EvaluationPanel";
+import BacktestPanel from "./BacktestPanel";
+import BacktestSummary from "./BacktestSummary";
+import WatchlistPanel from "./WatchlistPanel";
+import MarketDataInputs from "./MarketDataInputs";
+import MarketDataPanel from "./MarketDataPanel";
+import type { MarketDataByTimeframe } from "./marketData";
+import { calibrationPrompt, calibrationSchema, collectOverlayLevels, parseCalibrationReply } from "./chartLevels";
+import { defaultPreprocessSettings, formatBytes, imageFilesFrom, loadPreprocessSettings, MAX_DIMENSION_OPTIONS, preprocessImage, savePreprocessSettings, type CropRect, type OutputFormat, type PreprocessSettings } from "./imagePreprocessing";
+import { describeConflicts, findTimeframeConflicts, type DetectionSource } from "./timeframeDetection";
 
 // Custom components for markdown rendering
 const components = {
@@ -48,54 +85,307 @@ const components = {
   ),
 };
 
-interface ChartImages {
-  chart4h: File | null;
-  chart1h: File | null;
-  chart15m: File | null;
-  chart5m: File | null;
-}
-
 interface UploadedImage {
-  file: File;
-  detectedTimeframe?: keyof ChartImages;
+  file: File; // Processed image sent to the models
+  original: File; // As uploaded, kept so crops and size settings can be changed
+  crop?: CropRect;
+  width?: number;
+  height?: number;
+  detectedTimeframe?: string;
+  confidence?: number; // 0-1; 1 for manual assignments
+  source?: DetectionSource;
   error?: string;
 }
 
+const withoutDetection = (img: UploadedImage): UploadedImage => {
+  const copy = { ...img };
+  delete copy.detectedTimeframe;
+  delete copy.confidence;
+  delete copy.source;
+  delete copy.error;
+  return copy;
+};
+
+// A failed preprocessing step falls back to the image as uploaded
+async function processUpload(img: UploadedImage, settings: PreprocessSettings): Promise<UploadedImage> {
+  try {
+    const { file, width, height } = await preprocessImage(img.original, settings, img.crop);
+    return { ...img, file, width, height };
+  } catch (err) {
+    console.warn(`Could not preprocess ${img.original.name}`, err);
+    return { ...img, file: img.original };
+  }
+}
+
+const toChartImages = (uploaded: UploadedImage[]): ChartImages =>
+  Object.fromEntries(uploaded.filter(img => img.detectedTimeframe).map(img => [img.detectedTimeframe!, img.file]));
+
+const sourceLabels: Record<DetectionSource, string> = { filename: 'file name', model: 'model', manual: 'manual' };
+
 interface AnalysisResults {
-  analysis4h?: string;
-  analysis1h?: string;
-  analysis15m?: string;
-  analysis5m?: string;
-  finalSuggestion?: string;
+  analyses: Record<string, string>; // Per-timeframe analysis keyed by ladder timeframe id
+  tradePlan?: TradePlan;
+  agreement?: PlanAgreement; // Set when the final step ran in consensus mode
 }
 
-type AnalysisStep = '4h' | '1h' | '15min' | '5min' | 'final';
+type TabType = 'overall' | string; // 'overall' or a ladder timeframe id
+
+const emptyResults: AnalysisResults = { analyses: {} };
+
+// What a pipeline run was started with, so resuming and retrying use the same inputs
+interface PipelineContext {
+  strategy: Strategy;
+  ladderSteps: LadderStep[];
+  images: ChartImages;
+  uploaded: UploadedImage[]; // With the timeframes detected when the run started, for thumbnails and the overlay
+  instrument?: InstrumentProfile;
+  marketData: MarketDataByTimeframe;
+  models: ModelSelection;
+}
 
-type TabType = 'overall' | '4h' | '1h' | '15min' | '5min';
+const stepIcons: Record<StepStatus, string> = { pending: '○', running: '⏳', done: '✅', failed: '❌', skipped: '⏭️' };
+
+const stepLabel = (id: string) => id === FINAL_STEP ? 'Final trade plan' : `${timeframeLabel(id)} analysis`;
 
 const ChartAnalysis: React.FC = () => {
-  const [images, setImages] = useState<ChartImages>({
-    chart4h: null,
-    chart1h: null,
-    chart15m: null,
-    chart5m: null,
-  });
   const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([]);
   const [detectingTimeframes, setDetectingTimeframes] = useState(false);
   const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const [preprocess, setPreprocess] = useState<PreprocessSettings>(defaultPreprocessSettings);
+  const [processingImages, setProcessingImages] = useState(false);
+  const [croppingIndex, setCroppingIndex] = useState<number | null>(null);
+  const [dragActive, setDragActive] = useState(false);
 
   // Clear uploaded images and reset input
   const clearUploadedImages = () => {
     setUploadedImages([]);
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
-  const [results, setResults] = useState<AnalysisResults>({});
+  const [results, setResults] = useState<AnalysisResults>(emptyResults);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [currentStep, setCurrentStep] = useState<AnalysisStep | null>(null);
-  const [progress, setProgress] = useState<number>(0);
+  const [pipeline, setPipeline] = useState<PipelineStep[]>([]);
+  const abortRef = React.useRef<AbortController | null>(null);
+  const pipelineContextRef = React.useRef<PipelineContext | null>(null);
+  const outputsRef = React.useRef<Record<string, string>>({});
+  const [finalDraft, setFinalDraft] = useState(''); // Trade plan JSON as it streams in
   const [activeTab, setActiveTab] = useState<TabType>('overall'); // Default to overall tab
   const [contentHeight, setContentHeight] = useState<string>("calc(100vh - 200px)"); // Default height
+  const [modelSelection, setModelSelection] = useState<ModelSelection>(defaultModelSelection);
+  
+  const [showSettings, setShowSettings] = useState(false);
+  const [keysLocked, setKeysLocked] = useState(false);
+  const [strategies, setStrategies] = useState<Strategy[]>(getBuiltInStrategies);
+  const [strategy, setStrategy] = useState<Strategy>(() => getStrategy(DEFAULT_STRATEGY_ID));
+  const [editingStrategy, setEditingStrategy] = useState(false);
+  const [ladder, setLadder] = useState<TimeframeLadder>(DEFAULT_LADDER);
+  const [customLadderText, setCustomLadderText] = useState('');
+  const [ladderError, setLadderError] = useState<string | null>(null);
+  const [marketData, setMarketData] = useState<MarketDataByTimeframe>({});
+  const [instrument, setInstrument] = useState<InstrumentProfile | null>(null);
+  const [instrumentStatus, setInstrumentStatus] = useState<InstrumentStatus>('unset');
+  const [instrumentNotice, setInstrumentNotice] = useState<string | null>(null);
+  const [detectingInstrument, setDetectingInstrument] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [showJournal, setShowJournal] = useState(false);
+  const [showEvaluation, setShowEvaluation] = useState(false);
+  const [showBacktests, setShowBacktests] = useState(false);
+  const [showWatchlist, setShowWatchlist] = useState(false);
+  const [watchlistOpened, setWatchlistOpened] = useState(false); // Kept mounted once opened so a batch survives closing it
+  const [journalVersion, setJournalVersion] = useState(0);
+  const [currentRun, setCurrentRun] = useState<AnalysisRun | null>(null);
+  const currentRunRef = React.useRef<AnalysisRun | null>(null); // Latest run for updates that arrive before a re-render
+  const deletedRunIds = React.useRef(new Set<string>()); // Late chat answers and backtests must not bring these back
+  const [autoCorrectLevels, setAutoCorrectLevels] = useState(false);
+  const [runFiles, setRunFiles] = useState<UploadedImage[]>([]); // Full-size images of the current run; empty when reopened from history
+  
+  // Restore the saved model selection, strategy and keys after mount (localStorage is not available during prerender)
+  useEffect(() => {
+    setModelSelection(loadModelSelection());
+    setStrategies(listStrategies());
+    setStrategy(getStrategy(loadSelectedStrategyId()));
+    const savedLadder = loadLadder();
+    setLadder(savedLadder);
+    setCustomLadderText(savedLadder.timeframes.join(', '));
+    setPreprocess(loadPreprocessSettings());
+    if (getKeyStoreStatus() === 'locked') {
+      setKeysLocked(true);
+    } else {
+      unlockKeys().catch(() => setKeysLocked(true));
+    }
+  }, []);
+  
+  const closeSettings = () => {
+    setShowSettings(false);
+    setKeysLocked(getKeyStoreStatus() === 'locked');
+  };
+  
+  const selectStrategy = (selected: Strategy) => {
+    setStrategies(listStrategies());
+    setStrategy(selected);
+    saveSelectedStrategyId(selected.id);
+  };
+  
+  const handleCloneStrategy = () => {
+    selectStrategy(cloneStrategy(strategy));
+    setEditingStrategy(true);
+  };
+  
+  const handleStrategyDeleted = () => {
+    setEditingStrategy(false);
+    selectStrategy(getStrategy(DEFAULT_STRATEGY_ID));
+  };
+  
+  // Switching ladders invalidates detected timeframes, so images must be re-detected
+  const updateLadder = (next: TimeframeLadder) => {
+    setLadder(next);
+    saveLadder(next);
+    setCustomLadderText(next.timeframes.join(', '));
+    setLadderError(null);
+    setUploadedImages(imgs => imgs.map(withoutDetection));
+  };
+  
+  const applyCustomLadder = () => {
+    const { timeframes, invalid } = parseLadder(customLadderText);
+    if (invalid.length > 0 || timeframes.length === 0) {
+      setLadderError(invalid.length > 0 ? `Unrecognised timeframe(s): ${invalid.join(', ')}` : 'Enter at least one timeframe.');
+      return;
+    }
+    updateLadder({ id: 'custom', name: 'Custom', timeframes });
+  };
+  
+  // Steps that can be assigned their own model
+  const modelSteps = [
+    { id: 'detect', label: 'Timeframe detection' },
+    ...ladder.timeframes.map(tf => ({ id: tf, label: `${timeframeLabel(tf)} analysis` })),
+    { id: 'final', label: 'Final trade plan' },
+  ];
+  
+  const ladderLabels = ladder.timeframes.map(timeframeLabel).join(', ');
+  
+  const levelIssues = useMemo(
+    () => results.tradePlan ? validateTradeLevels(results.tradePlan, results.analyses) : [],
+    [results]
+  );
+  
+  // Reopen a saved run in the result tabs
+  const openRun = (run: AnalysisRun) => {
+    setResults({ analyses: run.analyses, tradePlan: run.tradePlan, agreement: run.agreement });
+    setCurrentRun(run);
+    setRunFiles([]);
+    setPipeline([]);
+    pipelineContextRef.current = null;
+    setFinalDraft('');
+    setInstrument(run.instrument ?? (run.symbol ? profileFromSymbol(run.symbol) : null));
+    setInstrumentStatus('manual');
+    setActiveTab('overall');
+    setError(null);
+    setShowHistory(false);
+  };
+  
+  // Persist a completed run; failures here must not hide the results the user already has
+  const saveCompletedRun = async (analyses: Record<string, string>, tradePlan: TradePlan, agreement?: PlanAgreement) => {
+    // Recorded as the run started, even when it was resumed after the settings changed
+    const context = pipelineContextRef.current!;
+    const runInstrument = context.instrument;
+    const runMarketData = context.marketData;
+    const runLadder = context.ladderSteps.map(step => step.timeframe);
+    const run = createRun({
+      symbol: runInstrument?.symbol ?? '',
+      instrument: runInstrument,
+      strategy: { id: context.strategy.id, name: context.strategy.name, version: context.strategy.version },
+      ladder: runLadder,
+      models: Object.fromEntries(['detect', ...runLadder, FINAL_STEP].map(step => [step, describeStepModels(context.models, step)])),
+      images: [],
+      analyses,
+      marketData: Object.keys(runMarketData).length > 0 ? runMarketData : undefined,
+      tradePlan,
+      agreement,
+    });
+    currentRunRef.current = run;
+    setCurrentRun(run);
+    setRunFiles(context.uploaded);
+    // An image the browser cannot decode is saved without a thumbnail
+    const images = await Promise.all(context.uploaded.map(async img => ({
+      name: img.file.name,
+      timeframe: img.detectedTimeframe,
+      thumbnail: await createThumbnail(img.file).catch(() => ''),
+    })));
+    await updateRun(run, { images }, 'analysis run');
+  };
+  
+  // The full-size charts when this session still has them, otherwise the saved thumbnails
+  const loadRunImages = async (run: AnalysisRun): Promise<ReportImage[]> => runFiles.length > 0
+    ? Promise.all(runFiles.map(async img => ({ name: img.file.name, timeframe: img.detectedTimeframe, dataUrl: await fileToBase64(img.file) })))
+    : run.images.filter(img => img.thumbnail).map(img => ({ name: img.name, timeframe: img.timeframe, dataUrl: img.thumbnail }));
+  
+  const handleExport = async (format: ReportFormat | 'print') => {
+    if (!currentRun) return;
+    try {
+      const images = await loadRunImages(currentRun);
+      const report = createReport(currentRun, images);
+      if (format === 'print') {
+        printHtmlReport(await buildHtmlReport(report));
+      } else if (format === 'html') {
+        downloadFile(reportFileName(report, format), await buildHtmlReport(report), 'text/html');
+      } else if (format === 'json') {
+        downloadFile(reportFileName(report, format), buildJsonReport(report), 'application/json');
+      } else {
+        downloadFile(reportFileName(report, format), buildMarkdownReport(report), 'text/markdown');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? `Export failed: ${err.message}` : 'Export failed.');
+    }
+  };
+  
+  useEffect(() => {
+    currentRunRef.current = currentRun;
+  }, [currentRun]);
+  
+  // The shown results stay, but a deleted run can no longer be exported, discussed or backtested
+  const handleRunsDeleted = (ids: string[]) => {
+    ids.forEach(id => deletedRunIds.current.add(id));
+    if (currentRunRef.current && ids.includes(currentRunRef.current.id)) {
+      currentRunRef.current = null;
+      setCurrentRun(null);
+      setRunFiles([]);
+    }
+  };
+  
+  // Thumbnails, chat answers and backtests are saved with the run as soon as they are ready. Each change merges into the
+  // latest copy of the run, so one saved while the other was pending does not overwrite it.
+  const updateRun = async (run: AnalysisRun, change: Pick<Partial<AnalysisRun>, 'images' | 'chat' | 'backtest'>, what: string) => {
+    if (deletedRunIds.current.has(run.id)) return;
+    const latest = currentRunRef.current?.id === run.id ? currentRunRef.current : run;
+    const updated = { ...latest, ...change };
+    if (currentRunRef.current?.id === run.id) currentRunRef.current = updated;
+    setCurrentRun(current => current?.id === run.id ? { ...current, ...change } : current);
+    try {
+      await saveRun(updated);
+      setHistoryVersion(v => v + 1);
+    } catch (err) {
+      console.warn(`Could not save the ${what} to history`, err);
+    }
+  };
+  
+  // Pine Script indicator and price alerts for pasting into TradingView
+  const handleTradingViewExport = (kind: 'pine' | 'alerts-csv' | 'alerts-json') => {
+    if (!currentRun) return;
+    const stem = runFileStem(currentRun);
+    try {
+      if (kind === 'pine') downloadFile(`${stem}.pine`, buildPineScript(currentRun), 'text/plain');
+      else if (kind === 'alerts-csv') downloadFile(`${stem}-alerts.csv`, buildAlertsCsv(currentRun), 'text/csv');
+      else downloadFile(`${stem}-alerts.json`, buildAlertsJson(currentRun), 'application/json');
+    } catch (err) {
+      setError(err instanceof Error ? `Export failed: ${err.message}` : 'Export failed.');
+    }
+  };
+  
+  const updateModelSelection = (selection: ModelSelection) => {
+    setModelSelection(selection);
+    saveModelSelection(selection);
+  };
   
   // Set the content height based on viewport
   useEffect(() => {
@@ -109,236 +399,342 @@ const ChartAnalysis: React.FC = () => {
     return () => window.removeEventListener('resize', updateHeight);
   }, []);
 
+  // Preprocess new images, then replace the list (file picker) or add to it (paste and drop)
+  const addFiles = async (files: File[], replace: boolean) => {
+    if (files.length === 0) return;
+    setProcessingImages(true);
+    const processed = await Promise.all(files.map(file => processUpload({ file, original: file }, preprocess)));
+    setUploadedImages(imgs => replace ? processed : [...imgs, ...processed]);
+    setProcessingImages(false);
+    // An instrument read off earlier charts may not match the new ones
+    if (instrumentStatus !== 'manual') {
+      setInstrument(null);
+      setInstrumentStatus('unset');
+    }
+  };
+
   // Multi-image upload handler
   const handleMultiImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files) {
-      const files = Array.from(e.target.files);
-      setUploadedImages(files.map(file => ({ file })));
+    if (e.target.files) addFiles(Array.from(e.target.files), true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragActive(false);
+    addFiles(imageFilesFrom(e.dataTransfer), false);
+  };
+
+  // Screenshots pasted anywhere on the page are added; text pastes into inputs are left alone
+  const addFilesRef = React.useRef(addFiles);
+  useEffect(() => {
+    addFilesRef.current = addFiles;
+  });
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = imageFilesFrom(e.clipboardData);
+      if (files.length === 0) return;
+      e.preventDefault();
+      addFilesRef.current(files, false);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, []);
+
+  // New size or format settings apply to the images already uploaded, keeping their crops and timeframes
+  const updatePreprocess = async (update: Partial<PreprocessSettings>) => {
+    const next = { ...preprocess, ...update };
+    setPreprocess(next);
+    savePreprocessSettings(next);
+    setProcessingImages(true);
+    const processed = await Promise.all(uploadedImages.map(img => processUpload(img, next)));
+    setUploadedImages(processed);
+    setProcessingImages(false);
+  };
+
+  const applyCrop = async (index: number, crop: CropRect | undefined) => {
+    setCroppingIndex(null);
+    setProcessingImages(true);
+    const processed = await processUpload({ ...uploadedImages[index], crop }, preprocess);
+    setUploadedImages(imgs => imgs.map((img, i) => i === index ? processed : img));
+    setProcessingImages(false);
+  };
+
+  // Ask the model where two price-axis labels sit, to place the levels on the chart
+  const calibrateChart = async (file: File) => parseCalibrationReply(await analyzeChartWithGemini({
+    image: file,
+    model: resolveModel(modelSelection, 'detect'),
+    prompt: calibrationPrompt,
+    responseSchema: calibrationSchema,
+  }));
+
+  const removeImage = (index: number) => setUploadedImages(imgs => imgs.filter((_, i) => i !== index));
+
+  // Read the instrument off the lowest-timeframe chart, whose price axis is the most recent
+  const detectInstrument = async (uploaded: UploadedImage[]): Promise<void> => {
+    const image = lowestTimeframeChart(toChartImages(uploaded), ladder.timeframes) ?? uploaded[0]?.file;
+    if (!image) return;
+    setDetectingInstrument(true);
+    try {
+      const detected = await detectChartInstrument(image, modelSelection);
+      if (detected) setInstrument(detected);
+      setInstrumentNotice(detected ? null : 'Could not identify the instrument. Enter it above, or press Analyze to continue without it.');
+    } catch (err) {
+      setInstrumentNotice(err instanceof MissingCredentialsError ? err.message : 'Instrument detection failed. Enter it above, or press Analyze to continue without it.');
     }
+    setInstrumentStatus('detected');
+    setDetectingInstrument(false);
   };
 
-  // Identify timeframe for each uploaded image
-  const identifyTimeframes = async () => {
+  const changeInstrument = (profile: InstrumentProfile | null) => {
+    setInstrument(profile);
+    setInstrumentStatus(profile ? 'manual' : 'unset');
+    setInstrumentNotice(null);
+  };
+
+  // Identify the timeframe of each image not assigned by hand: the file name first, then the model
+  const identifyTimeframes = async (): Promise<UploadedImage[]> => {
     setDetectingTimeframes(true);
-    const tfPrompts = {
-      chart4h: '4h',
-      chart1h: '1h',
-      chart15m: '15m',
-      chart5m: '5m',
-    };
-    const timeframeMap: Record<string, keyof ChartImages> = {
-      '4h': 'chart4h',
-      '4H': 'chart4h',
-      '1h': 'chart1h',
-      '1H': 'chart1h',
-      '15m': 'chart15m',
-      '15min': 'chart15m',
-      '15M': 'chart15m',
-      '5m': 'chart5m',
-      '5min': 'chart5m',
-      '5M': 'chart5m',
-    };
-    const newUploadedImages = await Promise.all(uploadedImages.map(async (img) => {
+    const newUploadedImages = await Promise.all(uploadedImages.map(async (img): Promise<UploadedImage> => {
+      if (img.source === 'manual') return img;
       try {
-        const tfResp = await analyzeChartWithGemini({
-          image: img.file,
-          prompt: 'What is the exact timeframe shown in this trading chart? Respond with ONLY one of the following and nothing else: 4h, 1h, 15m, 5m. If the chart is 15 minutes, respond with exactly: 15m. If 5 minutes, respond with exactly: 5m.'
-        });
-        // Extract only exact valid timeframe, not substrings
-        const cleaned = tfResp.trim().toLowerCase();
-        const valid = ['4h', '1h', '15m', '5m'];
-        if (valid.includes(cleaned)) {
-          return { ...img, detectedTimeframe: timeframeMap[cleaned] };
+        // Accept only a reply that names one of the ladder's timeframes
+        const detected = await detectChartTimeframe(img.file, ladder.timeframes, modelSelection);
+        if (detected) {
+          return { ...withoutDetection(img), detectedTimeframe: detected.timeframe, confidence: detected.confidence, source: detected.source };
         } else {
-          return { ...img, error: 'Could not detect timeframe' };
+          return { ...withoutDetection(img), error: 'Could not detect timeframe' };
         }
       } catch (err) {
-        return { ...img, error: 'Detection failed' };
+        return { ...withoutDetection(img), error: err instanceof MissingCredentialsError ? err.message : 'Detection failed' };
       }
     }));
     setUploadedImages(newUploadedImages);
-    // Map to ChartImages
-    const chartImages: ChartImages = {
-      chart4h: null, chart1h: null, chart15m: null, chart5m: null
-    };
-    newUploadedImages.forEach(img => {
-      if (img.detectedTimeframe) chartImages[img.detectedTimeframe] = img.file;
-    });
-    setImages(chartImages);
     setDetectingTimeframes(false);
+    return newUploadedImages;
   };
 
+  // A hand-picked timeframe overrides detection; an empty choice unassigns the image
+  const assignTimeframe = (index: number, timeframe: string) =>
+    setUploadedImages(imgs => imgs.map((img, i) => i !== index ? img
+      : timeframe ? { ...withoutDetection(img), detectedTimeframe: timeframe, confidence: 1, source: 'manual' } : withoutDetection(img)));
+
+  const conflicts = findTimeframeConflicts(
+    uploadedImages.map(img => ({ name: img.file.name, timeframe: img.detectedTimeframe })),
+    ladder.timeframes
+  );
+
   const handleAnalyze = async () => {
     // Always ensure timeframes are detected before analysis
-    if (uploadedImages.length > 0 && uploadedImages.some(img => !img.detectedTimeframe && !img.error)) {
-      await identifyTimeframes();
+    let uploaded = uploadedImages;
+    const stepData: MarketDataByTimeframe = Object.fromEntries(ladder.timeframes.filter(tf => marketData[tf]).map(tf => [tf, marketData[tf]]));
+    if (uploaded.length === 0 && Object.keys(stepData).length === 0) {
+      setError("Upload a chart or OHLCV data for at least one timeframe.");
+      return;
+    }
+    if (uploaded.some(img => !img.detectedTimeframe && !img.error)) {
+      uploaded = await identifyTimeframes();
     }
-    // Prevent analysis if any image has not been classified
-    if (uploadedImages.some(img => !img.detectedTimeframe && !img.error)) {
-      setError("Please detect timeframes for all images before analysis.");
+    // Every image needs exactly one timeframe, and no timeframe may have two charts
+    if (uploaded.some(img => !img.detectedTimeframe)) {
+      setError("Choose a timeframe for every uploaded image before analysis.");
       return;
     }
-    setLoading(true);
-    setError(null);
-    setResults({});
-    setProgress(0);
-    setCurrentStep(null);
+    const conflicting = findTimeframeConflicts(uploaded.map(img => ({ name: img.file.name, timeframe: img.detectedTimeframe })), ladder.timeframes);
+    const duplicates = conflicting.duplicates;
+    // Timeframes with OHLCV data run without a chart
+    const missing = conflicting.missing.filter(tf => !stepData[tf]);
+    if (Object.keys(duplicates).length > 0) {
+      setError(describeConflicts({ duplicates, missing: [] }).join(' ') + ' Reassign them before analysis.');
+      return;
+    }
+    // Missing timeframes are skipped steps; the plan is weaker without them, so ask first
+    if (missing.length > 0 && !window.confirm(`${describeConflicts({ duplicates, missing }).join(' ')} Analyze without them?`)) return;
+    // The instrument shapes every prompt, so a detected one is shown for review before it is used
+    if (instrumentStatus === 'unset' && uploaded.length > 0) {
+      await detectInstrument(uploaded);
+      return;
+    }
+    if (instrumentStatus === 'detected') setInstrumentStatus('reviewed');
+    const ladderSteps = planLadder(strategy, ladder.timeframes);
+    pipelineContextRef.current = { strategy, ladderSteps, images: toChartImages(uploaded), uploaded, instrument: instrument ?? undefined, marketData: stepData, models: modelSelection };
+    outputsRef.current = {};
+    setResults(emptyResults);
+    setFinalDraft('');
+    setCurrentRun(null);
+    await executePipeline(planPipeline(strategy, ladderSteps));
+  };
+  
+  // Streamed text is shown in the tab; only the completed analysis becomes context for later steps
+  const showAnalysis = (timeframe: string, text: string) =>
+    setResults(r => ({ ...r, analyses: { ...r.analyses, [timeframe]: text } }));
+  
+  const recordAnalysis = (timeframe: string, analysis: string) => {
+    outputsRef.current = { ...outputsRef.current, [timeframe]: analysis };
+    showAnalysis(timeframe, analysis);
+  };
+  
+  const runStep = async (id: string, signal: AbortSignal): Promise<StepOutcome> => {
+    const context: RunContext = { ...pipelineContextRef.current!, autoCorrectLevels };
     
-    try {
-      let analysis4h = "";
-      let analysis1h = "";
-      let analysis15m = "";
-      let analysis5m = "";
-      let finalSuggestion = "";
-
-      // 4H chart analysis
-      setCurrentStep('4h');
-      if (images.chart4h) {
-        analysis4h = await analyzeChartWithGemini({
-          image: images.chart4h,
-          prompt: `Analyze this 4-hour chart using the Fib-RSI Confluence Strategy:
-
-1. Identify the major trend direction (bullish/bearish/neutral)
-2. Note key Fibonacci levels (0.382, 0.5, 0.618, 0.786) visible on the chart
-3. Report the RSI value and whether it's above/below 50
-4. Highlight any significant support/resistance zones
-5. Determine if this chart provides a clear bias for trading
-
-Your analysis should focus on establishing overall market structure and primary trend. Draw Fibonacci retracement on major swings (last 1-2 weeks) and identify longer-term momentum state from RSI (bullish >50, bearish <50).`
-        });
-      } else {
-        analysis4h = "No 4h chart uploaded.";
+    if (id !== FINAL_STEP) {
+      if (!hasStepInput(context, id)) {
+        recordAnalysis(id, missingChartAnalysis(id));
+        return 'skipped';
       }
-      setResults(r => ({ ...r, analysis4h }));
-      setProgress(20);
-
-      // 1H chart analysis
-      setCurrentStep('1h');
-      if (images.chart1h) {
-        analysis1h = await analyzeChartWithGemini({
-          image: images.chart1h,
-          prompt: `Analyze this 1-hour chart for BOTH swing and intraday opportunities while considering 4h context:
-
-## SWING TRADE SETUP (2-7 days)
-1. Identify if price is at/approaching significant Fibonacci levels from 4h timeframe
-2. Check if 1h RSI aligns with 4h trend bias for multi-day holds
-3. Look for 1h confluence zones that support 4h structure
-4. Assess if current 1h pattern supports swing trade entries
-
-## INTRADAY TRADE SETUP (Same day)
-1. Identify 1h support/resistance levels for same-day trading
-2. Check for 1h RSI conditions suitable for 4-8 hour moves (RSI 35-65 range)
-3. Look for 1h breakout/breakdown patterns independent of 4h bias
-4. Assess immediate 1h Fibonacci retracements for intraday entries
-5. Identify 1h trend changes that could offer same-day opportunities
-
-## KEY LEVELS IDENTIFICATION
-- List specific support levels with exact prices
-- List specific resistance levels with exact prices
-- Identify 1h Fibonacci levels (0.382, 0.5, 0.618) with prices
-- Note any 1h trend line breaks or formations
-
-4h context: ${analysis4h.substring(0, 200)}...
-
-Provide clear price levels and distinguish between setups that work for swing trades vs intraday trades. Focus on actionable levels that can be monitored throughout the trading day.`
-        });
-      } else {
-        analysis1h = "No 1h chart uploaded.";
-      }
-      setResults(r => ({ ...r, analysis1h }));
-      setProgress(40);
-
-      // 15min chart analysis
-      setCurrentStep('15min');
-      if (images.chart15m) {
-        analysis15m = await analyzeChartWithGemini({
-          image: images.chart15m,
-          prompt: `Analyze this 15-minute chart for BOTH intraday and scalp trading opportunities while considering higher timeframe context:
-
-## INTRADAY TRADE ANALYSIS (Same day holds)
-1. Identify clear candlestick patterns at Fibonacci confluence zones suitable for 2-8 hour holds
-2. Check if RSI (30-70 range) confirms momentum for intraday moves
-3. Look for any bearish/bullish divergence on RSI that could signal 4-6 hour reversals
-4. Suggest entry points with stops at nearby support/resistance for same-day exits
-5. Calculate Risk:Reward for targets 20-50 pips away
-
-## SCALP TRADE ANALYSIS (Quick moves)
-1. Identify immediate support/resistance levels for 15-60 minute moves
-2. Check for RSI oversold (<30) or overbought (>70) conditions for quick reversals
-3. Look for breakout patterns that could give 10-30 pip moves
-4. Suggest tight entry zones with 5-15 pip stops
-5. Calculate Risk:Reward for quick 10-25 pip targets
-
-Higher timeframe context:
-4h analysis: ${analysis4h.substring(0, 200)}...
-1h analysis: ${analysis1h.substring(0, 200)}...
-
-Provide specific price levels, entry conditions, and time-based exit strategies for both trade types. Focus on actionable setups that can be taken within the next 1-4 hours.`
-        });
-      } else {
-        analysis15m = "No 15min chart uploaded.";
-      }
-      setResults(r => ({ ...r, analysis15m }));
-      setProgress(60);
-
-      // 5min chart analysis
-      setCurrentStep('5min');
-      if (images.chart5m) {
-        analysis5m = await analyzeChartWithGemini({
-          image: images.chart5m,
-          prompt: `Analyze this 5-minute chart for SCALP TRADING execution with precise entry/exit details:
-
-## IMMEDIATE SCALP OPPORTUNITIES (5-30 minutes)
-1. Identify EXACT entry prices based on current price action and micro support/resistance
-2. Check current RSI reading and identify if it's in scalp-friendly zones (oversold <25, overbought >75)
-3. Look for immediate reversal signals: hammer/doji at support, shooting star/doji at resistance
-4. Provide EXACT stop loss prices (typically 3-8 pips from entry)
-5. Provide EXACT take profit targets at nearest resistance/support (typically 8-20 pips)
-6. Describe the SPECIFIC candlestick pattern or price action happening RIGHT NOW
-
-## MICRO TREND ANALYSIS
-- Current 5-minute trend direction
-- Last 3 candles pattern significance
-- Volume confirmation (if visible)
-- Any immediate breakout/breakdown levels
-
-## EXECUTION TIMING
-- Best entry time within next 15-30 minutes
-- Market session consideration (volatility expectations)
-- Any upcoming support/resistance tests
-
-15min context: ${analysis15m.substring(0, 200)}...
-
-Focus on trades that can be executed IMMEDIATELY with clear 5-15 minute exit strategies. Provide specific price alerts and exact timing for entry execution.`
-        });
-      } else {
-        analysis5m = "No 5min chart uploaded.";
-      }
-      setResults(r => ({ ...r, analysis5m }));
-      setProgress(80);
-
-      // Final suggestion (combine all)
-      setCurrentStep('final');
-      finalSuggestion = await analyzeChartWithGemini({
-        image: images.chart4h || images.chart1h || images.chart15m || images.chart5m!,
-        prompt: `Given the following analyses based on the multi-timeframe Fib-RSI Confluence Strategy:\n4H: ${analysis4h}\n1H: ${analysis1h}\n15min: ${analysis15m}\n5min: ${analysis5m}\n\nProvide a comprehensive trading recommendation that covers ALL possible trade types. Your response MUST follow this exact format:\n\n## 🎯 PRIMARY TRADE OPPORTUNITY\n\n### SWING TRADE (2-7 days)\n**STATUS:** ✅ AVAILABLE / ⏳ WAIT / ❌ NOT AVAILABLE\n\n**Entry:** [Price]\n**Stop Loss:** [Price]\n**Take Profit 1:** [Price] (R:R [ratio])\n**Take Profit 2:** [Price] (R:R [ratio])\n**Timeframe:** 4H-1H confirmation needed\n\n### INTRADAY TRADE (Same day)\n**STATUS:** ✅ AVAILABLE / ⏳ WAIT / ❌ NOT AVAILABLE\n\n**Entry:** [Price]\n**Stop Loss:** [Price]\n**Take Profit 1:** [Price] (R:R [ratio])\n**Take Profit 2:** [Price] (R:R [ratio])\n**Timeframe:** 1H-15M confirmation needed\n\n### SCALP TRADE (Minutes to hours)\n**STATUS:** ✅ AVAILABLE / ⏳ WAIT / ❌ NOT AVAILABLE\n\n**Entry:** [Price]\n**Stop Loss:** [Price]\n**Take Profit 1:** [Price] (R:R [ratio])\n**Take Profit 2:** [Price] (R:R [ratio])\n**Timeframe:** 15M-5M confirmation needed\n\n## ⏰ WAITING INSTRUCTIONS\n\n### If SWING trade shows ⏳ WAIT:\n- **Wait for:** [Specific condition]\n- **Watch level:** [Specific price]\n- **Confirmation needed:** [Specific signal]\n- **Maximum wait time:** [Time period]\n\n### If INTRADAY trade shows ⏳ WAIT:\n- **Wait for:** [Specific condition]\n- **Watch level:** [Specific price]\n- **Confirmation needed:** [Specific signal]\n- **Maximum wait time:** [Time period]\n\n### If SCALP trade shows ⏳ WAIT:\n- **Wait for:** [Specific condition]\n- **Watch level:** [Specific price]\n- **Confirmation needed:** [Specific signal]\n- **Maximum wait time:** [Time period]\n\n## 📊 KEY LEVELS TO MONITOR\n\n**Support Levels:**\n- Level 1: [Price] - [Significance]\n- Level 2: [Price] - [Significance]\n- Level 3: [Price] - [Significance]\n\n**Resistance Levels:**\n- Level 1: [Price] - [Significance]\n- Level 2: [Price] - [Significance]\n- Level 3: [Price] - [Significance]\n\n**Fibonacci Levels:**\n- 0.236: [Price]\n- 0.382: [Price]\n- 0.5: [Price]\n- 0.618: [Price]\n- 0.786: [Price]\n\n## 🔍 CURRENT MARKET STATE\n\n**Trend Direction:** [Bullish/Bearish/Neutral]\n**Momentum:** [Strong/Weak/Neutral]\n**Volatility:** [High/Medium/Low]\n**RSI Status:** 4H: [Value] | 1H: [Value] | 15M: [Value]\n\n## ⚠️ RISK MANAGEMENT\n\n**Position Size:** [Percentage of account]\n**Max Risk per Trade:** [Percentage]\n**Correlation Check:** [Any correlated positions]\n\n## 🎯 RECOMMENDED ACTION\n\n**IMMEDIATE:** [What to do right now]\n**TODAY:** [What to monitor today]\n**THIS WEEK:** [What to watch this week]\n\nIf ALL trades show ❌ NOT AVAILABLE, provide specific conditions that would make each trade type viable and estimated timeframes for when to check again.`
-      });
-      setResults(r => ({ ...r, finalSuggestion }));
-      setProgress(100);
-    } catch {
-      setError("Failed to analyze charts. Please check your images and network, or try again.");
-    } finally {
-      setLoading(false);
-      setCurrentStep(null);
+      // Only the first consensus member streams into the tab
+      recordAnalysis(id, await analyzeTimeframeStep(context, id, outputsRef.current, { signal, onText: text => showAnalysis(id, text) }));
+      return 'done';
     }
+    
+    setResults(r => ({ ...r, tradePlan: undefined, agreement: undefined }));
+    setFinalDraft('');
+    const { tradePlan, agreement } = await analyzeFinalStep(context, outputsRef.current, { signal, onText: setFinalDraft });
+    setResults(r => ({ ...r, tradePlan, agreement }));
+    setFinalDraft('');
+    await saveCompletedRun(outputsRef.current, tradePlan, agreement);
+    return 'done';
+  };
+  
+  // Run whatever is pending; completed steps keep their results
+  const executePipeline = async (steps: PipelineStep[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLoading(true);
+    setError(null);
+    setPipeline(steps);
+    const finished = await runPipeline(steps, runStep, describeStepError, controller.signal, setPipeline);
+    abortRef.current = null;
+    setLoading(false);
+    const failed = finished.find(step => step.status === 'failed');
+    if (failed) setError(`${stepLabel(failed.id)} failed: ${failed.error}`);
   };
+  
+  const handleStop = () => abortRef.current?.abort();
+  
+  // Resuming also retries failed steps
+  const handleResume = () => executePipeline(pipeline.map(step => step.status === 'failed' ? { id: step.id, dependsOn: step.dependsOn, status: 'pending' } : step));
+  
+  const handleRetryStep = (id: string) => executePipeline(resetStep(pipeline, id));
+  
+  const canResume = !loading && pipelineContextRef.current !== null && pipeline.some(step => step.status === 'pending' || step.status === 'failed');
+  const progress = pipelineProgress(pipeline);
+  // Charts of the shown results; reopened runs keep only thumbnails, which are too small to annotate
+  const tabImage = (currentRun ? runFiles : uploadedImages).find(img => img.detectedTimeframe === activeTab)?.file;
+  // The instrument the shown plan was made for
+  const planInstrument = currentRun ? currentRun.instrument : pipelineContextRef.current?.instrument;
+  const shownMarketData = currentRun ? currentRun.marketData : pipelineContextRef.current?.marketData;
+  const missingCharts = conflicts.missing.filter(tf => !marketData[tf]);
 
   return (
     <div className="w-full max-w-7xl mx-auto bg-white dark:bg-neutral-900 rounded-xl shadow-lg p-8 flex flex-col gap-6">
-      <div className="flex items-center justify-center mb-2">
+      <div className="flex items-center justify-center mb-2 relative">
         <h2 className="text-3xl font-bold text-center bg-gradient-to-r from-blue-600 to-indigo-600 text-transparent bg-clip-text">Trading Chart Analysis</h2>
+        <div className="absolute left-0 flex gap-2">
+          <button
+            type="button"
+            className="px-3 py-1 rounded-lg text-sm font-medium border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-neutral-800"
+            onClick={() => setShowHistory(true)}
+          >
+            History
+          </button>
+          <button
+            type="button"
+            className="px-3 py-1 rounded-lg text-sm font-medium border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-neutral-800"
+            onClick={() => setShowJournal(true)}
+          >
+            Journal
+          </button>
+          <button
+            type="button"
+            className="px-3 py-1 rounded-lg text-sm font-medium border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-neutral-800"
+            onClick={() => setShowEvaluation(true)}
+          >
+            Evaluate
+          </button>
+          <button
+            type="button"
+            className="px-3 py-1 rounded-lg text-sm font-medium border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-neutral-800"
+            onClick={() => setShowBacktests(true)}
+          >
+            Backtests
+          </button>
+          <button
+            type="button"
+            className="px-3 py-1 rounded-lg text-sm font-medium border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-neutral-800"
+            onClick={() => {
+              setShowWatchlist(true);
+              setWatchlistOpened(true);
+            }}
+          >
+            Watchlist
+          </button>
+        </div>
+        <button
+          type="button"
+          className="absolute right-0 px-3 py-1 rounded-lg text-sm font-medium border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-neutral-800"
+          onClick={() => setShowSettings(s => !s)}
+        >
+          Settings
+        </button>
       </div>
       
+      {showSettings && <SettingsPanel onClose={closeSettings} />}
+      
+      {showHistory && <HistorySidebar refreshKey={historyVersion} onOpen={openRun} onDeleted={handleRunsDeleted} onClose={() => setShowHistory(false)} />}
+      
+      {watchlistOpened && (
+        <WatchlistPanel
+          open={showWatchlist}
+          ladder={ladder.timeframes}
+          strategy={strategy}
+          models={modelSelection}
+          autoCorrectLevels={autoCorrectLevels}
+          onSaved={() => setHistoryVersion(v => v + 1)}
+          onOpen={run => {
+            openRun(run);
+            setShowWatchlist(false);
+          }}
+          onClose={() => setShowWatchlist(false)}
+        />
+      )}
+      
+      {showBacktests && <BacktestSummary refreshKey={historyVersion} onClose={() => setShowBacktests(false)} />}
+      
+      {showJournal && <JournalPanel refreshKey={journalVersion} onClose={() => setShowJournal(false)} />}
+      
+      {showEvaluation && (
+        <EvaluationPanel
+          ladder={ladder.timeframes}
+          defaultModel={modelSelection.default}
+          defaultStrategyId={strategy.id}
+          onClose={() => setShowEvaluation(false)}
+        />
+      )}
+      {croppingIndex !== null && uploadedImages[croppingIndex] && (
+        <ImageCropper
+          file={uploadedImages[croppingIndex].original}
+          crop={uploadedImages[croppingIndex].crop}
+          onApply={crop => applyCrop(croppingIndex, crop)}
+          onCancel={() => setCroppingIndex(null)}
+        />
+      )}
+      
+      {editingStrategy && (
+        <StrategyEditor
+          key={`${strategy.id}-${strategy.version}`}
+          strategy={strategy}
+          onSaved={selectStrategy}
+          onDeleted={handleStrategyDeleted}
+          onClose={() => setEditingStrategy(false)}
+        />
+      )}
+      
+      {keysLocked && !showSettings && (
+        <div className="p-3 bg-amber-50 border-l-4 border-amber-500 rounded-md text-sm text-amber-800 dark:bg-amber-900/20 dark:text-amber-200">
+          Your saved API keys are encrypted. <button type="button" className="underline font-medium" onClick={() => setShowSettings(true)}>Unlock them in Settings</button> before analyzing.
+        </div>
+      )}
+      
       <div className="text-sm text-center text-gray-500 mb-4">
         Upload charts from different timeframes for AI-powered sequential analysis
       </div>
@@ -350,9 +746,12 @@ Focus on trades that can be executed IMMEDIATELY with clear 5-15 minute exit str
           <form className="flex flex-col gap-5 overflow-y-auto flex-1 pr-2" onSubmit={e => { e.preventDefault(); handleAnalyze(); }}>
             {/* Multi-image upload */}
             <div className="relative">
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Upload Chart Images (4h, 1h, 15m, 5m)</label>
-              <div className={`border-2 border-dashed rounded-lg p-4 transition-all ${uploadedImages.length > 0 ? 'border-green-500 bg-green-50 dark:bg-green-900/20' : 'border-gray-300 hover:border-blue-500'}`}
-  style={{ minHeight: '120px', position: 'relative' }}>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Upload Chart Images ({ladderLabels})</label>
+              <div className={`border-2 border-dashed rounded-lg p-4 transition-all ${dragActive ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20' : uploadedImages.length > 0 ? 'border-green-500 bg-green-50 dark:bg-green-900/20' : 'border-gray-300 hover:border-blue-500'}`}
+  style={{ minHeight: '120px', position: 'relative' }}
+  onDragOver={e => { e.preventDefault(); setDragActive(true); }}
+  onDragLeave={() => setDragActive(false)}
+  onDrop={handleDrop}>
   <input
     type="file"
     accept="image/*"
@@ -364,9 +763,10 @@ Focus on trades that can be executed IMMEDIATELY with clear 5-15 minute exit str
     aria-label="Upload chart images"
   />
   <div className="text-center flex flex-col items-center justify-center" style={{ minHeight: 80, zIndex: 1 }}>
-    <span className="block text-sm text-gray-500">Click or drag to upload chart images (4h, 1h, 15m, 5m)</span>
+    <span className="block text-sm text-gray-500">Click, drop or paste (Ctrl+V) chart screenshots ({ladderLabels})</span>
+    {processingImages && <div className="text-xs text-blue-500 mt-1">Processing images...</div>}
     {uploadedImages.length > 0 && (
-      <div className="flex flex-col items-center gap-1 mt-2">
+      <div className="flex flex-col items-center gap-1 mt-2" style={{ position: 'relative', zIndex: 3 }}>
         <div className="text-xs text-green-600 dark:text-green-400">{uploadedImages.length} image(s) selected</div>
         <button type="button" className="text-xs text-red-600 hover:underline mt-1" onClick={clearUploadedImages}>Clear</button>
       </div>
@@ -374,43 +774,168 @@ Focus on trades that can be executed IMMEDIATELY with clear 5-15 minute exit str
   </div>
 </div>
             </div>
-            {/* Show detected timeframes and errors */}
+            {/* Preprocessing applied before images are sent to a model */}
+            <div className="grid grid-cols-2 gap-2">
+              <label className="flex flex-col gap-1 text-xs text-gray-500 dark:text-gray-400">
+                Max Size
+                <select
+                  className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-neutral-900 text-sm"
+                  value={preprocess.maxDimension}
+                  disabled={processingImages}
+                  onChange={e => updatePreprocess({ maxDimension: Number(e.target.value) })}
+                >
+                  {MAX_DIMENSION_OPTIONS.map(size => <option key={size} value={size}>{size > 0 ? `${size}px` : 'Original'}</option>)}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-gray-500 dark:text-gray-400">
+                Format
+                <select
+                  className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-neutral-900 text-sm"
+                  value={preprocess.format}
+                  disabled={processingImages}
+                  onChange={e => updatePreprocess({ format: e.target.value as OutputFormat })}
+                >
+                  <option value="image/webp">WebP</option>
+                  <option value="image/jpeg">JPEG</option>
+                  <option value="original">Keep original</option>
+                </select>
+              </label>
+            </div>
+            {/* Processed previews, detected timeframes and errors */}
             {uploadedImages.length > 0 && (
               <div className="mt-2">
                 <ul className="text-xs">
-                  {uploadedImages.map((img, idx) => (
-                    <li key={idx} className="flex items-center gap-2 mb-1">
-                      <span className="font-mono">{img.file.name}</span>
-                      {img.detectedTimeframe && <span className="px-2 py-0.5 rounded bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 ml-2">{img.detectedTimeframe.replace('chart', '')}</span>}
-                      {img.error && <span className="px-2 py-0.5 rounded bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200 ml-2">{img.error}</span>}
-                    </li>
-                  ))}
+                  {uploadedImages.map((img, idx) => {
+                    const duplicate = img.detectedTimeframe !== undefined && conflicts.duplicates[img.detectedTimeframe] !== undefined;
+                    return (
+                      <li key={idx} className="flex flex-wrap items-center gap-2 mb-2">
+                        <FileThumbnail file={img.file} className="h-12 w-auto rounded border border-gray-200 dark:border-gray-700" />
+                        <div className="flex flex-col">
+                          <span className="font-mono">{img.file.name}</span>
+                          <span className="text-gray-500">
+                            {img.width && img.height ? `${img.width}×${img.height} · ` : ''}{formatBytes(img.file.size)}
+                            {img.file !== img.original && ` (was ${formatBytes(img.original.size)})`}
+                            {img.crop && ' · cropped'}
+                          </span>
+                          <span className="flex gap-2">
+                            <button type="button" className="text-blue-600 hover:underline" disabled={processingImages} onClick={() => setCroppingIndex(idx)}>Crop</button>
+                            <button type="button" className="text-red-600 hover:underline" onClick={() => removeImage(idx)}>Remove</button>
+                          </span>
+                        </div>
+                        <select
+                          className={`px-1 py-0.5 rounded border bg-white dark:bg-neutral-900 ${duplicate ? 'border-red-500 text-red-700 dark:text-red-300' : 'border-gray-300 dark:border-gray-600'}`}
+                          value={img.detectedTimeframe ?? ''}
+                          onChange={e => assignTimeframe(idx, e.target.value)}
+                          aria-label={`Timeframe of ${img.file.name}`}
+                        >
+                          <option value="">Unassigned</option>
+                          {ladder.timeframes.map(tf => <option key={tf} value={tf}>{timeframeLabel(tf)}</option>)}
+                        </select>
+                        {img.source && img.confidence !== undefined && (
+                          <span className="text-gray-500" title="Detection confidence and source">
+                            {Math.round(img.confidence * 100)}% · {sourceLabels[img.source]}
+                          </span>
+                        )}
+                        {duplicate && <span className="px-2 py-0.5 rounded bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">Duplicate</span>}
+                        {img.error && <span className="px-2 py-0.5 rounded bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">{img.error}</span>}
+                      </li>
+                    );
+                  })}
                 </ul>
+                {missingCharts.length > 0 && uploadedImages.some(img => img.detectedTimeframe) && (
+                  <div className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+                    No chart or data for {missingCharts.map(timeframeLabel).join(', ')}; those steps will be skipped.
+                  </div>
+                )}
                 {detectingTimeframes && <div className="text-xs text-blue-500 mt-1">Detecting timeframes...</div>}
                 {!detectingTimeframes && (
                   <button
                     type="button"
                     className="mt-2 px-4 py-1 rounded bg-blue-600 text-white text-xs font-medium hover:bg-blue-700 transition-all"
                     disabled={detectingTimeframes || uploadedImages.length === 0}
-                    onClick={identifyTimeframes}
+                    onClick={() => identifyTimeframes()}
                   >
                     Detect Timeframes
                   </button>
                 )}
               </div>
             )}
-            {/* Progress Bar */}
-            {loading && (
+            <MarketDataInputs ladder={ladder.timeframes} data={marketData} disabled={loading} onChange={setMarketData} />
+            {/* Instrument profile, threaded into every prompt and used to label and search saved runs */}
+            <InstrumentPanel
+              profile={instrument}
+              status={instrumentStatus}
+              detecting={detectingInstrument}
+              notice={instrumentNotice}
+              disabled={loading}
+              canDetect={uploadedImages.length > 0}
+              onChange={changeInstrument}
+              onDetect={() => detectInstrument(uploadedImages)}
+            />
+            {/* Timeframe ladder */}
+            <div className="flex flex-col gap-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Timeframe Ladder</label>
+              <select
+                className="w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-neutral-900 text-sm"
+                value={ladder.id}
+                disabled={loading}
+                onChange={e => {
+                  const preset = LADDER_PRESETS.find(p => p.id === e.target.value);
+                  if (preset) updateLadder(preset); else setLadder(l => ({ ...l, id: 'custom', name: 'Custom' }));
+                }}
+              >
+                {LADDER_PRESETS.map(preset => (
+                  <option key={preset.id} value={preset.id}>{preset.name}</option>
+                ))}
+                <option value="custom">Custom...</option>
+              </select>
+              {ladder.id === 'custom' && (
+                <div className="flex gap-2">
+                  <input
+                    className="w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-neutral-900 text-sm"
+                    value={customLadderText}
+                    placeholder="e.g. 1D, 4h, 1h, 15m"
+                    onChange={e => setCustomLadderText(e.target.value)}
+                  />
+                  <button type="button" className="px-3 py-1 rounded bg-blue-600 text-white text-xs font-medium hover:bg-blue-700" onClick={applyCustomLadder}>Apply</button>
+                </div>
+              )}
+              {ladderError && <p className="text-xs text-red-600">{ladderError}</p>}
+            </div>
+            {/* Strategy picker */}
+            <div className="flex flex-col gap-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Strategy</label>
+              <select
+                className="w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-neutral-900 text-sm"
+                value={strategy.id}
+                disabled={loading}
+                onChange={e => selectStrategy(getStrategy(e.target.value))}
+              >
+                {strategies.map(s => (
+                  <option key={s.id} value={s.id}>{s.name}{s.builtIn ? '' : ` (custom v${s.version})`}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500">{strategy.description}</p>
+              <div className="flex gap-3 text-xs">
+                <button type="button" className="text-blue-600 hover:underline" onClick={() => setEditingStrategy(true)}>
+                  {strategy.builtIn ? 'View prompts' : 'Edit'}
+                </button>
+                <button type="button" className="text-blue-600 hover:underline" onClick={handleCloneStrategy}>Clone</button>
+              </div>
+            </div>
+            <ModelSettings selection={modelSelection} steps={modelSteps} onChange={updateModelSelection} />
+            <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+              <input type="checkbox" checked={autoCorrectLevels} onChange={e => setAutoCorrectLevels(e.target.checked)} />
+              Re-prompt once if the trade levels contradict themselves
+            </label>
+            {/* Progress Bar and pipeline steps */}
+            {pipeline.length > 0 && (
               <div className="mt-4 mb-2">
                 <div className="relative pt-1">
                   <div className="flex items-center justify-between mb-2">
                     <div>
                       <span className="text-xs font-semibold inline-block py-1 px-2 uppercase rounded-full text-blue-600 bg-blue-200">
-                        {currentStep === '4h' && 'Analyzing 4h Chart...'}
-                        {currentStep === '1h' && 'Analyzing 1h Chart...'}
-                        {currentStep === '15min' && 'Analyzing 15min Chart...'}
-                        {currentStep === '5min' && 'Analyzing 5min Chart...'}
-                        {currentStep === 'final' && 'Generating Final Suggestion...'}
+                        {loading ? 'Analyzing...' : progress === 100 ? 'Complete' : 'Stopped'}
                       </span>
                     </div>
                     <div className="text-right">
@@ -425,6 +950,28 @@ Focus on trades that can be executed IMMEDIATELY with clear 5-15 minute exit str
                       className="shadow-none flex flex-col text-center whitespace-nowrap text-white justify-center bg-gradient-to-r from-blue-500 to-indigo-600">
                     </div>
                   </div>
+                  <ul className="flex flex-col gap-1 text-xs">
+                    {pipeline.map(step => (
+                      <li key={step.id} className="flex items-start gap-2">
+                        <span className={step.status === 'running' ? 'animate-pulse' : ''}>{stepIcons[step.status]}</span>
+                        <div className="flex-1">
+                          <span className="text-gray-700 dark:text-gray-300">{stepLabel(step.id)}</span>
+                          {step.error && <div className="text-red-600">{step.error}</div>}
+                        </div>
+                        {!loading && (step.status === 'failed' || step.status === 'done') && (
+                          <button type="button" className="text-blue-600 hover:underline" onClick={() => handleRetryStep(step.id)}>Retry</button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="flex gap-3 mt-2 text-sm">
+                    {loading && (
+                      <button type="button" className="px-3 py-1 rounded-lg border border-red-300 text-red-600 hover:bg-red-50" onClick={handleStop}>Stop</button>
+                    )}
+                    {canResume && (
+                      <button type="button" className="px-3 py-1 rounded-lg border border-blue-300 text-blue-600 hover:bg-blue-50" onClick={handleResume}>Resume</button>
+                    )}
+                  </div>
                 </div>
               </div>
             )}
@@ -451,10 +998,42 @@ Focus on trades that can be executed IMMEDIATELY with clear 5-15 minute exit str
         
         {/* Right side - Results */}
         <div className="bg-gray-50 dark:bg-neutral-800 rounded-xl p-6 shadow-sm lg:col-span-2">
-          <h3 className="text-lg font-semibold mb-4 text-gray-700 dark:text-gray-200">Analysis Results</h3>
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-200">Analysis Results</h3>
+            {currentRun && !loading && (
+              <div className="flex items-center gap-2 text-xs">
+                <span className="text-gray-500">Export:</span>
+                {([['markdown', 'Markdown'], ['json', 'JSON'], ['html', 'HTML'], ['print', 'Print / PDF']] as const).map(([format, label]) => (
+                  <button
+                    key={format}
+                    type="button"
+                    className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-neutral-700"
+                    onClick={() => handleExport(format)}
+                  >
+                    {label}
+                  </button>
+                ))}
+                {currentRun.tradePlan && (
+                  <>
+                    <span className="text-gray-500 ml-2">TradingView:</span>
+                    {([['pine', 'Pine Script'], ['alerts-csv', 'Alerts CSV'], ['alerts-json', 'Alerts JSON']] as const).map(([kind, label]) => (
+                      <button
+                        key={kind}
+                        type="button"
+                        className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-neutral-700"
+                        onClick={() => handleTradingViewExport(kind)}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </>
+                )}
+              </div>
+            )}
+          </div>
           
           {/* Tabs */}
-          {(results.analysis4h || results.analysis1h || results.analysis15m || results.analysis5m || results.finalSuggestion) && (
+          {(Object.keys(results.analyses).length > 0 || results.tradePlan) && (
             <div className="mb-4 border-b border-gray-200 dark:border-gray-700">
               <ul className="flex flex-wrap -mb-px text-sm font-medium text-center">
                 <li className="mr-2">
@@ -465,46 +1044,16 @@ Focus on trades that can be executed IMMEDIATELY with clear 5-15 minute exit str
                     Overall Suggestion
                   </button>
                 </li>
-                {results.analysis4h && (
-                  <li className="mr-2">
-                    <button
-                      onClick={() => setActiveTab('4h')}
-                      className={`inline-block p-4 rounded-t-lg ${activeTab === '4h' ? 'text-blue-600 border-b-2 border-blue-600 dark:text-blue-400 dark:border-blue-400' : 'hover:text-gray-600 hover:border-gray-300 dark:hover:text-gray-300'}`}
-                    >
-                      4H Analysis
-                    </button>
-                  </li>
-                )}
-                {results.analysis1h && (
-                  <li className="mr-2">
-                    <button
-                      onClick={() => setActiveTab('1h')}
-                      className={`inline-block p-4 rounded-t-lg ${activeTab === '1h' ? 'text-blue-600 border-b-2 border-blue-600 dark:text-blue-400 dark:border-blue-400' : 'hover:text-gray-600 hover:border-gray-300 dark:hover:text-gray-300'}`}
-                    >
-                      1H Analysis
-                    </button>
-                  </li>
-                )}
-                {results.analysis15m && (
-                  <li className="mr-2">
-                    <button
-                      onClick={() => setActiveTab('15min')}
-                      className={`inline-block p-4 rounded-t-lg ${activeTab === '15min' ? 'text-blue-600 border-b-2 border-blue-600 dark:text-blue-400 dark:border-blue-400' : 'hover:text-gray-600 hover:border-gray-300 dark:hover:text-gray-300'}`}
-                    >
-                      15min Analysis
-                    </button>
-                  </li>
-                )}
-                {results.analysis5m && (
-                  <li className="mr-2">
+                {sortTimeframes(Object.keys(results.analyses)).map(tf => (
+                  <li key={tf} className="mr-2">
                     <button
-                      onClick={() => setActiveTab('5min')}
-                      className={`inline-block p-4 rounded-t-lg ${activeTab === '5min' ? 'text-blue-600 border-b-2 border-blue-600 dark:text-blue-400 dark:border-blue-400' : 'hover:text-gray-600 hover:border-gray-300 dark:hover:text-gray-300'}`}
+                      onClick={() => setActiveTab(tf)}
+                      className={`inline-block p-4 rounded-t-lg ${activeTab === tf ? 'text-blue-600 border-b-2 border-blue-600 dark:text-blue-400 dark:border-blue-400' : 'hover:text-gray-600 hover:border-gray-300 dark:hover:text-gray-300'}`}
                     >
-                      5min Analysis
+                      {timeframeLabel(tf)} Analysis
                     </button>
                   </li>
-                )}
+                ))}
               </ul>
             </div>
           )}
@@ -526,7 +1075,7 @@ Focus on trades that can be executed IMMEDIATELY with clear 5-15 minute exit str
             </div>
           )}
           
-          {!loading && !error && !(results.analysis4h || results.analysis1h || results.analysis15m || results.analysis5m) && (
+          {!loading && !error && Object.keys(results.analyses).length === 0 && (
             <div className="text-center py-8 text-gray-500">
               <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"></path>
@@ -536,100 +1085,70 @@ Focus on trades that can be executed IMMEDIATELY with clear 5-15 minute exit str
           )}
           
           {/* Tab Content */}
-          {activeTab === 'overall' && results.finalSuggestion && (
-            <div className="bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-900/30 dark:to-indigo-900/30 border border-blue-200 dark:border-blue-800 rounded-lg p-5 shadow-sm">
-              <h4 className="font-semibold text-lg text-blue-800 dark:text-blue-300 mb-4">Trade Suggestion</h4>
-              
-              {/* Parse and structure the final suggestion */}
-              {(() => {
-                // Extract sections using regex patterns
-                const tradeActionMatch = results.finalSuggestion.match(/Trade Action:([^\n]*)/i);
-                const reasoningMatch = results.finalSuggestion.match(/Reasoning:([\s\S]*?)(?=Position Details:|$)/i);
-                const positionMatch = results.finalSuggestion.match(/Position Details:([\s\S]*?)(?=$)/i);
-                
-                const tradeAction = tradeActionMatch ? tradeActionMatch[1].trim() : "No specific trade action provided";
-                const reasoning = reasoningMatch ? reasoningMatch[1].trim() : results.finalSuggestion;
-                const positionDetails = positionMatch ? positionMatch[1].trim() : "No position details provided";
-                
-                return (
-                  <div className="space-y-6">
-                    {/* Trade Action Section */}
-                    <div className="bg-white dark:bg-neutral-700 rounded-lg p-4 border-l-4 border-blue-500 dark:border-blue-400">
-                      <h5 className="font-semibold text-blue-800 dark:text-blue-300 mb-2">Trade Action</h5>
-                      <div className="text-lg font-medium">{tradeAction}</div>
-                    </div>
-                    
-                    {/* Reasoning Section */}
-                    <div className="bg-white dark:bg-neutral-700 rounded-lg p-4">
-                      <h5 className="font-semibold text-blue-800 dark:text-blue-300 mb-2">Reasoning</h5>
-                      <div className="prose prose-sm md:prose-base dark:prose-invert max-w-none">
-                        <ReactMarkdown 
-                          remarkPlugins={[remarkGfm]}
-                          components={components}
-                        >
-                          {reasoning}
-                        </ReactMarkdown>
-                      </div>
-                    </div>
-                    
-                    {/* Position Details Section */}
-                    {positionMatch && (
-                      <div className="bg-white dark:bg-neutral-700 rounded-lg p-4 border-l-4 border-green-500 dark:border-green-400">
-                        <h5 className="font-semibold text-blue-800 dark:text-blue-300 mb-2">Position Details</h5>
-                        <div className="prose prose-sm md:prose-base dark:prose-invert max-w-none">
-                          <ReactMarkdown>
-                            {positionDetails}
-                          </ReactMarkdown>
-                        </div>
-                      </div>
-                    )}
-                  </div>
-                );
-              })()}
+          {activeTab === 'overall' && !results.tradePlan && finalDraft && (
+            <div className="bg-white dark:bg-neutral-700 rounded-lg p-5 shadow-sm">
+              <h4 className="font-semibold text-blue-600 dark:text-blue-400 mb-3">Generating trade plan...</h4>
+              <pre className="text-xs whitespace-pre-wrap break-words text-gray-600 dark:text-gray-300">{finalDraft}</pre>
             </div>
           )}
           
-          {activeTab === '4h' && results.analysis4h && (
-            <div className="bg-white dark:bg-neutral-700 rounded-lg p-5 shadow-sm">
-              <h4 className="font-semibold text-blue-600 dark:text-blue-400 mb-3">4H Analysis</h4>
-              <div className="prose prose-sm md:prose-base dark:prose-invert max-w-none">
-                <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                  {results.analysis4h}
-                </ReactMarkdown>
+          {activeTab === 'overall' && results.tradePlan && (
+            <div className="bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-900/30 dark:to-indigo-900/30 border border-blue-200 dark:border-blue-800 rounded-lg p-5 shadow-sm">
+              <h4 className="font-semibold text-lg text-blue-800 dark:text-blue-300 mb-4">Trade Suggestion</h4>
+              <LevelWarnings issues={levelIssues} />
+              <TradePlanView plan={results.tradePlan} instrument={planInstrument} agreement={results.agreement} />
+              <div className="mt-6">
+                <PositionSizeCalculator key={currentRun?.id} plan={results.tradePlan} instrument={planInstrument} />
               </div>
+              {currentRun && (
+                <div className="mt-6">
+                  <JournalActions run={currentRun} refreshKey={journalVersion} onRecorded={() => setJournalVersion(v => v + 1)} />
+                </div>
+              )}
+              {currentRun && !loading && (
+                <div className="mt-6">
+                  <BacktestPanel key={currentRun.id} run={currentRun} onChange={backtest => updateRun(currentRun, { backtest }, 'backtest')} />
+                </div>
+              )}
             </div>
           )}
           
-          {activeTab === '1h' && results.analysis1h && (
-            <div className="bg-white dark:bg-neutral-700 rounded-lg p-5 shadow-sm">
-              <h4 className="font-semibold text-blue-600 dark:text-blue-400 mb-3">1H Analysis</h4>
-              <div className="prose prose-sm md:prose-base dark:prose-invert max-w-none">
-                <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                  {results.analysis1h}
-                </ReactMarkdown>
-              </div>
+          {activeTab !== 'overall' && results.analyses[activeTab] && shownMarketData?.[activeTab] && (
+            <div className="mb-4">
+              <MarketDataPanel indicators={shownMarketData[activeTab]} />
             </div>
           )}
-          
-          {activeTab === '15min' && results.analysis15m && (
+          {activeTab !== 'overall' && results.analyses[activeTab] && (
             <div className="bg-white dark:bg-neutral-700 rounded-lg p-5 shadow-sm">
-              <h4 className="font-semibold text-blue-600 dark:text-blue-400 mb-3">15min Analysis</h4>
+              <h4 className="font-semibold text-blue-600 dark:text-blue-400 mb-3">{timeframeLabel(activeTab)} Analysis</h4>
               <div className="prose prose-sm md:prose-base dark:prose-invert max-w-none">
-                <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                  {results.analysis15m}
+                <ReactMarkdown remarkPlugins={[remarkGfm]} components={components}>
+                  {results.analyses[activeTab]}
                 </ReactMarkdown>
               </div>
             </div>
           )}
+          {activeTab !== 'overall' && results.analyses[activeTab] && tabImage && (
+            <div className="mt-4">
+              <ChartOverlay
+                key={`${activeTab}-${tabImage.name}`}
+                file={tabImage}
+                levels={collectOverlayLevels(results.tradePlan, results.analyses[activeTab])}
+                onAutoCalibrate={() => calibrateChart(tabImage)}
+              />
+            </div>
+          )}
           
-          {activeTab === '5min' && results.analysis5m && (
-            <div className="bg-white dark:bg-neutral-700 rounded-lg p-5 shadow-sm">
-              <h4 className="font-semibold text-blue-600 dark:text-blue-400 mb-3">5min Analysis</h4>
-              <div className="prose prose-sm md:prose-base dark:prose-invert max-w-none">
-                <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                  {results.analysis5m}
-                </ReactMarkdown>
-              </div>
+          {/* Follow-ups use the final step's model, which already reasons over every timeframe */}
+          {currentRun?.tradePlan && !loading && (
+            <div className="mt-6">
+              <FollowUpChat
+                key={currentRun.id}
+                run={currentRun}
+                model={resolveModel(modelSelection, FINAL_STEP)}
+                loadImages={() => loadRunImages(currentRun)}
+                onChange={chat => updateRun(currentRun, { chat }, 'conversation')}
+              />
             </div>
           )}
           
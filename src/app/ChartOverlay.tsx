@@ -0,0 +1,157 @@
+"use client";
+import React, { useEffect, useRef, useState } from "react";
+import { useObjectUrl } from "./ImageCropper";
+import { downloadFile } from "./reportExport";
+import { drawOverlay, isCalibrated, LEVEL_STYLES, type LevelKind, type OverlayLevel, type PriceCalibration } from "./chartLevels";
+
+interface ChartOverlayProps {
+  file: File;
+  levels: OverlayLevel[];
+  onAutoCalibrate?: () => Promise<PriceCalibration | null>;
+}
+
+// Reference points as edited: heights picked on the chart, prices typed in
+interface References {
+  y1?: number;
+  price1: string;
+  y2?: number;
+  price2: string;
+}
+
+const inputClass = "w-24 px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-neutral-900 text-xs font-mono";
+
+const toCalibration = (refs: References): PriceCalibration | null => {
+  const calibration = { y1: refs.y1, price1: parseFloat(refs.price1), y2: refs.y2, price2: parseFloat(refs.price2) };
+  return isCalibrated(calibration) ? calibration : null;
+};
+
+// The chart with the plan's levels drawn over it, once two points on its price axis are known
+const ChartOverlay: React.FC<ChartOverlayProps> = ({ file, levels, onAutoCalibrate }) => {
+  const url = useObjectUrl(file);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [refs, setRefs] = useState<References>({ price1: '', price2: '' });
+  const [picking, setPicking] = useState<1 | 2 | null>(null);
+  const [hidden, setHidden] = useState<Set<LevelKind>>(new Set());
+  const [showLabels, setShowLabels] = useState(true);
+  const [calibrating, setCalibrating] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const calibration = toCalibration(refs);
+  const visible = levels.filter(level => !hidden.has(level.kind));
+  const kinds = (Object.keys(LEVEL_STYLES) as LevelKind[]).filter(kind => levels.some(level => level.kind === kind));
+
+  useEffect(() => {
+    if (!url) return;
+    const img = new Image();
+    img.onload = () => setImage(img);
+    img.src = url;
+  }, [url]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image) return;
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const context = canvas.getContext('2d')!;
+    drawOverlay(context, image, canvas.width, canvas.height, calibration, visible, showLabels);
+    // Reference markers are only for the viewer, not the export
+    context.fillStyle = '#f59e0b';
+    for (const y of [refs.y1, refs.y2]) {
+      if (y !== undefined) context.fillRect(canvas.width - 24, y * canvas.height - 2, 24, 4);
+    }
+  });
+
+  const pickPoint = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!picking) return;
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const y = (e.clientY - bounds.top) / bounds.height;
+    setRefs(current => picking === 1 ? { ...current, y1: y } : { ...current, y2: y });
+    setPicking(null);
+  };
+
+  const autoCalibrate = async () => {
+    if (!onAutoCalibrate) return;
+    setCalibrating(true);
+    setMessage(null);
+    try {
+      const detected = await onAutoCalibrate();
+      if (detected) setRefs({ y1: detected.y1, price1: String(detected.price1), y2: detected.y2, price2: String(detected.price2) });
+      else setMessage('The model could not read the price axis. Pick two prices by hand.');
+    } catch {
+      setMessage('Calibration failed. Pick two prices by hand.');
+    }
+    setCalibrating(false);
+  };
+
+  const exportImage = () => {
+    if (!image) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    drawOverlay(canvas.getContext('2d')!, image, canvas.width, canvas.height, calibration, visible, showLabels);
+    canvas.toBlob(blob => {
+      if (blob) downloadFile(`${file.name.replace(/\.[a-z0-9]+$/i, '')}-levels.png`, blob, 'image/png');
+    }, 'image/png');
+  };
+
+  const toggle = (kind: LevelKind) => setHidden(current => {
+    const next = new Set(current);
+    if (next.has(kind)) next.delete(kind);
+    else next.add(kind);
+    return next;
+  });
+
+  const referenceRow = (index: 1 | 2) => (
+    <div className="flex items-center gap-2">
+      <span className="text-gray-500">Price {index}</span>
+      <input
+        type="number"
+        step="any"
+        className={inputClass}
+        value={index === 1 ? refs.price1 : refs.price2}
+        onChange={e => setRefs(current => index === 1 ? { ...current, price1: e.target.value } : { ...current, price2: e.target.value })}
+      />
+      <button type="button" className={`hover:underline ${picking === index ? 'text-amber-600 font-semibold' : 'text-blue-600'}`} onClick={() => setPicking(picking === index ? null : index)}>
+        {picking === index ? 'Click its height on the chart…' : (index === 1 ? refs.y1 : refs.y2) !== undefined ? 'Re-pick' : 'Pick on chart'}
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="bg-white dark:bg-neutral-800 rounded-lg p-4 flex flex-col gap-3 text-xs">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h5 className="font-semibold text-sm text-blue-800 dark:text-blue-300">Chart Levels</h5>
+        <div className="flex gap-3">
+          {onAutoCalibrate && (
+            <button type="button" className="text-blue-600 hover:underline disabled:opacity-50" disabled={calibrating} onClick={autoCalibrate}>
+              {calibrating ? 'Reading price axis...' : 'Calibrate with model'}
+            </button>
+          )}
+          <button type="button" className="text-blue-600 hover:underline disabled:opacity-50" disabled={!calibration} onClick={exportImage}>Export PNG</button>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-4">
+        {referenceRow(1)}
+        {referenceRow(2)}
+      </div>
+      {!calibration && <div className="text-gray-500">Enter two prices from the chart&apos;s price axis and pick where each sits to draw the levels.</div>}
+      {message && <div className="text-red-600">{message}</div>}
+      <div className="flex flex-wrap gap-3">
+        {kinds.map(kind => (
+          <label key={kind} className="flex items-center gap-1">
+            <input type="checkbox" checked={!hidden.has(kind)} onChange={() => toggle(kind)} />
+            <span style={{ color: LEVEL_STYLES[kind].color }}>{LEVEL_STYLES[kind].label}</span>
+          </label>
+        ))}
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={showLabels} onChange={e => setShowLabels(e.target.checked)} />
+          Labels
+        </label>
+      </div>
+      <canvas ref={canvasRef} className={`w-full h-auto rounded border border-gray-200 dark:border-gray-700 ${picking ? 'cursor-crosshair' : ''}`} onClick={pickPoint} />
+    </div>
+  );
+};
+
+export default ChartOverlay;
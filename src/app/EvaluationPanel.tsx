@@ -0,0 +1,222 @@
+"use client";
+import React, { useEffect, useRef, useState } from "react";
+import { ModelConfigFields } from "./ModelSettings";
+import {
+  buildComparisonReport,
+  LEVEL_HIT_TOLERANCE,
+  matchFixtures,
+  parseEvalManifest,
+  runEvaluation,
+  variantName,
+  type EvalResult,
+  type FixtureLabel,
+} from "./promptEvaluation";
+import { downloadFile } from "./reportExport";
+import { getStrategy, listStrategies, strategyAtVersion } from "./strategyStore";
+import type { Strategy } from "./strategies";
+import type { ModelConfig } from "./visionProviders";
+
+interface EvaluationPanelProps {
+  ladder: string[]; // Offered to timeframe detection alongside the labelled timeframes
+  defaultModel: ModelConfig;
+  defaultStrategyId: string;
+  onClose: () => void;
+}
+
+interface VariantChoice {
+  strategyId: string;
+  version: number;
+  model: ModelConfig;
+}
+
+const selectClass = "w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-neutral-900 text-xs";
+
+const versionsOf = (strategy: Strategy) => [strategy.version, ...strategy.history.map(snapshot => snapshot.version)];
+
+const percent = (value: number | null) => value === null ? '—' : `${Math.round(value * 100)}%`;
+
+const VariantFields: React.FC<{ name: string; strategies: Strategy[]; choice: VariantChoice; onChange: (choice: VariantChoice) => void }> = ({ name, strategies, choice, onChange }) => {
+  const strategy = strategies.find(s => s.id === choice.strategyId) ?? strategies[0];
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded p-3 flex flex-col gap-2">
+      <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-200">Variant {name}</h4>
+      <div className="grid grid-cols-3 gap-2">
+        <select
+          className={`${selectClass} col-span-2`}
+          value={strategy.id}
+          onChange={e => {
+            const next = strategies.find(s => s.id === e.target.value)!;
+            onChange({ ...choice, strategyId: next.id, version: next.version });
+          }}
+        >
+          {strategies.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+        <select className={selectClass} value={choice.version} onChange={e => onChange({ ...choice, version: Number(e.target.value) })}>
+          {versionsOf(strategy).map(version => (
+            <option key={version} value={version}>v{version}{version === strategy.version ? ' (current)' : ''}</option>
+          ))}
+        </select>
+      </div>
+      <ModelConfigFields config={choice.model} onChange={model => onChange({ ...choice, model })} />
+    </div>
+  );
+};
+
+// Run two prompt or strategy versions over labelled charts and compare how well each does
+const EvaluationPanel: React.FC<EvaluationPanelProps> = ({ ladder, defaultModel, defaultStrategyId, onClose }) => {
+  // The panel only opens after a click, so strategies can be read from localStorage straight away
+  const [strategies] = useState<Strategy[]>(listStrategies);
+  const [images, setImages] = useState<File[]>([]);
+  const [labels, setLabels] = useState<FixtureLabel[] | null>(null);
+  // A compares the previous version of the selected strategy with the current one, when there is one
+  const [variants, setVariants] = useState<[VariantChoice, VariantChoice]>(() => {
+    const strategy = getStrategy(defaultStrategyId);
+    const previous = strategy.history[0]?.version ?? strategy.version;
+    return [
+      { strategyId: strategy.id, version: previous, model: defaultModel },
+      { strategyId: strategy.id, version: strategy.version, model: defaultModel },
+    ];
+  });
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [results, setResults] = useState<[EvalResult, EvalResult] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Closing the panel stops a running evaluation
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const { fixtures, missing } = labels ? matchFixtures(labels, images) : { fixtures: [], missing: [] };
+  const running = progress !== null;
+
+  const loadManifest = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      setLabels(parseEvalManifest(await file.text()));
+    } catch (err) {
+      setLabels(null);
+      setError(err instanceof Error ? err.message : 'The label manifest could not be read.');
+    }
+  };
+
+  const run = async () => {
+    if (fixtures.length === 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setResults(null);
+    setError(null);
+    const variantOf = (choice: VariantChoice) => ({
+      strategy: strategyAtVersion(strategies.find(s => s.id === choice.strategyId)!, choice.version),
+      model: choice.model,
+    });
+    // Both variants share one progress bar; their requests interleave in the rate-limit queue
+    const counts = [0, 0];
+    const onProgress = (index: number) => (done: number, total: number) => {
+      counts[index] = done;
+      setProgress({ done: counts[0] + counts[1], total: total * 2 });
+    };
+    setProgress({ done: 0, total: fixtures.length * 4 });
+    try {
+      const [a, b] = await Promise.all(variants.map((choice, index) =>
+        runEvaluation(fixtures, variantOf(choice), ladder, { signal: controller.signal, onProgress: onProgress(index) })));
+      setResults([a, b]);
+    } catch (err) {
+      if (!controller.signal.aborted) setError(err instanceof Error ? err.message : 'The evaluation failed.');
+    }
+    abortRef.current = null;
+    setProgress(null);
+  };
+
+  const downloadReport = () => {
+    if (!results) return;
+    const stamp = new Date().toISOString().slice(0, 16).replace(/[:T]/g, '-');
+    downloadFile(`prompt-evaluation-${stamp}.md`, buildComparisonReport(results[0], results[1]), 'text/markdown');
+  };
+
+  const metricRows: [string, (result: EvalResult) => string][] = [
+    ['Timeframe accuracy', result => percent(result.summary.timeframeAccuracy)],
+    ['Bias agreement', result => percent(result.summary.biasAgreement)],
+    ['Mean level error', result => result.summary.meanLevelError === null ? '—' : `${(result.summary.meanLevelError * 100).toFixed(2)}%`],
+    [`Levels within ${(LEVEL_HIT_TOLERANCE * 100).toFixed(2)}%`, result => percent(result.summary.levelRecall)],
+    ['Failed analyses', result => String(result.summary.failures)],
+  ];
+
+  return (
+    <aside className="fixed inset-y-0 right-0 w-full sm:w-[40rem] z-50 bg-white dark:bg-neutral-900 shadow-xl border-l border-gray-200 dark:border-gray-700 flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-200">Prompt Evaluation</h3>
+        <button type="button" className="text-sm text-gray-500 hover:text-gray-700" onClick={onClose}>Close</button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-4 text-sm">
+        <p className="text-xs text-gray-500">
+          Upload labelled chart images and a JSON manifest such as
+          <code className="mx-1">{'{"fixtures": [{"file": "eurusd-4h.png", "set": "eurusd", "timeframe": "4h", "bias": "bullish", "levels": [1.0850]}]}'}</code>.
+          Charts in the same set are analysed as one ladder. Answers are cached, so re-running an unchanged variant replays the recorded responses; pick the mock provider to check the harness offline.
+        </p>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="flex flex-col gap-1 text-xs font-medium text-gray-600 dark:text-gray-300">
+            Chart images
+            <input type="file" accept="image/*" multiple className="text-xs" onChange={e => setImages(Array.from(e.target.files ?? []))} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-gray-600 dark:text-gray-300">
+            Label manifest
+            <input type="file" accept="application/json,.json" className="text-xs" onChange={e => loadManifest(e.target.files?.[0])} />
+          </label>
+        </div>
+        {labels && (
+          <div className="text-xs text-gray-500">
+            {fixtures.length} of {labels.length} labelled charts uploaded.
+            {missing.length > 0 && <span className="text-amber-600"> Missing: {missing.join(', ')}</span>}
+          </div>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {(['A', 'B'] as const).map((name, index) => (
+            <VariantFields
+              key={name}
+              name={name}
+              strategies={strategies}
+              choice={variants[index]}
+              onChange={choice => setVariants(current => index === 0 ? [choice, current[1]] : [current[0], choice])}
+            />
+          ))}
+        </div>
+        {error && <div className="text-xs text-red-600">{error}</div>}
+        <div className="flex items-center gap-3">
+          {running ? (
+            <button type="button" className="px-4 py-2 rounded bg-red-600 text-white text-sm font-medium hover:bg-red-700" onClick={() => abortRef.current?.abort()}>Stop</button>
+          ) : (
+            <button type="button" className="px-4 py-2 rounded bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50" disabled={fixtures.length === 0} onClick={run}>
+              Run Evaluation
+            </button>
+          )}
+          {progress && <span className="text-xs text-gray-500">{progress.done} / {progress.total} requests</span>}
+        </div>
+        {results && (
+          <div className="flex flex-col gap-2">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1"></th>
+                  <th className="py-1">A: {variantName(results[0])}</th>
+                  <th className="py-1">B: {variantName(results[1])}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-800 font-mono">
+                {metricRows.map(([name, value]) => (
+                  <tr key={name}>
+                    <td className="py-1 font-sans">{name}</td>
+                    <td className="py-1">{value(results[0])}</td>
+                    <td className="py-1">{value(results[1])}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <button type="button" className="self-start text-xs text-blue-600 hover:underline" onClick={downloadReport}>Download comparison report</button>
+          </div>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default EvaluationPanel;
@@ -0,0 +1,118 @@
+"use client";
+import React, { useEffect, useRef, useState } from "react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from 'remark-gfm';
+import { chatAboutAnalysis } from "./geminiApi";
+import { buildChatContext, type ContextImage } from "./chatContext";
+import type { AnalysisRun } from "./historyStore";
+import type { ChatMessage, ModelConfig } from "./visionProviders";
+
+interface FollowUpChatProps {
+  run: AnalysisRun;
+  model: ModelConfig;
+  loadImages: () => Promise<ContextImage[]>;
+  onChange: (chat: ChatMessage[]) => void;
+}
+
+// Questions about a completed run, answered with its charts and step outputs as context
+const FollowUpChat: React.FC<FollowUpChatProps> = ({ run, model, loadImages, onChange }) => {
+  const [input, setInput] = useState('');
+  const [question, setQuestion] = useState<string | null>(null); // Asked but not answered yet
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const messages = run.chat ?? [];
+
+  // Leaving the run cancels the pending answer
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const send = async () => {
+    const text = input.trim();
+    if (!text || question !== null) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setQuestion(text);
+    setInput('');
+    setDraft('');
+    setError(null);
+    try {
+      const images = await loadImages();
+      const answer = await chatAboutAnalysis({
+        context: buildChatContext(run, images),
+        images,
+        history: messages,
+        message: text,
+        model,
+        signal: controller.signal,
+        onText: setDraft,
+      });
+      const now = new Date().toISOString();
+      onChange([...messages, { role: 'user', text, createdAt: now }, { role: 'model', text: answer, createdAt: now }]);
+    } catch (err) {
+      // Give the question back so it can be sent again
+      setInput(text);
+      if (!controller.signal.aborted) setError(err instanceof Error ? err.message : 'The question could not be answered.');
+    }
+    abortRef.current = null;
+    setQuestion(null);
+    setDraft('');
+  };
+
+  const bubble = (message: ChatMessage, key: React.Key) => (
+    <div key={key} className={`rounded-lg px-3 py-2 text-sm ${message.role === 'user' ? 'self-end bg-blue-600 text-white max-w-[80%] whitespace-pre-wrap' : 'self-start bg-white dark:bg-neutral-700 max-w-full'}`}>
+      {message.role === 'user' ? message.text : (
+        <div className="prose prose-sm dark:prose-invert max-w-none">
+          <ReactMarkdown remarkPlugins={[remarkGfm]}>{message.text}</ReactMarkdown>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-50 dark:bg-neutral-800 rounded-lg p-4 flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-blue-800 dark:text-blue-300">Follow-up Questions</h4>
+        {messages.length > 0 && question === null && (
+          <button type="button" className="text-xs text-red-600 hover:underline" onClick={() => window.confirm('Delete this conversation?') && onChange([])}>
+            Clear
+          </button>
+        )}
+      </div>
+      {messages.length === 0 && question === null && (
+        <p className="text-xs text-gray-500">Ask about this analysis, e.g. &quot;What if price wicks below the second support?&quot;. The charts and every step&apos;s output are sent with the question.</p>
+      )}
+      <div className="flex flex-col gap-2">
+        {messages.map(bubble)}
+        {question !== null && bubble({ role: 'user', text: question }, 'pending-question')}
+        {question !== null && bubble({ role: 'model', text: draft || '…' }, 'pending-answer')}
+      </div>
+      {error && <div className="text-xs text-red-600">{error}</div>}
+      <div className="flex gap-2 items-end">
+        <textarea
+          className="flex-1 px-3 py-2 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-neutral-900 text-sm resize-y"
+          rows={2}
+          value={input}
+          placeholder="Ask a follow-up question"
+          onChange={e => setInput(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              send();
+            }
+          }}
+        />
+        {question !== null ? (
+          <button type="button" className="px-4 py-2 rounded bg-red-600 text-white text-sm font-medium hover:bg-red-700" onClick={() => abortRef.current?.abort()}>
+            Stop
+          </button>
+        ) : (
+          <button type="button" className="px-4 py-2 rounded bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50" disabled={!input.trim()} onClick={send}>
+            Ask
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FollowUpChat;
@@ -0,0 +1,123 @@
+"use client";
+import React, { useEffect, useMemo, useState } from "react";
+import { clearRuns, deleteRuns, filterRuns, listRuns, type AnalysisRun } from "./historyStore";
+import { timeframeLabel } from "./timeframes";
+
+interface HistorySidebarProps {
+  refreshKey: number; // Bumped by the parent whenever a new run is saved
+  onOpen: (run: AnalysisRun) => void;
+  onDeleted: (ids: string[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-neutral-900 text-sm";
+
+const statusIcons = { available: '✅', wait: '⏳', not_available: '❌' } as const;
+
+// Saved runs: search by symbol/strategy and date, reopen, delete or bulk-clear
+const HistorySidebar: React.FC<HistorySidebarProps> = ({ refreshKey, onOpen, onDeleted, onClose }) => {
+  const [runs, setRuns] = useState<AnalysisRun[]>([]);
+  const [query, setQuery] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const [reloadKey, setReloadKey] = useState(0);
+  const reload = () => setReloadKey(k => k + 1);
+
+  useEffect(() => {
+    listRuns().then(setRuns).catch(() => setError('Could not read saved runs.'));
+  }, [refreshKey, reloadKey]);
+
+  const visible = useMemo(() => filterRuns(runs, query, from || undefined, to || undefined), [runs, query, from, to]);
+
+  const toggle = (id: string) => setSelected(current => {
+    const next = new Set(current);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  });
+
+  const handleDeleteSelected = async () => {
+    try {
+      await deleteRuns(Array.from(selected));
+      onDeleted(Array.from(selected));
+      setSelected(new Set());
+      setError(null);
+    } catch {
+      setError('Could not delete the selected runs.');
+    }
+    reload();
+  };
+
+  const handleClearAll = async () => {
+    if (!window.confirm('Delete all saved analysis runs?')) return;
+    try {
+      await clearRuns();
+      onDeleted(runs.map(run => run.id));
+      setSelected(new Set());
+      setError(null);
+    } catch {
+      setError('Could not clear the saved runs.');
+    }
+    reload();
+  };
+
+  return (
+    <aside className="fixed inset-y-0 right-0 w-full sm:w-96 z-50 bg-white dark:bg-neutral-900 shadow-xl border-l border-gray-200 dark:border-gray-700 flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-200">Analysis History</h3>
+        <button type="button" className="text-sm text-gray-500 hover:text-gray-700" onClick={onClose}>Close</button>
+      </div>
+
+      <div className="p-4 flex flex-col gap-2 border-b border-gray-200 dark:border-gray-700">
+        <input className={inputClass} placeholder="Search symbol or strategy" value={query} onChange={e => setQuery(e.target.value)} />
+        <div className="flex gap-2 text-xs items-center">
+          <input type="date" className={inputClass} value={from} onChange={e => setFrom(e.target.value)} aria-label="From date" />
+          <span>to</span>
+          <input type="date" className={inputClass} value={to} onChange={e => setTo(e.target.value)} aria-label="To date" />
+        </div>
+        <div className="flex gap-3 text-xs">
+          <button type="button" className="text-red-600 hover:underline disabled:opacity-50" disabled={selected.size === 0} onClick={handleDeleteSelected}>
+            Delete selected ({selected.size})
+          </button>
+          <button type="button" className="text-red-600 hover:underline disabled:opacity-50" disabled={runs.length === 0} onClick={handleClearAll}>
+            Clear all
+          </button>
+        </div>
+        {error && <div className="text-xs text-red-600">{error}</div>}
+      </div>
+
+      <ul className="flex-1 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-800">
+        {visible.length === 0 && <li className="p-4 text-sm text-gray-500">No saved runs.</li>}
+        {visible.map(run => (
+          <li key={run.id} className="p-3 flex gap-3 hover:bg-gray-50 dark:hover:bg-neutral-800">
+            <input type="checkbox" className="mt-1" checked={selected.has(run.id)} onChange={() => toggle(run.id)} aria-label="Select run" />
+            <button type="button" className="flex-1 text-left flex flex-col gap-1" onClick={() => onOpen(run)}>
+              <div className="flex items-center justify-between">
+                <span className="font-semibold text-sm text-gray-800 dark:text-gray-100">{run.symbol || 'Unnamed'}</span>
+                <span className="text-xs text-gray-500">{new Date(run.createdAt).toLocaleString()}</span>
+              </div>
+              <div className="text-xs text-gray-500">
+                {run.strategy.name} v{run.strategy.version} · {run.ladder.map(timeframeLabel).join(' / ')}
+              </div>
+              {run.tradePlan && (
+                <div className="text-xs text-gray-600 dark:text-gray-300">
+                  Swing {statusIcons[run.tradePlan.setups.swing.status]} · Intraday {statusIcons[run.tradePlan.setups.intraday.status]} · Scalp {statusIcons[run.tradePlan.setups.scalp.status]}
+                </div>
+              )}
+              <div className="flex gap-1">
+                {run.images.filter(image => image.thumbnail).map((image, i) => (
+                  // eslint-disable-next-line @next/next/no-img-element -- data URL thumbnails, not optimisable assets
+                  <img key={i} src={image.thumbnail} alt={image.name} title={image.timeframe ? timeframeLabel(image.timeframe) : image.name} className="h-10 w-auto rounded border border-gray-200 dark:border-gray-700" />
+                ))}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
+
+export default HistorySidebar;
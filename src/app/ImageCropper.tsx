@@ -0,0 +1,114 @@
+"use client";
+import React, { useEffect, useRef, useState } from "react";
+import type { CropRect } from "./imagePreprocessing";
+
+// Object URL for a file, revoked when the file changes or the component unmounts
+export function useObjectUrl(file: File | null): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!file) return;
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => {
+      URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [file]);
+  return url;
+}
+
+// Small preview of an uploaded or processed image
+export const FileThumbnail: React.FC<{ file: File; className?: string }> = ({ file, className }) => {
+  const url = useObjectUrl(file);
+  if (!url) return null;
+  // eslint-disable-next-line @next/next/no-img-element -- blob URL of a local file, not an optimisable asset
+  return <img src={url} alt={file.name} className={className} />;
+};
+
+interface ImageCropperProps {
+  file: File;
+  crop?: CropRect;
+  onApply: (crop: CropRect | undefined) => void;
+  onCancel: () => void;
+}
+
+const clamp = (value: number) => Math.max(0, Math.min(1, value));
+
+// Drag a rectangle over the original screenshot to keep only the chart area
+const ImageCropper: React.FC<ImageCropperProps> = ({ file, crop, onApply, onCancel }) => {
+  const url = useObjectUrl(file);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const [selection, setSelection] = useState<CropRect | undefined>(crop);
+  const [anchor, setAnchor] = useState<{ x: number; y: number } | null>(null);
+
+  const pointAt = (e: React.PointerEvent) => {
+    const bounds = frameRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - bounds.left) / bounds.width), y: clamp((e.clientY - bounds.top) / bounds.height) };
+  };
+
+  const startDrag = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = pointAt(e);
+    setAnchor(point);
+    setSelection({ ...point, width: 0, height: 0 });
+  };
+
+  const drag = (e: React.PointerEvent) => {
+    if (!anchor) return;
+    const point = pointAt(e);
+    setSelection({
+      x: Math.min(anchor.x, point.x),
+      y: Math.min(anchor.y, point.y),
+      width: Math.abs(point.x - anchor.x),
+      height: Math.abs(point.y - anchor.y),
+    });
+  };
+
+  // Tiny selections are accidental clicks
+  const usable = selection !== undefined && selection.width > 0.02 && selection.height > 0.02;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" role="dialog" aria-label={`Crop ${file.name}`}>
+      <div className="bg-white dark:bg-neutral-800 rounded-xl p-4 shadow-xl flex flex-col gap-3 max-w-5xl w-full max-h-full">
+        <div className="flex items-center justify-between">
+          <h4 className="font-semibold text-gray-700 dark:text-gray-200">Crop {file.name}</h4>
+          <span className="text-xs text-gray-500">Drag over the area to keep</span>
+        </div>
+        <div className="overflow-auto flex justify-center">
+          <div
+            ref={frameRef}
+            className="relative select-none touch-none cursor-crosshair"
+            onPointerDown={startDrag}
+            onPointerMove={drag}
+            onPointerUp={() => setAnchor(null)}
+          >
+            {url && (
+              // eslint-disable-next-line @next/next/no-img-element -- blob URL of a local file, not an optimisable asset
+              <img src={url} alt={file.name} className="block max-h-[70vh] max-w-full" draggable={false} />
+            )}
+            {selection && (
+              <div
+                className="absolute border-2 border-blue-500 bg-blue-500/10 pointer-events-none"
+                style={{ left: `${selection.x * 100}%`, top: `${selection.y * 100}%`, width: `${selection.width * 100}%`, height: `${selection.height * 100}%` }}
+              />
+            )}
+          </div>
+        </div>
+        <div className="flex justify-end gap-2">
+          <button type="button" className="px-3 py-1 rounded text-sm text-gray-600 hover:underline" onClick={onCancel}>Cancel</button>
+          <button type="button" className="px-3 py-1 rounded text-sm text-red-600 hover:underline" onClick={() => onApply(undefined)}>Remove Crop</button>
+          <button
+            type="button"
+            className="px-3 py-1 rounded bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            disabled={!usable}
+            onClick={() => onApply(selection)}
+          >
+            Apply Crop
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageCropper;
@@ -0,0 +1,75 @@
+"use client";
+import React from "react";
+import { INSTRUMENT_PRESETS } from "./positionSizing";
+import { ASSET_CLASSES, DISTANCE_UNITS, profileFromSymbol, type AssetClass, type InstrumentProfile } from "./instrumentProfile";
+
+// 'detected' profiles wait for the user to look at them before the next analysis uses them
+export type InstrumentStatus = 'unset' | 'detected' | 'reviewed' | 'manual';
+
+interface InstrumentPanelProps {
+  profile: InstrumentProfile | null;
+  status: InstrumentStatus;
+  detecting: boolean;
+  notice: string | null;
+  disabled: boolean;
+  canDetect: boolean;
+  onChange: (profile: InstrumentProfile | null) => void;
+  onDetect: () => void;
+}
+
+const inputClass = "w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-neutral-900 text-sm";
+
+// Symbol, asset class, price and tick size; typing a symbol guesses the rest, which stays editable
+const InstrumentPanel: React.FC<InstrumentPanelProps> = ({ profile, status, detecting, notice, disabled, canDetect, onChange, onDetect }) => {
+  const update = (patch: Partial<InstrumentProfile>) => onChange({ ...(profile ?? profileFromSymbol('')), ...patch });
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Instrument</label>
+        <button type="button" className="text-xs text-blue-600 hover:underline disabled:opacity-50" disabled={disabled || detecting || !canDetect} onClick={onDetect}>
+          {detecting ? 'Detecting...' : 'Detect from chart'}
+        </button>
+      </div>
+      <input
+        className={inputClass}
+        value={profile?.symbol ?? ''}
+        placeholder="Symbol, e.g. EURUSD, BTCUSDT, ES1!"
+        disabled={disabled}
+        onChange={e => onChange(e.target.value.trim() ? profileFromSymbol(e.target.value, profile?.price ?? null) : null)}
+      />
+      {profile && (
+        <div className="grid grid-cols-3 gap-2">
+          <label className="flex flex-col gap-1 text-xs text-gray-500 dark:text-gray-400">
+            Asset Class
+            <select
+              className={inputClass}
+              value={profile.assetClass}
+              disabled={disabled}
+              onChange={e => {
+                const assetClass = e.target.value as AssetClass;
+                update({ assetClass, tickSize: INSTRUMENT_PRESETS[assetClass].tickSize });
+              }}
+            >
+              {ASSET_CLASSES.map(assetClass => <option key={assetClass} value={assetClass}>{INSTRUMENT_PRESETS[assetClass].label}</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-gray-500 dark:text-gray-400">
+            Price
+            <input type="number" step="any" className={inputClass} disabled={disabled} value={profile.price ?? ''} onChange={e => update({ price: e.target.value === '' ? null : Number(e.target.value) })} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-gray-500 dark:text-gray-400">
+            {profile.assetClass === 'forex' ? 'Pip Size' : 'Tick Size'}
+            <input type="number" step="any" className={inputClass} disabled={disabled} value={profile.tickSize} onChange={e => update({ tickSize: Number(e.target.value) })} />
+          </label>
+        </div>
+      )}
+      {profile && <div className="text-xs text-gray-500">Distances are quoted in {DISTANCE_UNITS[profile.assetClass]}.</div>}
+      {status === 'detected' && (
+        <div className="text-xs text-amber-600 dark:text-amber-400">{notice ?? 'Detected from the chart. Check it, then press Analyze to continue.'}</div>
+      )}
+    </div>
+  );
+};
+
+export default InstrumentPanel;
@@ -0,0 +1,61 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import type { AnalysisRun } from "./historyStore";
+import { createJournalEntry, listJournalEntries, saveJournalEntry, type JournalDecision, type JournalEntry } from "./journalStore";
+import { TRADE_TYPES, tradeTypeLabels, type TradeType } from "./tradePlan";
+
+interface JournalActionsProps {
+  run: AnalysisRun;
+  refreshKey: number;
+  onRecorded: () => void;
+}
+
+// Record whether each suggested setup of a run was taken or skipped
+const JournalActions: React.FC<JournalActionsProps> = ({ run, refreshKey, onRecorded }) => {
+  const [recorded, setRecorded] = useState<JournalEntry[]>([]);
+  const setups = TRADE_TYPES.filter(type => run.tradePlan?.setups[type].status !== 'not_available');
+
+  useEffect(() => {
+    listJournalEntries()
+      .then(entries => setRecorded(entries.filter(entry => entry.runId === run.id)))
+      .catch(err => console.warn("Could not read the journal", err));
+  }, [run.id, refreshKey]);
+
+  const record = async (type: TradeType, decision: JournalDecision) => {
+    const entry = createJournalEntry(run, type, decision);
+    try {
+      await saveJournalEntry(entry);
+    } catch (err) {
+      console.warn("Could not save journal entry", err);
+      return;
+    }
+    setRecorded(current => [...current, entry]);
+    onRecorded();
+  };
+
+  if (setups.length === 0) return null;
+
+  return (
+    <div className="bg-white dark:bg-neutral-800 rounded-lg p-4 flex flex-col gap-2">
+      <h5 className="font-semibold text-blue-800 dark:text-blue-300">Journal</h5>
+      {setups.map(type => {
+        const entry = recorded.find(e => e.tradeType === type);
+        return (
+          <div key={type} className="flex items-center justify-between text-sm">
+            <span>{tradeTypeLabels[type].title}</span>
+            {entry ? (
+              <span className="text-xs text-gray-500 capitalize">Recorded as {entry.decision}</span>
+            ) : (
+              <div className="flex gap-2 text-xs">
+                <button type="button" className="px-2 py-1 rounded bg-green-100 text-green-800 hover:bg-green-200" onClick={() => record(type, 'taken')}>Taken</button>
+                <button type="button" className="px-2 py-1 rounded bg-gray-200 text-gray-700 hover:bg-gray-300" onClick={() => record(type, 'skipped')}>Skipped</button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default JournalActions;
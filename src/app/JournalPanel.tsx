@@ -0,0 +1,164 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import {
+  computeJournalStats,
+  deleteJournalEntry,
+  groupJournalStats,
+  listJournalEntries,
+  rMultiple,
+  saveJournalEntry,
+  type JournalEntry,
+  type JournalStats,
+} from "./journalStore";
+import { formatPrice, tradeTypeLabels } from "./tradePlan";
+
+interface JournalPanelProps {
+  refreshKey: number; // Bumped by the parent whenever an entry is added
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-neutral-900 text-sm";
+
+const toText = (value: number | null) => value === null ? '' : value.toString();
+const toNumber = (text: string) => text.trim() === '' || !Number.isFinite(Number(text)) ? null : Number(text);
+
+const formatPercent = (value: number | null) => value === null ? '—' : `${Math.round(value * 100)}%`;
+const formatR = (value: number | null) => value === null ? '—' : `${value >= 0 ? '+' : ''}${value.toFixed(2)}R`;
+const formatMoney = (value: number | null) => value === null ? '—' : value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Outcome fields are edited as text and saved when a field loses focus
+const EntryEditor: React.FC<{ entry: JournalEntry; onSaved: (entry: JournalEntry) => void; onDelete: () => void }> = ({ entry, onSaved, onDelete }) => {
+  const [fill, setFill] = useState(toText(entry.fill));
+  const [exit, setExit] = useState(toText(entry.exit));
+  const [pnl, setPnl] = useState(toText(entry.pnl));
+  const [notes, setNotes] = useState(entry.notes);
+
+  const save = (update: Partial<JournalEntry> = {}) => {
+    const next = { ...entry, fill: toNumber(fill), exit: toNumber(exit), pnl: toNumber(pnl), notes, ...update };
+    saveJournalEntry(next).then(() => onSaved(next)).catch(err => console.warn("Could not save journal entry", err));
+  };
+
+  const r = rMultiple(entry);
+
+  return (
+    <li className="p-3 flex flex-col gap-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-semibold text-gray-800 dark:text-gray-100">
+          {entry.symbol || 'Unnamed'} · {tradeTypeLabels[entry.tradeType].title} · <span className="uppercase">{entry.direction}</span>
+        </span>
+        <span className="text-xs text-gray-500">{new Date(entry.createdAt).toLocaleDateString()}</span>
+      </div>
+      <div className="text-xs text-gray-500">
+        {entry.strategy.name} v{entry.strategy.version} · {entry.timeframe || '—'} · planned {formatPrice(entry.planned.entry)} / SL {formatPrice(entry.planned.stopLoss)}
+        {entry.planned.takeProfits.length > 0 && ` / TP ${entry.planned.takeProfits.map(formatPrice).join(', ')}`}
+      </div>
+      <div className="flex gap-3 text-xs">
+        {(['taken', 'skipped'] as const).map(decision => (
+          <label key={decision} className="flex items-center gap-1 capitalize">
+            <input type="radio" checked={entry.decision === decision} onChange={() => save({ decision })} />
+            {decision}
+          </label>
+        ))}
+        {r !== null && <span className={`ml-auto font-mono ${r >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatR(r)}</span>}
+      </div>
+      {entry.decision === 'taken' && (
+        <div className="grid grid-cols-3 gap-2">
+          <input className={inputClass} type="number" step="any" placeholder="Fill" value={fill} onChange={e => setFill(e.target.value)} onBlur={() => save()} />
+          <input className={inputClass} type="number" step="any" placeholder="Exit" value={exit} onChange={e => setExit(e.target.value)} onBlur={() => save()} />
+          <input className={inputClass} type="number" step="any" placeholder="P&L" value={pnl} onChange={e => setPnl(e.target.value)} onBlur={() => save()} />
+        </div>
+      )}
+      <textarea className={inputClass} rows={2} placeholder="Notes" value={notes} onChange={e => setNotes(e.target.value)} onBlur={() => save()} />
+      <button type="button" className="self-start text-xs text-red-600 hover:underline" onClick={onDelete}>Delete</button>
+    </li>
+  );
+};
+
+const StatsTable: React.FC<{ title: string; rows: [string, JournalStats][] }> = ({ title, rows }) => (
+  <div>
+    <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-1">{title}</h4>
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="py-1"></th>
+          <th className="py-1">Taken</th>
+          <th className="py-1">Skipped</th>
+          <th className="py-1">Win Rate</th>
+          <th className="py-1">Avg R</th>
+          <th className="py-1">Expectancy</th>
+          <th className="py-1">Total P&L</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100 dark:divide-gray-800 font-mono">
+        {rows.map(([name, stats]) => (
+          <tr key={name}>
+            <td className="py-1 font-sans">{name}</td>
+            <td className="py-1">{stats.taken}</td>
+            <td className="py-1">{stats.skipped}</td>
+            <td className="py-1">{formatPercent(stats.winRate)}</td>
+            <td className="py-1">{formatR(stats.averageR)}</td>
+            <td className="py-1">{formatMoney(stats.expectancy)}</td>
+            <td className="py-1">{formatMoney(stats.totalPnl)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+// Journal entries with their outcomes, and statistics over them
+const JournalPanel: React.FC<JournalPanelProps> = ({ refreshKey, onClose }) => {
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [view, setView] = useState<'entries' | 'stats'>('entries');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listJournalEntries().then(setEntries).catch(() => setError('Could not read the journal.'));
+  }, [refreshKey]);
+
+  const replaceEntry = (entry: JournalEntry) => setEntries(current => current.map(e => e.id === entry.id ? entry : e));
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Delete this journal entry?')) return;
+    await deleteJournalEntry(id);
+    setEntries(current => current.filter(e => e.id !== id));
+  };
+
+  return (
+    <aside className="fixed inset-y-0 right-0 w-full sm:w-[40rem] z-50 bg-white dark:bg-neutral-900 shadow-xl border-l border-gray-200 dark:border-gray-700 flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-200">Trade Journal</h3>
+        <div className="flex items-center gap-3 text-sm">
+          {(['entries', 'stats'] as const).map(v => (
+            <button key={v} type="button" className={`capitalize ${view === v ? 'text-blue-600 font-semibold' : 'text-gray-500 hover:text-gray-700'}`} onClick={() => setView(v)}>
+              {v}
+            </button>
+          ))}
+          <button type="button" className="text-gray-500 hover:text-gray-700" onClick={onClose}>Close</button>
+        </div>
+      </div>
+      {error && <div className="p-4 text-xs text-red-600">{error}</div>}
+
+      {view === 'entries' ? (
+        <ul className="flex-1 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-800">
+          {entries.length === 0 && <li className="p-4 text-sm text-gray-500">No journal entries. Mark a suggested setup as taken or skipped to start one.</li>}
+          {entries.map(entry => (
+            <EntryEditor key={entry.id} entry={entry} onSaved={replaceEntry} onDelete={() => handleDelete(entry.id)} />
+          ))}
+        </ul>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-6">
+          <StatsTable title="Overall" rows={[['All setups', computeJournalStats(entries)]]} />
+          <StatsTable title="By Trade Type" rows={groupJournalStats(entries, entry => tradeTypeLabels[entry.tradeType].title)} />
+          <StatsTable title="By Strategy" rows={groupJournalStats(entries, entry => entry.strategy.name)} />
+          <StatsTable title="By Timeframe" rows={groupJournalStats(entries, entry => entry.timeframe)} />
+          <p className="text-xs text-gray-500">
+            Win rate, average R and expectancy count taken trades with a recorded P&L or exit. R is measured from the fill to the planned stop loss.
+          </p>
+        </div>
+      )}
+    </aside>
+  );
+};
+
+export default JournalPanel;
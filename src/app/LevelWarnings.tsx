@@ -0,0 +1,25 @@
+"use client";
+import React from "react";
+import type { LevelIssue } from "./levelValidation";
+
+// Contradictions found in the model's levels, shown above the plan they belong to
+const LevelWarnings: React.FC<{ issues: LevelIssue[] }> = ({ issues }) => {
+  if (issues.length === 0) return null;
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+  return (
+    <div className={`rounded-lg p-4 mb-4 border-l-4 ${errors > 0 ? 'bg-red-50 border-red-500 dark:bg-red-900/20' : 'bg-amber-50 border-amber-500 dark:bg-amber-900/20'}`}>
+      <h5 className="font-semibold text-sm text-gray-800 dark:text-gray-100 mb-2">
+        ⚠️ {errors > 0 ? `${errors} contradiction${errors === 1 ? '' : 's'} in the model's levels` : 'Check these levels before trading'}
+      </h5>
+      <ul className="text-xs space-y-1">
+        {issues.map((issue, i) => (
+          <li key={i} className={issue.severity === 'error' ? 'text-red-700 dark:text-red-300' : 'text-amber-800 dark:text-amber-300'}>
+            <span className="font-semibold">{issue.source}:</span> {issue.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default LevelWarnings;
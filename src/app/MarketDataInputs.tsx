@@ -0,0 +1,74 @@
+"use client";
+import React, { useState } from "react";
+import { computeIndicators, OhlcvParseError, parseOhlcvCsv, type MarketDataByTimeframe } from "./marketData";
+import { timeframeLabel } from "./timeframes";
+
+interface MarketDataInputsProps {
+  ladder: string[];
+  data: MarketDataByTimeframe;
+  disabled: boolean;
+  onChange: (data: MarketDataByTimeframe) => void;
+}
+
+// Optional OHLCV CSV per ladder timeframe, next to or instead of its chart
+const MarketDataInputs: React.FC<MarketDataInputsProps> = ({ ladder, data, disabled, onChange }) => {
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const load = async (timeframe: string, file: File | undefined) => {
+    if (!file) return;
+    try {
+      const indicators = computeIndicators(parseOhlcvCsv(await file.text()), file.name);
+      setErrors(current => ({ ...current, [timeframe]: '' }));
+      onChange({ ...data, [timeframe]: indicators });
+    } catch (err) {
+      setErrors(current => ({ ...current, [timeframe]: `${file.name}: ${err instanceof OhlcvParseError ? err.message : 'could not be read.'}` }));
+    }
+  };
+
+  const remove = (timeframe: string) => {
+    const next = { ...data };
+    delete next[timeframe];
+    onChange(next);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">OHLCV Data (optional)</label>
+      <p className="text-xs text-gray-500">
+        A CSV of candles (time, open, high, low, close, volume) per timeframe. RSI, swings, Fibonacci levels and support/resistance are computed from it and given to the model as exact values.
+      </p>
+      <ul className="flex flex-col gap-1 text-xs">
+        {ladder.map(timeframe => {
+          const indicators = data[timeframe];
+          return (
+            <li key={timeframe} className="flex flex-wrap items-center gap-2">
+              <span className="w-12 font-medium text-gray-700 dark:text-gray-300">{timeframeLabel(timeframe)}</span>
+              {indicators ? (
+                <>
+                  <span className="font-mono">{indicators.source}</span>
+                  <span className="text-gray-500">{indicators.candles} candles{indicators.rsi !== null && ` · RSI ${indicators.rsi.toFixed(1)}`}</span>
+                  <button type="button" className="text-red-600 hover:underline" disabled={disabled} onClick={() => remove(timeframe)}>Remove</button>
+                </>
+              ) : (
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="text-xs"
+                  disabled={disabled}
+                  aria-label={`OHLCV data for ${timeframeLabel(timeframe)}`}
+                  onChange={e => {
+                    load(timeframe, e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+              )}
+              {errors[timeframe] && <span className="text-red-600">{errors[timeframe]}</span>}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default MarketDataInputs;
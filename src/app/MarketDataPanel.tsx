@@ -0,0 +1,72 @@
+"use client";
+import React from "react";
+import { formatCandleTime, formatRatioPercent, RSI_PERIOD, type MarketIndicators, type MarketLevel } from "./marketData";
+import { formatPrice } from "./tradePlan";
+
+const LevelCells: React.FC<{ title: string; levels: MarketLevel[]; priceClassName: string }> = ({ title, levels, priceClassName }) => (
+  <div>
+    <h6 className="text-xs font-semibold text-gray-700 dark:text-gray-200 mb-1">{title}</h6>
+    {levels.length === 0 ? <div className="text-xs text-gray-500">None in the data</div> : (
+      <ul className="text-sm font-mono">
+        {levels.map(level => (
+          <li key={level.price} className={priceClassName}>
+            {formatPrice(level.price)} <span className="text-xs text-gray-500 font-sans">×{level.touches}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+// Values computed from the timeframe's OHLCV upload, the ground truth the model was given
+const MarketDataPanel: React.FC<{ indicators: MarketIndicators }> = ({ indicators }) => {
+  const { fib } = indicators;
+  return (
+    <div className="bg-white dark:bg-neutral-700 rounded-lg p-4 shadow-sm border-l-4 border-emerald-500 flex flex-col gap-3">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h5 className="font-semibold text-emerald-700 dark:text-emerald-300">Computed from OHLCV data</h5>
+        <span className="text-xs text-gray-500">
+          {indicators.source} · {indicators.candles} candles · {formatCandleTime(indicators.from)} to {formatCandleTime(indicators.to)} UTC
+        </span>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div>
+          <h6 className="text-xs font-semibold text-gray-700 dark:text-gray-200 mb-1">Last Close</h6>
+          <div className="text-sm font-mono">{formatPrice(indicators.lastClose)}</div>
+        </div>
+        <div>
+          <h6 className="text-xs font-semibold text-gray-700 dark:text-gray-200 mb-1">RSI({RSI_PERIOD})</h6>
+          <div className="text-sm font-mono">{indicators.rsi === null ? '—' : indicators.rsi.toFixed(1)}</div>
+        </div>
+        <LevelCells title="Support" levels={indicators.support} priceClassName="text-green-600 dark:text-green-400" />
+        <LevelCells title="Resistance" levels={indicators.resistance} priceClassName="text-red-600 dark:text-red-400" />
+      </div>
+      {fib ? (
+        <div>
+          <h6 className="text-xs font-semibold text-gray-700 dark:text-gray-200 mb-1">
+            Fibonacci retracement of the swing {fib.direction} from {formatPrice(fib.from.price)} to {formatPrice(fib.to.price)}
+          </h6>
+          <table className="text-sm w-full">
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-600">
+              {fib.levels.map(level => (
+                <tr key={level.ratio}>
+                  <td className="py-1 text-gray-500 dark:text-gray-400">{formatRatioPercent(level.ratio)}</td>
+                  <td className="py-1 text-right font-mono">{formatPrice(level.price)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-xs text-gray-500">Not enough swings in the data for a Fibonacci retracement.</div>
+      )}
+      {indicators.swings.length > 0 && (
+        <div className="text-xs text-gray-500">
+          Recent swings: {indicators.swings.map(swing => `${swing.kind === 'high' ? 'H' : 'L'} ${formatPrice(swing.price)} (${formatCandleTime(swing.time)})`).join(' · ')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MarketDataPanel;
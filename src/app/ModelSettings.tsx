@@ -0,0 +1,125 @@
+"use client";
+import React, { useState } from "react";
+import { DEFAULT_MODELS, providerLabels, type ModelConfig, type ProviderKind } from "./visionProviders";
+import { MAX_CONSENSUS_SAMPLES, type ConsensusSettings, type ModelSelection } from "./modelSelection";
+
+interface ModelSettingsProps {
+  selection: ModelSelection;
+  steps: { id: string; label: string }[];
+  onChange: (selection: ModelSelection) => void;
+}
+
+const inputClass = "w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-neutral-900 text-xs";
+
+export const ModelConfigFields: React.FC<{ config: ModelConfig; onChange: (config: ModelConfig) => void }> = ({ config, onChange }) => (
+  <div className="flex flex-col gap-1">
+    <select
+      className={inputClass}
+      value={config.provider}
+      onChange={e => onChange(DEFAULT_MODELS[e.target.value as ProviderKind])}
+    >
+      {(Object.keys(providerLabels) as ProviderKind[]).map(kind => (
+        <option key={kind} value={kind}>{providerLabels[kind]}</option>
+      ))}
+    </select>
+    {config.provider !== 'mock' && (
+      <input
+        className={inputClass}
+        value={config.model}
+        placeholder="Model name"
+        onChange={e => onChange({ ...config, model: e.target.value })}
+      />
+    )}
+    {config.provider === 'openai' && (
+      <input
+        className={inputClass}
+        value={config.baseUrl ?? ''}
+        placeholder="Base URL, e.g. http://localhost:11434/v1"
+        onChange={e => onChange({ ...config, baseUrl: e.target.value })}
+      />
+    )}
+  </div>
+);
+
+// Pick the vision model used for analysis, optionally per pipeline step
+const ModelSettings: React.FC<ModelSettingsProps> = ({ selection, steps, onChange }) => {
+  const [showPerStep, setShowPerStep] = useState(Object.values(selection.perStep).some(Boolean));
+  const { consensus } = selection;
+
+  const setStepModel = (step: string, config: ModelConfig | undefined) =>
+    onChange({ ...selection, perStep: { ...selection.perStep, [step]: config } });
+
+  const setConsensus = (changes: Partial<ConsensusSettings>) =>
+    onChange({ ...selection, consensus: { ...consensus, ...changes } });
+
+  const setExtraModel = (index: number, config: ModelConfig | undefined) =>
+    setConsensus({ extraModels: config ? consensus.extraModels.map((model, i) => i === index ? config : model) : consensus.extraModels.filter((_, i) => i !== index) });
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Vision Model</label>
+      <ModelConfigFields config={selection.default} onChange={config => onChange({ ...selection, default: config })} />
+      <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+        <input type="checkbox" checked={showPerStep} onChange={e => setShowPerStep(e.target.checked)} />
+        Use a different model per step
+      </label>
+      {showPerStep && (
+        <ul className="flex flex-col gap-2">
+          {steps.map(step => {
+            const override = selection.perStep[step.id];
+            return (
+              <li key={step.id} className="border border-gray-200 dark:border-gray-700 rounded p-2">
+                <label className="flex items-center gap-2 text-xs font-medium mb-1">
+                  <input
+                    type="checkbox"
+                    checked={!!override}
+                    onChange={e => setStepModel(step.id, e.target.checked ? selection.default : undefined)}
+                  />
+                  {step.label}
+                </label>
+                {override && <ModelConfigFields config={override} onChange={config => setStepModel(step.id, config)} />}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <div className="border-t border-gray-200 dark:border-gray-700 pt-2 flex flex-col gap-2">
+        <label className="flex items-center justify-between gap-2 text-xs text-gray-600 dark:text-gray-400">
+          Consensus samples per model
+          <select
+            className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-neutral-900 text-xs"
+            value={consensus.samples}
+            onChange={e => setConsensus({ samples: Number(e.target.value) })}
+          >
+            {Array.from({ length: MAX_CONSENSUS_SAMPLES }, (_, i) => i + 1).map(count => (
+              <option key={count} value={count}>{count === 1 ? '1 (off)' : count}</option>
+            ))}
+          </select>
+        </label>
+        {consensus.extraModels.map((config, index) => (
+          <div key={index} className="border border-gray-200 dark:border-gray-700 rounded p-2">
+            <div className="flex items-center justify-between text-xs font-medium mb-1">
+              Consensus model {index + 2}
+              <button type="button" className="text-red-600 hover:underline" onClick={() => setExtraModel(index, undefined)}>Remove</button>
+            </div>
+            <ModelConfigFields config={config} onChange={next => setExtraModel(index, next)} />
+          </div>
+        ))}
+        <button
+          type="button"
+          className="self-start text-xs text-blue-600 hover:underline"
+          onClick={() => setConsensus({ extraModels: [...consensus.extraModels, selection.default] })}
+        >
+          + Add consensus model
+        </button>
+        {(consensus.samples > 1 || consensus.extraModels.length > 0) && (
+          <p className="text-xs text-gray-500">
+            Each step runs {consensus.samples * (consensus.extraModels.length + 1)} times and the answers are merged, with agreement shown per setup.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettings;
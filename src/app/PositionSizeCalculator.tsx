@@ -0,0 +1,159 @@
+"use client";
+import React, { useState } from "react";
+import { TRADE_TYPES, formatPrice, tradeTypeLabels, type TradePlan, type TradeSetup, type TradeType } from "./tradePlan";
+import {
+  INSTRUMENT_PRESETS,
+  computePositionSize,
+  loadRiskSettings,
+  saveRiskSettings,
+  type InstrumentType,
+  type RiskSettings,
+} from "./positionSizing";
+import { formatDistance, riskSettingsForInstrument, type InstrumentProfile } from "./instrumentProfile";
+
+// Levels are edited as text so partially typed numbers survive re-renders
+interface LevelInputs {
+  entry: string;
+  stopLoss: string;
+  takeProfits: string[];
+}
+
+const inputClass = "w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-neutral-900 text-sm font-mono";
+
+const toInputs = (setup: TradeSetup): LevelInputs => ({
+  entry: setup.entry?.toString() ?? '',
+  stopLoss: setup.stopLoss?.toString() ?? '',
+  takeProfits: setup.takeProfits.map(tp => tp.price.toString()),
+});
+
+const toNumber = (text: string) => text.trim() === '' || !Number.isFinite(Number(text)) ? null : Number(text);
+
+const formatMoney = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const NumberField: React.FC<{ label: string; value: string | number; onChange: (value: string) => void }> = ({ label, value, onChange }) => (
+  <label className="flex flex-col gap-1 text-xs text-gray-500 dark:text-gray-400">
+    {label}
+    <input type="number" step="any" className={inputClass} value={value} onChange={e => onChange(e.target.value)} />
+  </label>
+);
+
+// Distances are quoted in the unit of the run's instrument (pips, ticks, points or percent), as on the plan cards;
+// without one, in the unit of the calculator's instrument type
+const SetupSizer: React.FC<{ type: TradeType; setup: TradeSetup; settings: RiskSettings; instrument?: InstrumentProfile }> = ({ type, setup, settings, instrument }) => {
+  const [inputs, setInputs] = useState<LevelInputs>(() => toInputs(setup));
+  const entry = toNumber(inputs.entry);
+  const stopLoss = toNumber(inputs.stopLoss);
+  const profile: InstrumentProfile = instrument ?? { symbol: '', assetClass: settings.instrument, price: null, tickSize: settings.tickSize };
+  const result = computePositionSize(settings, {
+    entry,
+    stopLoss,
+    takeProfits: inputs.takeProfits.map(toNumber).filter((price): price is number => price !== null),
+  });
+  const edited = JSON.stringify(inputs) !== JSON.stringify(toInputs(setup));
+
+  const updateTarget = (index: number, value: string) =>
+    setInputs(current => ({ ...current, takeProfits: current.takeProfits.map((tp, i) => i === index ? value : tp) }));
+
+  return (
+    <div className="bg-white dark:bg-neutral-700 rounded-lg p-4 shadow-sm flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h5 className="font-semibold text-blue-800 dark:text-blue-300">{tradeTypeLabels[type].title}</h5>
+        {edited && (
+          <button type="button" className="text-xs text-blue-600 hover:underline" onClick={() => setInputs(toInputs(setup))}>Reset to plan</button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField label="Entry" value={inputs.entry} onChange={entry => setInputs(current => ({ ...current, entry }))} />
+        <NumberField label="Stop Loss" value={inputs.stopLoss} onChange={stopLoss => setInputs(current => ({ ...current, stopLoss }))} />
+        {inputs.takeProfits.map((tp, i) => (
+          <NumberField key={i} label={`Take Profit ${i + 1}`} value={tp} onChange={value => updateTarget(i, value)} />
+        ))}
+      </div>
+      <div className="flex gap-3 text-xs">
+        <button type="button" className="text-blue-600 hover:underline" onClick={() => setInputs(current => ({ ...current, takeProfits: [...current.takeProfits, ''] }))}>
+          Add target
+        </button>
+        {inputs.takeProfits.length > 0 && (
+          <button type="button" className="text-red-600 hover:underline" onClick={() => setInputs(current => ({ ...current, takeProfits: current.takeProfits.slice(0, -1) }))}>
+            Remove target
+          </button>
+        )}
+      </div>
+
+      {result.ok ? (
+        <table className="text-sm w-full">
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-600">
+            <tr>
+              <td className="py-1 text-gray-500 dark:text-gray-400">Position Size</td>
+              <td className="py-1 text-right font-mono font-semibold">{result.position.size.toLocaleString(undefined, { maximumFractionDigits: 4 })} {result.position.unit}</td>
+            </tr>
+            <tr>
+              <td className="py-1 text-gray-500 dark:text-gray-400">Stop Distance</td>
+              <td className="py-1 text-right font-mono">{formatDistance(profile, entry!, stopLoss!)}</td>
+            </tr>
+            <tr>
+              <td className="py-1 text-gray-500 dark:text-gray-400">Money at Risk</td>
+              <td className="py-1 text-right font-mono text-red-600 dark:text-red-400">
+                {formatMoney(result.position.moneyAtRisk)} <span className="text-xs text-gray-500">of {formatMoney(result.position.riskBudget)}</span>
+              </td>
+            </tr>
+            {result.position.targets.map((target, i) => (
+              <tr key={i}>
+                <td className="py-1 text-gray-500 dark:text-gray-400">TP {i + 1} @ {formatPrice(target.price)}</td>
+                <td className={`py-1 text-right font-mono ${target.profit >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                  {formatMoney(target.profit)} <span className="text-xs text-gray-500">(1:{target.rewardRisk.toFixed(2)})</span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <div className="text-xs text-gray-500">{result.issue}</div>
+      )}
+    </div>
+  );
+};
+
+// Sizes each setup from the account settings; the model's levels are only the starting point.
+// The run's instrument, when known, sets the instrument type and tick size.
+const PositionSizeCalculator: React.FC<{ plan: TradePlan; instrument?: InstrumentProfile }> = ({ plan, instrument }) => {
+  const [settings, setSettings] = useState<RiskSettings>(() => instrument ? riskSettingsForInstrument(loadRiskSettings(), instrument) : loadRiskSettings());
+
+  const updateSettings = (update: Partial<RiskSettings>) => {
+    const next = { ...settings, ...update };
+    setSettings(next);
+    saveRiskSettings(next);
+  };
+
+  const changeInstrument = (instrument: InstrumentType) => {
+    const { tickSize, tickValue } = INSTRUMENT_PRESETS[instrument];
+    updateSettings({ instrument, tickSize, tickValue });
+  };
+
+  return (
+    <div className="bg-white dark:bg-neutral-800 rounded-lg p-4 flex flex-col gap-4">
+      <h5 className="font-semibold text-blue-800 dark:text-blue-300">Position Size Calculator</h5>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <NumberField label="Account Balance" value={settings.accountBalance} onChange={value => updateSettings({ accountBalance: Number(value) })} />
+        <NumberField label="Risk %" value={settings.riskPercent} onChange={value => updateSettings({ riskPercent: Number(value) })} />
+        <label className="flex flex-col gap-1 text-xs text-gray-500 dark:text-gray-400">
+          Instrument
+          <select className={inputClass} value={settings.instrument} onChange={e => changeInstrument(e.target.value as InstrumentType)}>
+            {Object.entries(INSTRUMENT_PRESETS).map(([type, preset]) => (
+              <option key={type} value={type}>{preset.label}</option>
+            ))}
+          </select>
+        </label>
+        <NumberField label="Pip/Tick Size" value={settings.tickSize} onChange={value => updateSettings({ tickSize: Number(value) })} />
+        <NumberField label={`Pip/Tick Value per ${INSTRUMENT_PRESETS[settings.instrument].unit.replace(/s$/, '')}`} value={settings.tickValue} onChange={value => updateSettings({ tickValue: Number(value) })} />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {TRADE_TYPES.map(type => (
+          <SetupSizer key={type} type={type} setup={plan.setups[type]} settings={settings} instrument={instrument} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PositionSizeCalculator;
@@ -0,0 +1,169 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import {
+  clearKeys,
+  getKeyStoreStatus,
+  isKeyStoreEncrypted,
+  loadConnectionSettings,
+  saveConnectionSettings,
+  saveKeys,
+  unlockKeys,
+  validateKey,
+  type ApiKeys,
+  type KeyedProvider,
+} from "./apiKeyStore";
+import { providerLabels } from "./visionProviders";
+import CacheInspector from "./CacheInspector";
+
+const inputClass = "w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-neutral-900 text-sm";
+const buttonClass = "px-3 py-1 rounded text-xs font-medium transition-all";
+
+type KeyCheck = { state: 'checking' } | { state: 'ok' } | { state: 'failed'; message: string };
+
+// Bring-your-own API key settings: keys stay in this browser and are never bundled with the site
+const SettingsPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const [status, setStatus] = useState(getKeyStoreStatus);
+  const [keys, setKeys] = useState<ApiKeys>({});
+  const [passphrase, setPassphrase] = useState('');
+  const [encrypt, setEncrypt] = useState(isKeyStoreEncrypted);
+  const [proxyUrl, setProxyUrl] = useState(() => loadConnectionSettings().proxyUrl ?? '');
+  const [checks, setChecks] = useState<Partial<Record<KeyedProvider, KeyCheck>>>({});
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Unencrypted keys can be shown straight away
+  useEffect(() => {
+    if (getKeyStoreStatus() !== 'locked') unlockKeys().then(setKeys).catch(() => setKeys({}));
+  }, []);
+
+  const handleUnlock = async () => {
+    try {
+      setKeys(await unlockKeys(passphrase));
+      setStatus(getKeyStoreStatus());
+      setMessage(null);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Could not unlock keys.');
+    }
+  };
+
+  const handleSave = async () => {
+    if (encrypt && !passphrase) {
+      setMessage('Enter a passphrase to encrypt the keys, or untick encryption.');
+      return;
+    }
+    await saveKeys(keys, encrypt ? passphrase : undefined);
+    saveConnectionSettings({ proxyUrl: proxyUrl.trim() || undefined });
+    setStatus(getKeyStoreStatus());
+    setMessage('Settings saved.');
+  };
+
+  const handleClear = () => {
+    clearKeys();
+    setKeys({});
+    setPassphrase('');
+    setChecks({});
+    setStatus(getKeyStoreStatus());
+    setMessage('Saved keys cleared from this browser.');
+  };
+
+  const handleTest = async (provider: KeyedProvider) => {
+    setChecks(c => ({ ...c, [provider]: { state: 'checking' } }));
+    try {
+      await validateKey(provider, keys[provider] ?? '', provider === 'gemini' ? proxyUrl.trim() || undefined : undefined);
+      setChecks(c => ({ ...c, [provider]: { state: 'ok' } }));
+    } catch (err) {
+      setChecks(c => ({ ...c, [provider]: { state: 'failed', message: err instanceof Error ? err.message : 'Validation failed.' } }));
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-neutral-800 border border-gray-200 dark:border-gray-700 rounded-xl p-6 shadow-sm flex flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-200">Settings</h3>
+        <button type="button" className="text-sm text-gray-500 hover:text-gray-700" onClick={onClose}>Close</button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Keys are stored only in this browser and sent only to the provider (or proxy) you configure.
+      </p>
+
+      {status === 'locked' ? (
+        <div className="flex flex-col gap-2">
+          <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Passphrase</label>
+          <input type="password" className={inputClass} value={passphrase} onChange={e => setPassphrase(e.target.value)} />
+          <div className="flex gap-2">
+            <button type="button" className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-700`} onClick={handleUnlock}>Unlock Keys</button>
+            <button type="button" className={`${buttonClass} text-red-600 hover:underline`} onClick={handleClear}>Forget Keys</button>
+          </div>
+        </div>
+      ) : (
+        <>
+          {(['gemini', 'openai'] as KeyedProvider[]).map(provider => {
+            const check = checks[provider];
+            return (
+              <div key={provider} className="flex flex-col gap-1">
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">{providerLabels[provider]} API Key</label>
+                <div className="flex gap-2">
+                  <input
+                    type="password"
+                    autoComplete="off"
+                    className={inputClass}
+                    value={keys[provider] ?? ''}
+                    onChange={e => setKeys(k => ({ ...k, [provider]: e.target.value }))}
+                  />
+                  <button
+                    type="button"
+                    className={`${buttonClass} bg-gray-200 dark:bg-neutral-700 hover:bg-gray-300`}
+                    disabled={check?.state === 'checking'}
+                    onClick={() => handleTest(provider)}
+                  >
+                    Test
+                  </button>
+                </div>
+                {check?.state === 'checking' && <span className="text-xs text-blue-500">Checking key...</span>}
+                {check?.state === 'ok' && <span className="text-xs text-green-600">Key works.</span>}
+                {check?.state === 'failed' && <span className="text-xs text-red-600">{check.message}</span>}
+              </div>
+            );
+          })}
+
+          <div className="flex flex-col gap-1">
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Gemini Proxy URL (optional)</label>
+            <input
+              className={inputClass}
+              value={proxyUrl}
+              placeholder="https://your-team-backend.example.com/gemini"
+              onChange={e => setProxyUrl(e.target.value)}
+            />
+            <span className="text-xs text-gray-500">When set, Gemini requests go to this backend, which adds its own key.</span>
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input type="checkbox" checked={encrypt} onChange={e => setEncrypt(e.target.checked)} />
+              Encrypt saved keys with a passphrase
+            </label>
+            {encrypt && (
+              <input
+                type="password"
+                className={inputClass}
+                value={passphrase}
+                placeholder="Passphrase (needed again after reload)"
+                onChange={e => setPassphrase(e.target.value)}
+              />
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <button type="button" className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-700`} onClick={handleSave}>Save</button>
+            <button type="button" className={`${buttonClass} text-red-600 hover:underline`} onClick={handleClear}>Clear Keys</button>
+          </div>
+        </>
+      )}
+
+      {message && <div className="text-xs text-gray-600 dark:text-gray-400">{message}</div>}
+
+      <CacheInspector />
+    </div>
+  );
+};
+
+export default SettingsPanel;
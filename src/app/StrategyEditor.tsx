@@ -0,0 +1,222 @@
+"use client";
+import React, { useState } from "react";
+import {
+  COMMON_PLACEHOLDERS,
+  findUnknownPlaceholders,
+  type ContextRule,
+  type StepId,
+  type Strategy,
+  type StrategyStep,
+} from "./strategies";
+import { deleteStrategy, restoreStrategyVersion, saveStrategyVersion } from "./strategyStore";
+import { parseTimeframe, sortTimeframes, timeframeLabel } from "./timeframes";
+
+interface StrategyEditorProps {
+  strategy: Strategy;
+  onSaved: (strategy: Strategy) => void;
+  onDeleted: () => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-neutral-900 text-sm";
+const textareaClass = `${inputClass} font-mono text-xs`;
+const buttonClass = "px-3 py-1 rounded text-xs font-medium transition-all";
+
+// Toggle which earlier steps feed a prompt, and how much of each
+const ContextRulesEditor: React.FC<{
+  sources: StepId[];
+  rules: ContextRule[];
+  readOnly: boolean;
+  onChange: (rules: ContextRule[]) => void;
+}> = ({ sources, rules, readOnly, onChange }) => (
+  <div className="flex flex-wrap gap-3 text-xs">
+    {sources.map(source => {
+      const rule = rules.find(r => r.from === source);
+      return (
+        <label key={source} className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            disabled={readOnly}
+            checked={!!rule}
+            onChange={e => onChange(e.target.checked
+              ? [...rules, { from: source, maxChars: 200 }]
+              : rules.filter(r => r.from !== source))}
+          />
+          {timeframeLabel(source)}
+          {rule && (
+            <input
+              type="number"
+              min={0}
+              disabled={readOnly}
+              className="w-20 px-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-neutral-900"
+              placeholder="full"
+              value={rule.maxChars ?? ''}
+              onChange={e => onChange(rules.map(r => r.from === source
+                ? { from: source, maxChars: e.target.value === '' ? undefined : Number(e.target.value) }
+                : r))}
+            />
+          )}
+        </label>
+      );
+    })}
+  </div>
+);
+
+const PlaceholderWarning: React.FC<{ template: string; context: ContextRule[] }> = ({ template, context }) => {
+  const unknown = findUnknownPlaceholders(template, context);
+  if (unknown.length === 0) return null;
+  return (
+    <div className="text-xs text-amber-700 dark:text-amber-300">
+      Unknown placeholders (rendered empty): {unknown.map(name => `{{${name}}}`).join(', ')}
+    </div>
+  );
+};
+
+// View or edit a strategy's prompts; built-ins are shown read-only
+const StrategyEditor: React.FC<StrategyEditorProps> = ({ strategy, onSaved, onDeleted, onClose }) => {
+  const [name, setName] = useState(strategy.name);
+  const [description, setDescription] = useState(strategy.description);
+  const [steps, setSteps] = useState<StrategyStep[]>(strategy.steps);
+  const [finalPrompt, setFinalPrompt] = useState(strategy.finalPrompt);
+  const [finalContext, setFinalContext] = useState<ContextRule[]>(strategy.finalContext);
+  const [newTimeframe, setNewTimeframe] = useState('');
+  const [stepError, setStepError] = useState<string | null>(null);
+  const readOnly = strategy.builtIn;
+
+  const updateStep = (index: number, update: Partial<StrategyStep>) =>
+    setSteps(current => current.map((step, i) => i === index ? { ...step, ...update } : step));
+
+  const addStep = () => {
+    const timeframe = parseTimeframe(newTimeframe);
+    if (!timeframe) {
+      setStepError(`"${newTimeframe}" is not a timeframe.`);
+      return;
+    }
+    if (steps.some(step => step.timeframe === timeframe)) {
+      setStepError(`The strategy already has a ${timeframeLabel(timeframe)} step.`);
+      return;
+    }
+    const order = sortTimeframes([...steps.map(step => step.timeframe), timeframe]);
+    const above = steps.filter(step => order.indexOf(step.timeframe) < order.indexOf(timeframe));
+    const added: StrategyStep = {
+      timeframe,
+      prompt: 'Analyze this {{timeframe}} chart using the {{strategyName}} strategy.\n\nHigher timeframe context:\n{{context}}',
+      context: above.map(step => ({ from: step.timeframe, maxChars: 200 })),
+    };
+    setSteps([...steps, added].sort((a, b) => order.indexOf(a.timeframe) - order.indexOf(b.timeframe)));
+    setNewTimeframe('');
+    setStepError(null);
+  };
+
+  // Dropping a step also drops every context rule that referenced it
+  const removeStep = (timeframe: string) => {
+    const withoutRule = (rules: ContextRule[]) => rules.filter(rule => rule.from !== timeframe);
+    setSteps(current => current
+      .filter(step => step.timeframe !== timeframe)
+      .map(step => ({ ...step, context: withoutRule(step.context) })));
+    setFinalContext(withoutRule);
+  };
+
+  const handleSave = () => onSaved(saveStrategyVersion(strategy, { name, description, steps, finalPrompt, finalContext }));
+
+  const handleRestore = (version: number) => onSaved(restoreStrategyVersion(strategy, version));
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete strategy "${strategy.name}"?`)) return;
+    deleteStrategy(strategy.id);
+    onDeleted();
+  };
+
+  return (
+    <div className="bg-white dark:bg-neutral-800 border border-gray-200 dark:border-gray-700 rounded-xl p-6 shadow-sm flex flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-200">
+          {readOnly ? 'View' : 'Edit'} Strategy <span className="text-xs text-gray-500">v{strategy.version}</span>
+        </h3>
+        <button type="button" className="text-sm text-gray-500 hover:text-gray-700" onClick={onClose}>Close</button>
+      </div>
+      {readOnly && <p className="text-xs text-gray-500">Built-in strategies are read-only. Clone this one to customise its prompts.</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Name</label>
+          <input className={inputClass} disabled={readOnly} value={name} onChange={e => setName(e.target.value)} />
+        </div>
+        <div>
+          <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Description</label>
+          <input className={inputClass} disabled={readOnly} value={description} onChange={e => setDescription(e.target.value)} />
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Placeholders: {[...COMMON_PLACEHOLDERS, 'analysis.<step>'].map(p => `{{${p}}}`).join(', ')}. Only steps ticked as context are available to a prompt.
+        Ladder timeframes without their own step reuse the prompt of the step at the same position.
+      </p>
+
+      {steps.map((step, index) => (
+        <div key={step.timeframe} className="flex flex-col gap-1">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300">{timeframeLabel(step.timeframe)} prompt</label>
+            {!readOnly && steps.length > 1 && (
+              <button type="button" className="text-xs text-red-600 hover:underline" onClick={() => removeStep(step.timeframe)}>Remove step</button>
+            )}
+          </div>
+          <ContextRulesEditor
+            sources={steps.slice(0, index).map(s => s.timeframe)}
+            rules={step.context}
+            readOnly={readOnly}
+            onChange={context => updateStep(index, { context })}
+          />
+          <textarea className={textareaClass} rows={8} disabled={readOnly} value={step.prompt} onChange={e => updateStep(index, { prompt: e.target.value })} />
+          <PlaceholderWarning template={step.prompt} context={step.context} />
+        </div>
+      ))}
+
+      {!readOnly && (
+        <div className="flex flex-col gap-1">
+          <div className="flex gap-2">
+            <input
+              className={inputClass}
+              value={newTimeframe}
+              placeholder="Add a step for timeframe, e.g. 1D"
+              onChange={e => setNewTimeframe(e.target.value)}
+            />
+            <button type="button" className={`${buttonClass} bg-gray-200 dark:bg-neutral-700 hover:bg-gray-300 whitespace-nowrap`} onClick={addStep}>Add Step</button>
+          </div>
+          {stepError && <span className="text-xs text-red-600">{stepError}</span>}
+        </div>
+      )}
+
+      <div className="flex flex-col gap-1">
+        <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Final trade plan prompt</label>
+        <ContextRulesEditor sources={steps.map(s => s.timeframe)} rules={finalContext} readOnly={readOnly} onChange={setFinalContext} />
+        <textarea className={textareaClass} rows={10} disabled={readOnly} value={finalPrompt} onChange={e => setFinalPrompt(e.target.value)} />
+        <PlaceholderWarning template={finalPrompt} context={finalContext} />
+      </div>
+
+      {!readOnly && (
+        <div className="flex gap-2">
+          <button type="button" className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-700`} onClick={handleSave}>Save as v{strategy.version + 1}</button>
+          <button type="button" className={`${buttonClass} text-red-600 hover:underline`} onClick={handleDelete}>Delete</button>
+        </div>
+      )}
+
+      {strategy.history.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Version History</h4>
+          <ul className="text-xs flex flex-col gap-1">
+            {strategy.history.map(snapshot => (
+              <li key={snapshot.version} className="flex items-center gap-2">
+                <span className="font-mono">v{snapshot.version}</span>
+                <span className="text-gray-500">{new Date(snapshot.savedAt).toLocaleString()}</span>
+                <button type="button" className="text-blue-600 hover:underline" onClick={() => handleRestore(snapshot.version)}>Restore</button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StrategyEditor;
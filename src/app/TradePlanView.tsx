@@ -0,0 +1,194 @@
+"use client";
+import React from "react";
+import { TRADE_TYPES, formatPrice, formatRatio, tradeTypeLabels, type SetupStatus, type TradePlan, type TradeSetup, type TradeType, type PriceLevel } from "./tradePlan";
+import { formatDistance, type InstrumentProfile } from "./instrumentProfile";
+import { LOW_AGREEMENT, setupConfidence, type PlanAgreement, type SetupAgreement } from "./consensus";
+
+const statusStyles: Record<SetupStatus, { label: string; className: string }> = {
+  available: { label: '✅ Available', className: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300' },
+  wait: { label: '⏳ Wait', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300' },
+  not_available: { label: '❌ Not Available', className: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300' },
+};
+
+// Share of consensus samples behind a value, greyed out unless it is low
+const Agreement: React.FC<{ value?: number }> = ({ value }) => value === undefined ? null : (
+  <span className={`text-xs ${value < LOW_AGREEMENT ? 'text-amber-600 dark:text-amber-400 font-semibold' : 'text-gray-400'}`}> {Math.round(value * 100)}%</span>
+);
+
+const SetupCard: React.FC<{ type: TradeType; setup: TradeSetup; instrument?: InstrumentProfile; agreement?: SetupAgreement }> = ({ type, setup, instrument, agreement }) => {
+  const status = statusStyles[setup.status];
+  const lowConfidence = agreement !== undefined && setupConfidence(agreement) < LOW_AGREEMENT;
+  // Distance from the entry in the instrument's unit (pips, ticks, points or percent)
+  const distance = (price: number | null) => instrument && setup.entry !== null && price !== null
+    ? <span className="text-xs text-gray-500"> {formatDistance(instrument, setup.entry, price)}</span>
+    : null;
+  return (
+    <div className={`bg-white dark:bg-neutral-700 rounded-lg p-4 shadow-sm flex flex-col gap-3 ${lowConfidence ? 'border-2 border-amber-400' : ''}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h5 className="font-semibold text-blue-800 dark:text-blue-300">{tradeTypeLabels[type].title}</h5>
+          <div className="text-xs text-gray-500 dark:text-gray-400">{tradeTypeLabels[type].horizon}</div>
+        </div>
+        <div className="flex flex-col items-end gap-1">
+          <span className={`px-2 py-0.5 rounded text-xs font-medium whitespace-nowrap ${status.className}`}>{status.label}</span>
+          {agreement && <Agreement value={agreement.status} />}
+        </div>
+      </div>
+
+      {lowConfidence && (
+        <div className="text-xs font-medium text-amber-700 dark:text-amber-300">⚠️ Low confidence: the samples disagree on this setup</div>
+      )}
+
+      {setup.direction !== 'none' && (
+        <div className={`text-sm font-semibold uppercase ${setup.direction === 'long' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+          {setup.direction}<Agreement value={agreement?.direction} />
+        </div>
+      )}
+
+      <table className="text-sm w-full">
+        <tbody className="divide-y divide-gray-100 dark:divide-gray-600">
+          <tr>
+            <td className="py-1 text-gray-500 dark:text-gray-400">Entry</td>
+            <td className="py-1 text-right font-mono">{formatPrice(setup.entry)}<Agreement value={agreement?.entry} /></td>
+          </tr>
+          <tr>
+            <td className="py-1 text-gray-500 dark:text-gray-400">Stop Loss</td>
+            <td className="py-1 text-right font-mono text-red-600 dark:text-red-400">{formatPrice(setup.stopLoss)}{distance(setup.stopLoss)}<Agreement value={agreement?.stopLoss} /></td>
+          </tr>
+          {setup.takeProfits.map((tp, i) => (
+            <tr key={i}>
+              <td className="py-1 text-gray-500 dark:text-gray-400">Take Profit {i + 1}</td>
+              <td className="py-1 text-right font-mono text-green-600 dark:text-green-400">
+                {formatPrice(tp.price)}{distance(tp.price)} <span className="text-xs text-gray-500">({formatRatio(tp.riskReward)})</span><Agreement value={agreement?.takeProfits[i]} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {setup.timeframeConfirmation && (
+        <div className="text-xs text-gray-500 dark:text-gray-400">Confirmation: {setup.timeframeConfirmation}</div>
+      )}
+
+      {setup.waitCondition && (
+        <div className="text-xs bg-amber-50 dark:bg-amber-900/20 rounded p-2 space-y-1">
+          <div><span className="font-semibold">Wait for:</span> {setup.waitCondition.waitFor}</div>
+          <div><span className="font-semibold">Watch level:</span> {formatPrice(setup.waitCondition.watchLevel)}</div>
+          <div><span className="font-semibold">Confirmation:</span> {setup.waitCondition.confirmation}</div>
+          <div><span className="font-semibold">Max wait:</span> {setup.waitCondition.maxWaitTime}</div>
+        </div>
+      )}
+
+      {setup.notes && <p className="text-xs text-gray-600 dark:text-gray-300">{setup.notes}</p>}
+    </div>
+  );
+};
+
+const LevelTable: React.FC<{ title: string; levels: PriceLevel[]; priceClassName: string; agreement?: number[] }> = ({ title, levels, priceClassName, agreement }) => (
+  <div>
+    <h6 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-1">{title}</h6>
+    {levels.length === 0 ? (
+      <div className="text-xs text-gray-500">None identified</div>
+    ) : (
+      <table className="text-sm w-full">
+        <tbody className="divide-y divide-gray-100 dark:divide-gray-600">
+          {levels.map((level, i) => (
+            <tr key={i}>
+              <td className={`py-1 pr-3 font-mono whitespace-nowrap ${priceClassName}`}>{formatPrice(level.price)}<Agreement value={agreement?.[i]} /></td>
+              <td className="py-1 text-gray-600 dark:text-gray-300">{level.significance}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+const TradePlanView: React.FC<{ plan: TradePlan; instrument?: InstrumentProfile; agreement?: PlanAgreement }> = ({ plan, instrument, agreement }) => {
+  const { marketState, keyLevels, riskManagement, recommendedActions } = plan;
+  const noSetups = TRADE_TYPES.every(type => plan.setups[type].status === 'not_available');
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="bg-white dark:bg-neutral-700 rounded-lg p-4 border-l-4 border-blue-500 dark:border-blue-400">
+        <h5 className="font-semibold text-blue-800 dark:text-blue-300 mb-2">Summary</h5>
+        <p className="text-sm text-gray-800 dark:text-gray-200">{plan.summary}</p>
+        {agreement && (
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            Consensus of {agreement.samples} samples. Percentages show how many agree with each value.
+          </p>
+        )}
+      </div>
+
+      {/* Trade setups */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {TRADE_TYPES.map(type => (
+          <SetupCard key={type} type={type} setup={plan.setups[type]} instrument={instrument} agreement={agreement?.setups[type]} />
+        ))}
+      </div>
+
+      {noSetups && plan.viabilityConditions && (
+        <div className="bg-white dark:bg-neutral-700 rounded-lg p-4 border-l-4 border-amber-500">
+          <h5 className="font-semibold text-blue-800 dark:text-blue-300 mb-2">When to Check Again</h5>
+          <p className="text-sm text-gray-800 dark:text-gray-200">{plan.viabilityConditions}</p>
+        </div>
+      )}
+
+      {/* Market state */}
+      <div className="bg-white dark:bg-neutral-700 rounded-lg p-4">
+        <h5 className="font-semibold text-blue-800 dark:text-blue-300 mb-3">Current Market State</h5>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+          <div><div className="text-xs text-gray-500">Trend</div><div className="font-medium capitalize">{marketState.trend}<Agreement value={agreement?.trend} /></div></div>
+          <div><div className="text-xs text-gray-500">Momentum</div><div className="font-medium capitalize">{marketState.momentum}</div></div>
+          <div><div className="text-xs text-gray-500">Volatility</div><div className="font-medium capitalize">{marketState.volatility}</div></div>
+          <div><div className="text-xs text-gray-500">Current Price</div><div className="font-medium font-mono">{formatPrice(marketState.currentPrice)}</div></div>
+        </div>
+        {marketState.rsi.length > 0 && (
+          <div className="mt-3 flex flex-wrap gap-2 text-xs">
+            {marketState.rsi.map((reading, i) => (
+              <span key={i} className="px-2 py-0.5 rounded bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+                RSI {reading.timeframe}: {reading.value ?? '—'}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Key levels */}
+      <div className="bg-white dark:bg-neutral-700 rounded-lg p-4">
+        <h5 className="font-semibold text-blue-800 dark:text-blue-300 mb-3">Key Levels to Monitor</h5>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <LevelTable title="Support" levels={keyLevels.support} priceClassName="text-green-600 dark:text-green-400" agreement={agreement?.support} />
+          <LevelTable title="Resistance" levels={keyLevels.resistance} priceClassName="text-red-600 dark:text-red-400" agreement={agreement?.resistance} />
+          <LevelTable
+            title="Fibonacci"
+            levels={keyLevels.fibonacci.map(fib => ({ price: fib.price, significance: fib.ratio.toString() }))}
+            priceClassName="text-indigo-600 dark:text-indigo-400"
+          />
+        </div>
+      </div>
+
+      {/* Risk management and actions */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-white dark:bg-neutral-700 rounded-lg p-4 border-l-4 border-red-400">
+          <h5 className="font-semibold text-blue-800 dark:text-blue-300 mb-2">Risk Management</h5>
+          <dl className="text-sm space-y-1">
+            <div><dt className="inline font-semibold">Max Risk per Trade: </dt><dd className="inline">{riskManagement.maxRiskPerTrade}</dd></div>
+            <div><dt className="inline font-semibold">Correlation Check: </dt><dd className="inline">{riskManagement.correlationCheck}</dd></div>
+          </dl>
+        </div>
+        <div className="bg-white dark:bg-neutral-700 rounded-lg p-4 border-l-4 border-green-500 dark:border-green-400">
+          <h5 className="font-semibold text-blue-800 dark:text-blue-300 mb-2">Recommended Action</h5>
+          <dl className="text-sm space-y-1">
+            <div><dt className="inline font-semibold">Immediate: </dt><dd className="inline">{recommendedActions.immediate}</dd></div>
+            <div><dt className="inline font-semibold">Today: </dt><dd className="inline">{recommendedActions.today}</dd></div>
+            <div><dt className="inline font-semibold">This Week: </dt><dd className="inline">{recommendedActions.thisWeek}</dd></div>
+          </dl>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TradePlanView;
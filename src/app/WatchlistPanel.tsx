@@ -0,0 +1,270 @@
+"use client";
+import React, { useEffect, useRef, useState } from "react";
+import { FINAL_STEP, pipelineProgress, type PipelineStep } from "./analysisPipeline";
+import { describeStepError, placeCharts, runAnalysis, type RunContext } from "./analysisRunner";
+import { createRun, createThumbnail, saveRun, type AnalysisRun } from "./historyStore";
+import { profileFromSymbol } from "./instrumentProfile";
+import { describeStepModels, type ModelSelection } from "./modelSelection";
+import { planLadder, type Strategy } from "./strategies";
+import { timeframeLabel } from "./timeframes";
+import { TRADE_TYPES, tradeTypeLabels } from "./tradePlan";
+import { groupBySymbol, sortWatchlist, summarizePlan, type WatchlistSet, type WatchlistSortKey, type WatchlistSummary } from "./watchlist";
+
+interface WatchlistPanelProps {
+  open: boolean; // Closing only hides the panel, so a running batch carries on
+  ladder: string[];
+  strategy: Strategy;
+  models: ModelSelection;
+  autoCorrectLevels: boolean;
+  onSaved: () => void; // Called after each completed run is saved to history
+  onOpen: (run: AnalysisRun) => void;
+  onClose: () => void;
+}
+
+type ItemState = 'queued' | 'running' | 'done' | 'failed';
+
+interface WatchlistItem extends WatchlistSet {
+  state: ItemState;
+  steps: PipelineStep[];
+  run?: AnalysisRun;
+  summary?: WatchlistSummary;
+  notes: string[]; // Skipped charts and other warnings
+  error?: string;
+}
+
+const statusIcons = { available: '✅', wait: '⏳', not_available: '❌' } as const;
+
+const biasStyles: Record<WatchlistSummary['bias'], string> = {
+  bullish: 'text-green-600 dark:text-green-400',
+  bearish: 'text-red-600 dark:text-red-400',
+  neutral: 'text-gray-500',
+};
+
+const stateLabels: Record<ItemState, string> = { queued: 'Queued', running: 'Running', done: 'Done', failed: 'Failed' };
+
+const stepLabel = (id: string) => id === FINAL_STEP ? 'Final trade plan' : `${timeframeLabel(id)} analysis`;
+
+const newItem = (set: WatchlistSet): WatchlistItem => ({ ...set, state: 'queued', steps: [], notes: [] });
+
+// The same analysis for many symbols at once; every request goes through the shared rate-limit queue
+const WatchlistPanel: React.FC<WatchlistPanelProps> = ({ open, ladder, strategy, models, autoCorrectLevels, onSaved, onOpen, onClose }) => {
+  const [items, setItems] = useState<WatchlistItem[]>([]);
+  const [sort, setSort] = useState<{ key: WatchlistSortKey; reversed: boolean }>({ key: 'score', reversed: false });
+  const [running, setRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Unmounting stops a running batch
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const update = (symbol: string, change: Partial<WatchlistItem>) =>
+    setItems(current => current.map(item => item.symbol === symbol ? { ...item, ...change } : item));
+
+  // Charts added to a symbol that already ran start it over
+  const addCharts = (files: File[]) => setItems(current => {
+    const grouped = groupBySymbol(files, current);
+    return grouped.map(set => {
+      const existing = current.find(item => item.symbol === set.symbol);
+      if (!existing) return newItem(set);
+      return set.charts.length === existing.charts.length ? existing : newItem(set);
+    });
+  });
+
+  const renameItem = (symbol: string, name: string) => {
+    const next = name.trim().toUpperCase();
+    if (!next || items.some(item => item.symbol === next)) return;
+    update(symbol, { symbol: next });
+  };
+
+  const removeItem = (symbol: string) => setItems(current => current.filter(item => item.symbol !== symbol));
+
+  // Settings are fixed when the batch starts, as for a single run
+  const analyzeItem = async (item: WatchlistItem, signal: AbortSignal) => {
+    const { symbol } = item;
+    update(symbol, { state: 'running', steps: [], notes: [], error: undefined, run: undefined, summary: undefined });
+    try {
+      const { images, skipped } = await placeCharts(item.charts, ladder, models, signal);
+      const notes = skipped.map(({ chart, reason }) => `Skipped ${chart.name}: ${reason}.`);
+      if (!ladder.some(timeframe => images[timeframe])) {
+        update(symbol, { state: 'failed', notes, error: `None of the charts match the ladder ${ladder.map(timeframeLabel).join(', ')}.` });
+        return;
+      }
+      const context: RunContext = { strategy, ladderSteps: planLadder(strategy, ladder), images, instrument: profileFromSymbol(symbol), models, autoCorrectLevels };
+      const result = await runAnalysis(context, { signal, onChange: steps => update(symbol, { steps, notes }) });
+      if (signal.aborted) {
+        update(symbol, { state: 'queued', steps: [] });
+        return;
+      }
+      if (!result.tradePlan) {
+        const failed = result.steps.find(step => step.status === 'failed');
+        update(symbol, { state: 'failed', error: failed ? `${stepLabel(failed.id)} failed: ${failed.error}` : 'No trade plan was produced.' });
+        return;
+      }
+      const placed = ladder.filter(timeframe => images[timeframe]);
+      const run = createRun({
+        symbol,
+        instrument: context.instrument,
+        strategy: { id: strategy.id, name: strategy.name, version: strategy.version },
+        ladder,
+        models: Object.fromEntries(['detect', ...ladder, FINAL_STEP].map(step => [step, describeStepModels(models, step)])),
+        images: [],
+        analyses: result.analyses,
+        tradePlan: result.tradePlan,
+        agreement: result.agreement,
+      });
+      update(symbol, { state: 'done', run, summary: summarizePlan(result.tradePlan, result.agreement) });
+      // Saving must not turn a symbol that has a plan into a failure; undecodable charts get no thumbnail
+      try {
+        const saved = {
+          ...run,
+          images: await Promise.all(placed.map(async timeframe => ({
+            name: images[timeframe]!.name,
+            timeframe,
+            thumbnail: await createThumbnail(images[timeframe]!).catch(() => ''),
+          }))),
+        };
+        update(symbol, { run: saved });
+        await saveRun(saved);
+        onSaved();
+      } catch (err) {
+        console.warn(`Could not save the ${symbol} run to history`, err);
+      }
+    } catch (err) {
+      update(symbol, signal.aborted ? { state: 'queued', steps: [] } : { state: 'failed', error: describeStepError(err) });
+    }
+  };
+
+  // Symbols that already have a plan are kept; failed ones are retried
+  const runBatch = async () => {
+    const pending = items.filter(item => !item.run);
+    if (pending.length === 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    await Promise.all(pending.map(item => analyzeItem(item, controller.signal)));
+    abortRef.current = null;
+    setRunning(false);
+  };
+
+  const changeSort = (key: WatchlistSortKey) =>
+    setSort(current => ({ key, reversed: current.key === key ? !current.reversed : false }));
+
+  const sorted = sortWatchlist(items, sort.key, sort.reversed);
+  const finished = items.filter(item => item.state === 'done').length;
+  const columns: [WatchlistSortKey, string][] = [
+    ['symbol', 'Symbol'],
+    ['bias', 'Bias'],
+    ...TRADE_TYPES.map(type => [type, tradeTypeLabels[type].title.replace(' Trade', '')] as [WatchlistSortKey, string]),
+    ['score', 'Score'],
+  ];
+
+  return (
+    <aside className={`fixed inset-y-0 right-0 w-full sm:w-[48rem] z-50 bg-white dark:bg-neutral-900 shadow-xl border-l border-gray-200 dark:border-gray-700 flex flex-col ${open ? '' : 'hidden'}`}>
+      <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-200">Watchlist</h3>
+        <button type="button" className="text-sm text-gray-500 hover:text-gray-700" onClick={onClose}>Close</button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-4 text-sm">
+        <p className="text-xs text-gray-500">
+          Upload the charts of every symbol at once. They are grouped by the symbol at the start of the file name (EURUSD_4h.png, or TradingView&apos;s FX_EURUSD, 240_….png);
+          rename a group to fix it. Each symbol runs the {strategy.name} strategy on the {ladder.map(timeframeLabel).join(', ')} ladder, and completed runs are saved to history.
+        </p>
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            className="text-xs"
+            disabled={running}
+            aria-label="Watchlist charts"
+            onChange={e => {
+              addCharts(Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+          />
+          {running ? (
+            <button type="button" className="px-4 py-2 rounded bg-red-600 text-white text-sm font-medium hover:bg-red-700" onClick={() => abortRef.current?.abort()}>Stop</button>
+          ) : (
+            <button
+              type="button"
+              className="px-4 py-2 rounded bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+              disabled={!items.some(item => !item.run)}
+              onClick={runBatch}
+            >
+              Analyze Watchlist
+            </button>
+          )}
+          {items.length > 0 && <span className="text-xs text-gray-500">{finished} / {items.length} symbols analysed</span>}
+          {!running && items.length > 0 && (
+            <button type="button" className="text-xs text-red-600 hover:underline" onClick={() => setItems([])}>Clear</button>
+          )}
+        </div>
+        {items.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  {columns.map(([key, label]) => (
+                    <th key={key} className="py-1 pr-2">
+                      <button type="button" className="hover:underline" onClick={() => changeSort(key)}>
+                        {label}{sort.key === key && (sort.reversed ? ' ▲' : ' ▼')}
+                      </button>
+                    </th>
+                  ))}
+                  <th className="py-1"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                {sorted.map(item => (
+                  <tr key={item.symbol} className="align-top">
+                    <td className="py-2 pr-2">
+                      <input
+                        className="w-24 px-1 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-neutral-900 font-mono"
+                        defaultValue={item.symbol}
+                        disabled={running}
+                        aria-label={`Symbol of ${item.charts.map(chart => chart.name).join(', ')}`}
+                        onBlur={e => {
+                          renameItem(item.symbol, e.target.value);
+                          e.target.value = item.symbol;
+                        }}
+                      />
+                      <div className="text-gray-500 mt-1">{item.charts.length} chart(s)</div>
+                    </td>
+                    {item.summary ? (
+                      <>
+                        <td className={`py-2 pr-2 capitalize ${biasStyles[item.summary.bias]}`}>{item.summary.bias}</td>
+                        {TRADE_TYPES.map(type => (
+                          <td key={type} className="py-2 pr-2" title={item.summary!.statuses[type].replace('_', ' ')}>
+                            {statusIcons[item.summary!.statuses[type]]}
+                          </td>
+                        ))}
+                        <td className="py-2 pr-2 font-mono">
+                          {item.summary.score}
+                          {item.summary.best && <div className="text-gray-500 font-sans">{tradeTypeLabels[item.summary.best].title}</div>}
+                        </td>
+                      </>
+                    ) : (
+                      <td colSpan={TRADE_TYPES.length + 2} className="py-2 pr-2 text-gray-500">
+                        {item.state === 'running' ? `${stateLabels.running}… ${pipelineProgress(item.steps)}%` : stateLabels[item.state]}
+                        {item.error && <div className="text-red-600">{item.error}</div>}
+                      </td>
+                    )}
+                    <td className="py-2 text-right whitespace-nowrap">
+                      {item.run && <button type="button" className="text-blue-600 hover:underline mr-2" onClick={() => onOpen(item.run!)}>Open</button>}
+                      {!running && <button type="button" className="text-red-600 hover:underline" onClick={() => removeItem(item.symbol)}>Remove</button>}
+                      {item.notes.map(note => <div key={note} className="text-amber-600 text-left whitespace-normal">{note}</div>)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="text-xs text-gray-500">
+          The score (0-100) rates each symbol&apos;s best setup: available setups count fully and waiting ones half, weighted by the first target&apos;s reward-to-risk up to 1:3 and by whether the direction follows the trend. In consensus mode it is scaled by how far the samples agreed.
+        </p>
+      </div>
+    </aside>
+  );
+};
+
+export default WatchlistPanel;
@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from "vitest";
+import { FINAL_STEP, pipelineProgress, planPipeline, resetStep, runPipeline, type PipelineStep, type StepOutcome } from "./analysisPipeline";
+import { DEFAULT_STRATEGY_ID, getBuiltInStrategies, planLadder } from "./strategies";
+
+const strategy = getBuiltInStrategies().find(s => s.id === DEFAULT_STRATEGY_ID)!;
+
+const pending = (id: string, dependsOn: string[] = []): PipelineStep => ({ id, dependsOn, status: 'pending' });
+
+// A step that settles when the test says so
+function deferredSteps() {
+  const settle = new Map<string, (outcome: StepOutcome) => void>();
+  const runStep = vi.fn((id: string) => new Promise<StepOutcome>(resolve => settle.set(id, resolve)));
+  return { settle, runStep };
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('planPipeline', () => {
+  it('makes each step depend on the ladder steps its context reads', () => {
+    const steps = planPipeline(strategy, planLadder(strategy, ['4h', '1h', '15m', '5m']));
+
+    expect(steps.map(step => [step.id, step.dependsOn])).toEqual([
+      ['4h', []],
+      ['1h', ['4h']],
+      ['15m', ['4h', '1h']],
+      ['5m', ['15m']],
+      [FINAL_STEP, ['4h', '1h', '15m', '5m']],
+    ]);
+  });
+
+  it('depends on the ladder timeframe that stands in for a strategy step', () => {
+    const steps = planPipeline(strategy, planLadder(strategy, ['1D', '1h']));
+
+    expect(steps.map(step => [step.id, step.dependsOn])).toEqual([
+      ['1D', []],
+      ['1h', ['1D']],
+      [FINAL_STEP, ['1D', '1h']],
+    ]);
+  });
+});
+
+describe('runPipeline', () => {
+  it('starts independent steps together and each step once its dependencies settle', async () => {
+    const { settle, runStep } = deferredSteps();
+    const onChange = vi.fn();
+    const run = runPipeline([pending('4h'), pending('1D'), pending('1h', ['4h']), pending(FINAL_STEP, ['1h', '1D'])], runStep, String, new AbortController().signal, onChange);
+
+    await flush();
+    expect(runStep.mock.calls.map(([id]) => id)).toEqual(['4h', '1D']);
+    settle.get('4h')!('done');
+    await flush();
+    expect(runStep.mock.calls.map(([id]) => id)).toEqual(['4h', '1D', '1h']);
+    settle.get('1h')!('skipped');
+    settle.get('1D')!('done');
+    await flush();
+    settle.get(FINAL_STEP)!('done');
+
+    const steps = await run;
+    expect(steps.map(step => step.status)).toEqual(['done', 'done', 'skipped', 'done']);
+    expect(onChange).toHaveBeenLastCalledWith(steps);
+  });
+
+  it('blocks only the dependents of a failed step', async () => {
+    const runStep = vi.fn(async (id: string): Promise<StepOutcome> => {
+      if (id === '4h') throw new Error('429');
+      return 'done';
+    });
+
+    const steps = await runPipeline([pending('4h'), pending('1h'), pending('15m', ['4h'])], runStep, error => `Failed: ${(error as Error).message}`, new AbortController().signal, () => {});
+
+    expect(steps).toEqual([
+      { id: '4h', dependsOn: [], status: 'failed', error: 'Failed: 429' },
+      { id: '1h', dependsOn: [], status: 'done', error: undefined },
+      pending('15m', ['4h']),
+    ]);
+    expect(runStep).not.toHaveBeenCalledWith('15m', expect.anything());
+  });
+
+  it('puts cancelled steps back to pending', async () => {
+    const controller = new AbortController();
+    const runStep = (_id: string, signal: AbortSignal) => new Promise<StepOutcome>((_resolve, reject) => {
+      signal.addEventListener('abort', () => reject(signal.reason));
+    });
+    const run = runPipeline([pending('4h'), pending('1h', ['4h'])], runStep, String, controller.signal, () => {});
+
+    await flush();
+    controller.abort();
+
+    expect((await run).map(step => step.status)).toEqual(['pending', 'pending']);
+  });
+});
+
+describe('resetStep', () => {
+  it('resets a step and everything downstream of it', () => {
+    const steps: PipelineStep[] = [
+      { id: '4h', dependsOn: [], status: 'done' },
+      { id: '1h', dependsOn: ['4h'], status: 'failed', error: '429' },
+      { id: '15m', dependsOn: [], status: 'done' },
+      { id: FINAL_STEP, dependsOn: ['1h'], status: 'done' },
+    ];
+
+    const reset = resetStep(steps, '1h');
+
+    expect(reset.map(step => step.status)).toEqual(['done', 'pending', 'done', 'pending']);
+    expect(reset[1].error).toBeUndefined();
+    expect(pipelineProgress(reset)).toBe(50);
+  });
+});
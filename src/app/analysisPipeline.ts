@@ -0,0 +1,89 @@
+// The analysis run as explicit steps with dependencies, so it can be cancelled, resumed and retried per step
+import type { LadderStep, Strategy } from "./strategies";
+
+export type StepStatus = 'pending' | 'running' | 'done' | 'failed' | 'skipped';
+
+export const FINAL_STEP = 'final';
+
+export interface PipelineStep {
+  id: string; // Ladder timeframe id or FINAL_STEP
+  dependsOn: string[];
+  status: StepStatus;
+  error?: string;
+}
+
+// A finished step; 'skipped' steps still produce a placeholder output for their dependents
+export type StepOutcome = 'done' | 'skipped';
+
+const isSettled = (status: StepStatus) => status === 'done' || status === 'skipped';
+
+// A ladder step depends on the earlier ladder steps its prompt takes context from, and the final
+// plan on those named in the final context. Steps without a path between them can run side by side.
+export function planPipeline(strategy: Strategy, ladderSteps: LadderStep[]): PipelineStep[] {
+  const sources = (rules: { from: string }[], available: LadderStep[]) =>
+    available.filter(ladderStep => rules.some(rule => rule.from === ladderStep.step.timeframe)).map(ladderStep => ladderStep.timeframe);
+  return [
+    ...ladderSteps.map((ladderStep, index) => ({
+      id: ladderStep.timeframe,
+      dependsOn: sources(ladderStep.step.context, ladderSteps.slice(0, index)),
+      status: 'pending' as const,
+    })),
+    { id: FINAL_STEP, dependsOn: sources(strategy.finalContext, ladderSteps), status: 'pending' },
+  ];
+}
+
+// Put a step and everything downstream of it back to pending, keeping upstream results
+export function resetStep(steps: PipelineStep[], id: string): PipelineStep[] {
+  const stale = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const step of steps) {
+      if (!stale.has(step.id) && step.dependsOn.some(dep => stale.has(dep))) {
+        stale.add(step.id);
+        grew = true;
+      }
+    }
+  }
+  return steps.map(step => stale.has(step.id) ? { id: step.id, dependsOn: step.dependsOn, status: 'pending' } : step);
+}
+
+export const pipelineProgress = (steps: PipelineStep[]) =>
+  steps.length === 0 ? 0 : Math.round(steps.filter(step => isSettled(step.status)).length / steps.length * 100);
+
+// Run every pending step whose dependencies have settled, as many at once as are ready.
+// A failed step blocks only its dependents; cancelled steps go back to pending so the run can resume.
+export async function runPipeline(
+  steps: PipelineStep[],
+  runStep: (id: string, signal: AbortSignal) => Promise<StepOutcome>,
+  describeError: (error: unknown) => string,
+  signal: AbortSignal,
+  onChange: (steps: PipelineStep[]) => void
+): Promise<PipelineStep[]> {
+  let current = steps;
+  const update = (id: string, patch: Partial<PipelineStep>) => {
+    current = current.map(step => step.id === id ? { ...step, ...patch } : step);
+    onChange(current);
+  };
+  const running = new Map<string, Promise<void>>();
+
+  while (!signal.aborted) {
+    const statusOf = (id: string) => current.find(step => step.id === id)?.status ?? 'done';
+    const ready = current.filter(step =>
+      step.status === 'pending' && !running.has(step.id) && step.dependsOn.every(dep => isSettled(statusOf(dep))));
+    for (const step of ready) {
+      update(step.id, { status: 'running', error: undefined });
+      running.set(step.id, runStep(step.id, signal)
+        .then(
+          status => update(step.id, { status }),
+          error => update(step.id, signal.aborted ? { status: 'pending' } : { status: 'failed', error: describeError(error) })
+        )
+        .finally(() => running.delete(step.id)));
+    }
+    if (running.size === 0) break;
+    await Promise.race(running.values());
+  }
+
+  await Promise.allSettled(running.values());
+  return current;
+}
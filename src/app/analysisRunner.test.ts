@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { placeCharts, runAnalysis, type RunContext } from "./analysisRunner";
+import { FINAL_STEP } from "./analysisPipeline";
+import { defaultModelSelection, type ModelSelection } from "./modelSelection";
+import { DEFAULT_STRATEGY_ID, getBuiltInStrategies, planLadder } from "./strategies";
+
+// The offline mock model, so whole runs work without a key or network
+const models: ModelSelection = { ...defaultModelSelection, default: { provider: 'mock', model: 'mock' } };
+const strategy = getBuiltInStrategies().find(s => s.id === DEFAULT_STRATEGY_ID)!;
+const ladder = ['4h', '1h', '15m'];
+
+// The mock streams its replies in small timed chunks; run its clock until the promise settles
+async function withFakeClock<T>(promise: Promise<T>): Promise<T> {
+  let settled = false;
+  promise.then(() => { settled = true; }, () => { settled = true; });
+  while (!settled) await vi.advanceTimersByTimeAsync(100);
+  return promise;
+}
+
+const chart = (name: string) => new File([new Uint8Array([137, 80, 78, 71])], name, { type: 'image/png' });
+
+describe('placeCharts', () => {
+  it('places charts by the timeframe in their names and skips repeats', async () => {
+    const charts = [chart('EURUSD_4h.png'), chart('EURUSD_15m.png'), chart('EURUSD_H4.png')];
+
+    const { images, skipped } = await placeCharts(charts, ladder, models);
+
+    expect(images).toEqual({ '4h': charts[0], '1h': null, '15m': charts[1] });
+    expect(skipped).toEqual([{ chart: charts[2], reason: 'it is another 4h chart' }]);
+  });
+});
+
+describe('runAnalysis', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('analyses the uploaded charts, skips the missing one and builds the trade plan', async () => {
+    vi.useFakeTimers();
+    const context: RunContext = {
+      strategy,
+      ladderSteps: planLadder(strategy, ladder),
+      images: { '4h': chart('EURUSD_4h.png'), '1h': null, '15m': chart('EURUSD_15m.png') },
+      models,
+      autoCorrectLevels: false,
+    };
+
+    const result = await withFakeClock(runAnalysis(context));
+
+    expect(result.steps.map(step => [step.id, step.status])).toEqual([['4h', 'done'], ['1h', 'skipped'], ['15m', 'done'], [FINAL_STEP, 'done']]);
+    expect(result.analyses['1h']).toBe('No 1h chart uploaded.');
+    expect(result.analyses['4h']).toMatch(/^## Mock 4-hour analysis/);
+    expect(result.tradePlan?.setups.swing.status).toBe('available');
+  });
+
+  it('leaves every step pending when cancelled before it starts', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const context: RunContext = { strategy, ladderSteps: planLadder(strategy, ladder), images: {}, models, autoCorrectLevels: false };
+
+    const result = await runAnalysis(context, { signal: controller.signal });
+
+    expect(result.steps.every(step => step.status === 'pending')).toBe(true);
+    expect(result.tradePlan).toBeUndefined();
+  });
+});
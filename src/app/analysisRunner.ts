@@ -0,0 +1,193 @@
+// The analysis pipeline without any UI state: detection, the per-timeframe steps and the final plan.
+// It only needs File, fetch and Web Crypto, so the app and the command line tool (src/cli) share it.
+import { analyzeChartWithGemini } from "./geminiApi";
+import { FINAL_STEP, planPipeline, runPipeline, type PipelineStep } from "./analysisPipeline";
+import { MissingCredentialsError } from "./apiKeyStore";
+import { aggregateAnalyses, aggregatePlans, settleSamples, type PlanAgreement } from "./consensus";
+import { instrumentPrompt, instrumentSchema, parseInstrumentReply, type InstrumentProfile } from "./instrumentProfile";
+import { buildCorrectionPrompt, hasLevelErrors, validateTradeLevels } from "./levelValidation";
+import { consensusMembers, resolveModel, type ModelSelection } from "./modelSelection";
+import type { MarketDataByTimeframe } from "./marketData";
+import { renderFinalPrompt, renderStepPrompt, type LadderStep, type Strategy } from "./strategies";
+import { detectFromFilename, detectionPrompt, detectionSchema, FILENAME_CONFIDENCE_THRESHOLD, parseDetectionReply, type TimeframeDetection } from "./timeframeDetection";
+import { parseTradePlan, tradePlanSchema, TradePlanValidationError, type TradePlan } from "./tradePlan";
+
+// Chart per ladder timeframe id
+export type ChartImages = Record<string, File | null>;
+
+// Everything a run needs, fixed when it starts so resuming and retrying use the same inputs
+export interface RunContext {
+  strategy: Strategy;
+  ladderSteps: LadderStep[];
+  images: ChartImages;
+  instrument?: InstrumentProfile;
+  marketData?: MarketDataByTimeframe; // Computed from OHLCV uploads; a timeframe with data but no chart still runs
+  models: ModelSelection;
+  autoCorrectLevels: boolean;
+}
+
+interface StepOptions {
+  signal?: AbortSignal;
+  onText?: (text: string) => void; // Streams the first consensus member's reply
+}
+
+export interface FinalStepResult {
+  tradePlan: TradePlan;
+  agreement?: PlanAgreement; // Set in consensus mode
+}
+
+const strategyVersionOf = (strategy: Strategy) => `${strategy.id}@${strategy.version}`;
+
+// The file name first, then the model; null when neither names one of the ladder's timeframes
+export async function detectChartTimeframe(image: File, ladder: string[], models: ModelSelection, signal?: AbortSignal): Promise<TimeframeDetection | null> {
+  const fromName = detectFromFilename(image.name, ladder);
+  if (fromName && fromName.confidence >= FILENAME_CONFIDENCE_THRESHOLD) return fromName;
+  const reply = await analyzeChartWithGemini({
+    image,
+    model: resolveModel(models, 'detect'),
+    prompt: detectionPrompt(ladder),
+    responseSchema: detectionSchema(ladder),
+    signal,
+  });
+  return parseDetectionReply(reply, ladder);
+}
+
+export interface ChartPlacement {
+  images: ChartImages;
+  skipped: { chart: File; reason: string }[];
+}
+
+// Charts whose timeframe is not on the ladder, or repeats one already placed, are left out
+export async function placeCharts(charts: File[], ladder: string[], models: ModelSelection, signal?: AbortSignal): Promise<ChartPlacement> {
+  const placement: ChartPlacement = { images: Object.fromEntries(ladder.map(timeframe => [timeframe, null])), skipped: [] };
+  for (const chart of charts) {
+    const detection = await detectChartTimeframe(chart, ladder, models, signal);
+    if (!detection) {
+      placement.skipped.push({ chart, reason: 'could not tell its timeframe' });
+    } else if (placement.images[detection.timeframe]) {
+      placement.skipped.push({ chart, reason: `it is another ${detection.timeframe} chart` });
+    } else {
+      placement.images[detection.timeframe] = chart;
+    }
+  }
+  return placement;
+}
+
+// The lowest timeframe's price axis is the most recent, so the instrument is read from that chart
+export function lowestTimeframeChart(images: ChartImages, ladder: string[]): File | undefined {
+  return [...ladder].reverse().map(timeframe => images[timeframe]).find(Boolean) ?? Object.values(images).find(Boolean) ?? undefined;
+}
+
+export async function detectChartInstrument(image: File, models: ModelSelection, signal?: AbortSignal): Promise<InstrumentProfile | null> {
+  return parseInstrumentReply(await analyzeChartWithGemini({
+    image,
+    model: resolveModel(models, 'detect'),
+    prompt: instrumentPrompt,
+    responseSchema: instrumentSchema,
+    signal,
+  }));
+}
+
+export const missingChartAnalysis = (timeframe: string) => `No ${timeframe} chart uploaded.`;
+
+// A step needs a chart, OHLCV data, or both
+export const hasStepInput = (context: Pick<RunContext, 'images' | 'marketData'>, timeframe: string) =>
+  Boolean(context.images[timeframe] || context.marketData?.[timeframe]);
+
+// In consensus mode every member answers and the answers are merged
+export async function analyzeTimeframeStep(context: RunContext, timeframe: string, outputs: Record<string, string>, { signal, onText }: StepOptions = {}): Promise<string> {
+  const { strategy, ladderSteps, images, instrument, marketData, models } = context;
+  if (!hasStepInput(context, timeframe)) throw new Error(missingChartAnalysis(timeframe));
+  const image = images[timeframe] ?? undefined;
+  const index = ladderSteps.findIndex(step => step.timeframe === timeframe);
+  const prompt = renderStepPrompt(strategy, ladderSteps, index, outputs, instrument, marketData);
+  const texts = await settleSamples(consensusMembers(models, timeframe).map(({ model, sample }, i) => analyzeChartWithGemini({
+    image,
+    model,
+    sample,
+    prompt,
+    strategyVersion: strategyVersionOf(strategy),
+    signal,
+    onText: i === 0 ? onText : undefined,
+  })));
+  return texts.length > 1 ? aggregateAnalyses(texts) : texts[0];
+}
+
+// Final trade plan (combine all) as schema-constrained JSON
+export async function analyzeFinalStep(context: RunContext, outputs: Record<string, string>, { signal, onText }: StepOptions = {}): Promise<FinalStepResult> {
+  const { strategy, ladderSteps, images, instrument, marketData, models, autoCorrectLevels } = context;
+  const strategyVersion = strategyVersionOf(strategy);
+  // With OHLCV data only, the plan is made from the text alone
+  const firstImage = ladderSteps.map(step => images[step.timeframe]).find(Boolean) ?? undefined;
+  if (!ladderSteps.some(step => hasStepInput(context, step.timeframe))) throw new Error("No charts uploaded.");
+  const finalPrompt = renderFinalPrompt(strategy, ladderSteps, outputs, instrument, marketData);
+  // Samples whose reply does not parse are dropped from the consensus
+  const plans = await settleSamples(consensusMembers(models, FINAL_STEP).map(async ({ model, sample }, i) => parseTradePlan(await analyzeChartWithGemini({
+    image: firstImage,
+    responseSchema: tradePlanSchema,
+    model,
+    sample,
+    prompt: finalPrompt,
+    strategyVersion,
+    signal,
+    onText: i === 0 ? onText : undefined,
+  }))));
+  const consensus = plans.length > 1 ? aggregatePlans(plans) : undefined;
+  let tradePlan = consensus?.plan ?? plans[0];
+
+  // One corrective round trip when the levels contradict themselves
+  const issues = validateTradeLevels(tradePlan, outputs);
+  if (autoCorrectLevels && hasLevelErrors(issues)) {
+    try {
+      const corrected = await analyzeChartWithGemini({
+        image: firstImage,
+        responseSchema: tradePlanSchema,
+        model: resolveModel(models, FINAL_STEP),
+        prompt: buildCorrectionPrompt(finalPrompt, tradePlan, issues),
+        strategyVersion,
+        signal,
+        onText,
+      });
+      tradePlan = parseTradePlan(corrected);
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      console.warn("Level correction failed, keeping the original plan", err);
+    }
+  }
+  return { tradePlan, agreement: consensus?.agreement };
+}
+
+export function describeStepError(err: unknown): string {
+  if (err instanceof MissingCredentialsError) return err.message;
+  if (err instanceof TradePlanValidationError) return `The model returned an unusable trade plan. ${err.message}`;
+  return "The request failed. Please check your images and network, or retry this step.";
+}
+
+export interface AnalysisResult {
+  steps: PipelineStep[];
+  analyses: Record<string, string>;
+  tradePlan?: TradePlan;
+  agreement?: PlanAgreement;
+}
+
+// Run every step to completion without a UI; failed steps are reported in the returned steps
+export async function runAnalysis(
+  context: RunContext,
+  { signal = new AbortController().signal, onChange }: { signal?: AbortSignal; onChange?: (steps: PipelineStep[]) => void } = {}
+): Promise<AnalysisResult> {
+  const result: AnalysisResult = { steps: [], analyses: {} };
+  result.steps = await runPipeline(planPipeline(context.strategy, context.ladderSteps), async (id, stepSignal) => {
+    if (id === FINAL_STEP) {
+      Object.assign(result, await analyzeFinalStep(context, result.analyses, { signal: stepSignal }));
+      return 'done';
+    }
+    if (!hasStepInput(context, id)) {
+      result.analyses = { ...result.analyses, [id]: missingChartAnalysis(id) };
+      return 'skipped';
+    }
+    const analysis = await analyzeTimeframeStep(context, id, result.analyses, { signal: stepSignal });
+    result.analyses = { ...result.analyses, [id]: analysis };
+    return 'done';
+  }, describeStepError, signal, steps => onChange?.(steps));
+  return result;
+}
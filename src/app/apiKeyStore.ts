@@ -0,0 +1,139 @@
+// User-supplied API keys, kept in localStorage and optionally encrypted with a passphrase
+import type { ProviderKind } from "./visionProviders";
+
+const KEYS_STORAGE_KEY = 'trading-guide:api-keys';
+const CONNECTION_STORAGE_KEY = 'trading-guide:connection';
+const PBKDF2_ITERATIONS = 250_000;
+
+export type KeyedProvider = Exclude<ProviderKind, 'mock'>;
+export type ApiKeys = Partial<Record<KeyedProvider, string>>;
+
+export interface ConnectionSettings {
+  proxyUrl?: string; // Team backend that forwards Gemini requests and adds its own key
+}
+
+type StoredKeys =
+  | { encrypted: false; keys: ApiKeys }
+  | { encrypted: true; salt: string; iv: string; ciphertext: string };
+
+// Thrown when a provider needs a key the user has not entered or unlocked
+export class MissingCredentialsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MissingCredentialsError';
+  }
+}
+
+// Keys unlocked for this session; never leaves memory in plaintext when a passphrase is set
+let sessionKeys: ApiKeys = {};
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+async function deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function readStored(): StoredKeys | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const raw = window.localStorage.getItem(KEYS_STORAGE_KEY);
+    return raw ? JSON.parse(raw) as StoredKeys : null;
+  } catch {
+    return null;
+  }
+}
+
+export function getKeyStoreStatus(): 'empty' | 'locked' | 'unlocked' {
+  const stored = readStored();
+  if (!stored) return 'empty';
+  if (stored.encrypted && Object.keys(sessionKeys).length === 0) return 'locked';
+  return 'unlocked';
+}
+
+export function isKeyStoreEncrypted(): boolean {
+  return readStored()?.encrypted ?? false;
+}
+
+// Load keys into the session; a passphrase is required when they were saved encrypted
+export async function unlockKeys(passphrase?: string): Promise<ApiKeys> {
+  const stored = readStored();
+  if (!stored) {
+    sessionKeys = {};
+  } else if (!stored.encrypted) {
+    sessionKeys = stored.keys;
+  } else {
+    if (!passphrase) throw new Error('A passphrase is required to unlock the saved API keys.');
+    try {
+      const key = await deriveKey(passphrase, fromBase64(stored.salt));
+      const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(stored.iv) }, key, fromBase64(stored.ciphertext));
+      sessionKeys = JSON.parse(new TextDecoder().decode(plaintext));
+    } catch {
+      throw new Error('Wrong passphrase or corrupted key store.');
+    }
+  }
+  return sessionKeys;
+}
+
+export async function saveKeys(keys: ApiKeys, passphrase?: string) {
+  const cleaned = Object.fromEntries(Object.entries(keys).filter(([, value]) => value)) as ApiKeys;
+  let stored: StoredKeys;
+  if (passphrase) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await deriveKey(passphrase, salt);
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(cleaned)));
+    stored = { encrypted: true, salt: toBase64(salt), iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+  } else {
+    stored = { encrypted: false, keys: cleaned };
+  }
+  window.localStorage.setItem(KEYS_STORAGE_KEY, JSON.stringify(stored));
+  sessionKeys = cleaned;
+}
+
+export function clearKeys() {
+  window.localStorage.removeItem(KEYS_STORAGE_KEY);
+  sessionKeys = {};
+}
+
+export function getSessionKey(provider: KeyedProvider): string | undefined {
+  return sessionKeys[provider];
+}
+
+export function loadConnectionSettings(): ConnectionSettings {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(window.localStorage.getItem(CONNECTION_STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function saveConnectionSettings(settings: ConnectionSettings) {
+  window.localStorage.setItem(CONNECTION_STORAGE_KEY, JSON.stringify(settings));
+}
+
+// Cheap authenticated call that lists models without spending any tokens
+export async function validateKey(provider: KeyedProvider, apiKey: string, baseUrl?: string): Promise<void> {
+  let response: Response;
+  if (provider === 'gemini') {
+    const root = (baseUrl || 'https://generativelanguage.googleapis.com').replace(/\/+$/, '');
+    const query = apiKey ? `?pageSize=1&key=${encodeURIComponent(apiKey)}` : '?pageSize=1';
+    response = await fetch(`${root}/v1beta/models${query}`);
+  } else {
+    const root = (baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    response = await fetch(`${root}/models`, { headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {} });
+  }
+  if (!response.ok) {
+    throw new Error(response.status === 400 || response.status === 401 || response.status === 403
+      ? 'The key was rejected.'
+      : `Validation request failed with ${response.status} ${response.statusText}.`);
+  }
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { computeBacktestStats, parseDuration, simulateSetup, type BacktestRecord, type SetupBacktest } from "./backtest";
+import type { Candle } from "./marketData";
+import type { TradeSetup } from "./tradePlan";
+import type { AnalysisRun } from "./historyStore";
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2025, 0, 6);
+
+// One hourly candle per [open, high, low, close], starting at START
+const candles = (bars: [number, number, number, number][]): Candle[] =>
+  bars.map(([open, high, low, close], i) => ({ time: START + i * HOUR, open, high, low, close, volume: null }));
+
+const long: TradeSetup = {
+  status: 'available',
+  direction: 'long',
+  entry: 100,
+  stopLoss: 98,
+  takeProfits: [{ price: 104, riskReward: 2 }, { price: 102, riskReward: 1 }],
+  timeframeConfirmation: '',
+  waitCondition: null,
+  notes: '',
+};
+
+describe('simulateSetup', () => {
+  it('fills at the entry and exits at the last target', () => {
+    const result = simulateSetup(long, 'intraday', candles([
+      [101, 101.5, 100.5, 101],
+      [101, 101, 99.5, 100],
+      [100, 102.5, 99.8, 102],
+      [102, 104.5, 101, 104],
+    ]), START);
+
+    expect(result).toMatchObject({ outcome: 'target', fillPrice: 100, fillTime: START + HOUR, exitPrice: 104, targetsHit: 2, r: 2, mae: 0.25, mfe: 2 });
+    expect(result.durationMs).toBe(2 * HOUR);
+  });
+
+  it('counts a candle reaching both the stop and a target as stopped', () => {
+    const result = simulateSetup(long, 'intraday', candles([
+      [100, 100.5, 99.5, 100],
+      [100, 105, 97, 99],
+    ]), START);
+
+    expect(result).toMatchObject({ outcome: 'stop', exitPrice: 98, r: -1, targetsHit: 0 });
+  });
+
+  it('exits at the open when price gaps through the stop', () => {
+    const result = simulateSetup(long, 'intraday', candles([
+      [100.5, 101, 99.9, 100.5],
+      [97, 97.5, 96, 97],
+    ]), START);
+
+    expect(result).toMatchObject({ outcome: 'stop', exitPrice: 97, r: -1.5, mae: 1.5 });
+  });
+
+  it('measures a gap past both the entry and the stop from the planned risk', () => {
+    const result = simulateSetup(long, 'intraday', candles([
+      [101, 101.5, 100.5, 101],
+      [97, 97.5, 96, 96.5],
+    ]), START);
+
+    expect(result).toMatchObject({ outcome: 'stop', fillPrice: 97, exitPrice: 97, r: -1.5, mae: 1.5, mfe: 0 });
+    expect(result.durationMs).toBe(0);
+  });
+
+  it('marks an open trade to the last close', () => {
+    const result = simulateSetup(long, 'intraday', candles([
+      [100, 101, 99, 101],
+      [101, 103, 100.5, 103],
+    ]), START);
+
+    expect(result).toMatchObject({ outcome: 'open', exitPrice: 103, targetsHit: 1, r: 1.5 });
+  });
+
+  it('gives up on entries that do not fill within the wait time', () => {
+    const setup = { ...long, waitCondition: { waitFor: '', watchLevel: null, confirmation: '', maxWaitTime: '1 hour' } };
+    const result = simulateSetup(setup, 'intraday', candles([
+      [101, 102, 100.5, 101],
+      [101, 101.5, 100.5, 101],
+      [101, 101, 99, 99.5],
+    ]), START);
+
+    expect(result.outcome).toBe('not_filled');
+    expect(result.maxWaitMs).toBe(HOUR);
+  });
+
+  it('skips setups whose levels do not form a trade', () => {
+    expect(simulateSetup({ ...long, stopLoss: 101 }, 'swing', [], START).outcome).toBe('no_setup');
+    expect(simulateSetup({ ...long, status: 'not_available' }, 'swing', [], START).outcome).toBe('no_setup');
+  });
+});
+
+describe('parseDuration', () => {
+  it('reads counts, ranges and units', () => {
+    expect(parseDuration('4 hours')).toBe(4 * HOUR);
+    expect(parseDuration('1-2 days')).toBe(48 * HOUR);
+    expect(parseDuration('30m')).toBe(HOUR / 2);
+    expect(parseDuration('until the close')).toBeNull();
+  });
+});
+
+describe('computeBacktestStats', () => {
+  const record = (result: Partial<SetupBacktest>): BacktestRecord => ({
+    run: {} as AnalysisRun,
+    tradeType: 'swing',
+    result: { outcome: 'stop', maxWaitMs: 0, fillTime: START, fillPrice: 100, exitTime: START, exitPrice: 98, targetsHit: 0, r: -1, mae: 1, mfe: 0, waitMs: 0, durationMs: HOUR, ...result },
+  });
+
+  it('summarises closed trades and ignores results that are not numbers', () => {
+    const stats = computeBacktestStats([
+      record({ outcome: 'target', r: 2, mae: 0.5, mfe: 2 }),
+      record({}),
+      record({ r: NaN, mae: NaN }),
+      record({ outcome: 'open', r: 0.5 }),
+      record({ outcome: 'not_filled', fillTime: null, r: null }),
+    ]);
+
+    expect(stats).toMatchObject({ setups: 5, fillRate: 0.8, closed: 3, open: 1, averageR: 0.5, totalR: 1, averageMae: 0.75 });
+    expect(stats.winRate).toBeCloseTo(1 / 3);
+  });
+});
@@ -0,0 +1,228 @@
+// Replay a run's setups over the OHLCV candles that followed it: fill, stop or targets, R and excursions
+import type { AnalysisRun } from "./historyStore";
+import type { Candle } from "./marketData";
+import { TRADE_TYPES, type TradePlan, type TradeSetup, type TradeType } from "./tradePlan";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Used when a setup gives no maximum wait, or one that does not parse as a duration
+export const DEFAULT_MAX_WAIT: Record<TradeType, number> = {
+  swing: 3 * DAY,
+  intraday: 8 * HOUR,
+  scalp: 2 * HOUR,
+};
+
+// 'no_setup': not available, no direction, or levels that do not form a trade
+export type BacktestOutcome = 'no_setup' | 'not_filled' | 'stop' | 'target' | 'open';
+
+export interface SetupBacktest {
+  outcome: BacktestOutcome;
+  maxWaitMs: number;
+  fillTime: number | null;
+  fillPrice: number | null;
+  exitTime: number | null; // Open time of the exit candle; the last candle while the trade is still open
+  exitPrice: number | null; // The last close while the trade is still open
+  targetsHit: number; // Take profits reached before the exit
+  r: number | null; // Result in multiples of the risk from fill to stop; marked to the last close while open
+  mae: number | null; // Maximum adverse excursion, in R
+  mfe: number | null; // Maximum favourable excursion, in R
+  waitMs: number | null; // From the start of the test to the fill
+  durationMs: number | null; // From the fill to the exit
+}
+
+export interface RunBacktest {
+  testedAt: string;
+  source: string; // CSV file name
+  start: number; // Candles opening at or after this time were replayed
+  end: number; // Open time of the last candle
+  setups: Record<TradeType, SetupBacktest>;
+}
+
+const UNIT_MS: [RegExp, number][] = [
+  [/^(m|mins?|minutes?)$/i, MINUTE],
+  [/^(h|hrs?|hours?)$/i, HOUR],
+  [/^(d|days?|sessions?)$/i, DAY],
+  [/^(w|wks?|weeks?)$/i, 7 * DAY],
+];
+
+// "4 hours", "1-2 days", "30m"; ranges take their upper bound
+export function parseDuration(text: string): number | null {
+  const match = text.match(/(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*([a-z]+)/i);
+  if (!match) return null;
+  const unit = UNIT_MS.find(([pattern]) => pattern.test(match[3]))?.[1];
+  return unit ? Number(match[2] ?? match[1]) * unit : null;
+}
+
+export const setupMaxWait = (setup: TradeSetup, type: TradeType) =>
+  (setup.waitCondition && parseDuration(setup.waitCondition.maxWaitTime)) || DEFAULT_MAX_WAIT[type];
+
+const emptyResult = (outcome: BacktestOutcome, maxWaitMs: number): SetupBacktest => ({
+  outcome, maxWaitMs, fillTime: null, fillPrice: null, exitTime: null, exitPrice: null, targetsHit: 0, r: null, mae: null, mfe: null, waitMs: null, durationMs: null,
+});
+
+// An entry fills when a candle trades through it, or at the open when price gaps across it.
+// Within one candle the order of the high and low is unknown, so a candle that reaches both
+// the stop and a target counts as stopped, including the candle the entry filled in.
+// The whole position exits at the stop or at the last of up to two take profits.
+export function simulateSetup(setup: TradeSetup, type: TradeType, candles: Candle[], start: number): SetupBacktest {
+  const maxWaitMs = setupMaxWait(setup, type);
+  const { direction, entry, stopLoss: stop } = setup;
+  const sign = direction === 'long' ? 1 : -1;
+  if (setup.status === 'not_available' || direction === 'none' || entry === null || stop === null || (entry - stop) * sign <= 0) {
+    return emptyResult('no_setup', maxWaitMs);
+  }
+  const targets = setup.takeProfits.map(tp => tp.price).filter(price => (price - entry) * sign > 0).sort((a, b) => (a - b) * sign).slice(0, 2);
+  const replay = candles.filter(candle => candle.time >= start);
+
+  let fillIndex = -1;
+  let fillPrice = entry;
+  for (let i = 0; i < replay.length && replay[i].time <= start + maxWaitMs; i++) {
+    const candle = replay[i];
+    const reference = i > 0 ? replay[i - 1].close : candle.open;
+    if ((reference - entry) * (candle.open - entry) < 0) {
+      fillIndex = i;
+      fillPrice = candle.open;
+      break;
+    }
+    if (candle.low <= entry && candle.high >= entry) {
+      fillIndex = i;
+      break;
+    }
+  }
+  if (fillIndex < 0) return emptyResult('not_filled', maxWaitMs);
+
+  // A gap to or through the stop fills and exits at the open, measured from the planned entry and risk
+  // so it counts as -1R or worse; otherwise the fill is on the right side of the stop and the risk is positive
+  const gappedPastStop = (fillPrice - stop) * sign <= 0;
+  const base = gappedPastStop ? entry : fillPrice;
+  const risk = Math.abs(base - stop);
+  const inR = (price: number) => (price - base) * sign / risk;
+  let mae = gappedPastStop ? -inR(fillPrice) : 0;
+  let mfe = 0;
+  let targetsHit = 0;
+  let outcome: BacktestOutcome = gappedPastStop ? 'stop' : 'open';
+  let exitIndex = gappedPastStop ? fillIndex : replay.length - 1;
+  let exitPrice = gappedPastStop ? fillPrice : replay[exitIndex].close;
+  for (let j = fillIndex; j < replay.length && !gappedPastStop; j++) {
+    const candle = replay[j];
+    const adverse = direction === 'long' ? candle.low : candle.high;
+    const favourable = direction === 'long' ? candle.high : candle.low;
+    if ((adverse - stop) * sign <= 0) {
+      // A gap through the stop exits at the open
+      exitPrice = (candle.open - stop) * sign < 0 && j > fillIndex ? candle.open : stop;
+      mae = Math.max(mae, -inR(exitPrice));
+      outcome = 'stop';
+      exitIndex = j;
+      break;
+    }
+    mae = Math.max(mae, -inR(adverse));
+    while (targetsHit < targets.length && (favourable - targets[targetsHit]) * sign >= 0) targetsHit++;
+    if (targets.length > 0 && targetsHit === targets.length) {
+      exitPrice = targets[targets.length - 1];
+      mfe = Math.max(mfe, inR(exitPrice));
+      outcome = 'target';
+      exitIndex = j;
+      break;
+    }
+    mfe = Math.max(mfe, inR(favourable));
+  }
+
+  const fillTime = replay[fillIndex].time;
+  const exitTime = replay[exitIndex].time;
+  return {
+    outcome,
+    maxWaitMs,
+    fillTime,
+    fillPrice,
+    exitTime,
+    exitPrice,
+    targetsHit,
+    r: inR(exitPrice),
+    mae,
+    mfe,
+    waitMs: fillTime - start,
+    durationMs: exitTime - fillTime,
+  };
+}
+
+export function backtestPlan(plan: TradePlan, candles: Candle[], start: number, source: string): RunBacktest {
+  return {
+    testedAt: new Date().toISOString(),
+    source,
+    start,
+    end: candles[candles.length - 1]?.time ?? start,
+    setups: Object.fromEntries(TRADE_TYPES.map(type => [type, simulateSetup(plan.setups[type], type, candles, start)])) as Record<TradeType, SetupBacktest>,
+  };
+}
+
+// Right after the last candle the analysis saw when it had OHLCV data, otherwise when it ran
+export function defaultBacktestStart(run: AnalysisRun): number {
+  const seen = Object.values(run.marketData ?? {}).flatMap(indicators => indicators ? [indicators.to + 1] : []);
+  return seen.length > 0 ? Math.max(...seen) : Date.parse(run.createdAt);
+}
+
+export interface BacktestRecord {
+  run: AnalysisRun;
+  tradeType: TradeType;
+  result: SetupBacktest;
+}
+
+// Every tested setup of the saved runs
+export function backtestRecords(runs: AnalysisRun[]): BacktestRecord[] {
+  return runs.flatMap(run => run.backtest
+    ? TRADE_TYPES.filter(type => run.backtest!.setups[type].outcome !== 'no_setup').map(tradeType => ({ run, tradeType, result: run.backtest!.setups[tradeType] }))
+    : []);
+}
+
+export interface BacktestStats {
+  setups: number;
+  fillRate: number | null;
+  closed: number; // Filled trades that reached the stop or the last target
+  open: number;
+  winRate: number | null;
+  averageR: number | null;
+  totalR: number;
+  averageMae: number | null;
+  averageMfe: number | null;
+  averageDurationMs: number | null;
+}
+
+const average = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+export function computeBacktestStats(records: BacktestRecord[]): BacktestStats {
+  const results = records.map(record => record.result);
+  const filled = results.filter(result => result.fillTime !== null);
+  const closed = filled.filter(result => result.outcome === 'stop' || result.outcome === 'target');
+  // Results saved before gaps through the stop were handled can hold NaN
+  const rs = closed.map(result => result.r!).filter(Number.isFinite);
+  return {
+    setups: results.length,
+    fillRate: results.length > 0 ? filled.length / results.length : null,
+    closed: closed.length,
+    open: filled.length - closed.length,
+    winRate: closed.length > 0 ? rs.filter(r => r > 0).length / closed.length : null,
+    averageR: average(rs),
+    totalR: rs.reduce((sum, r) => sum + r, 0),
+    averageMae: average(closed.map(result => result.mae!).filter(Number.isFinite)),
+    averageMfe: average(closed.map(result => result.mfe!).filter(Number.isFinite)),
+    averageDurationMs: average(closed.map(result => result.durationMs!)),
+  };
+}
+
+export function groupBacktestStats(records: BacktestRecord[], key: (record: BacktestRecord) => string): [string, BacktestStats][] {
+  const groups = new Map<string, BacktestRecord[]>();
+  for (const record of records) {
+    const name = key(record) || '—';
+    groups.set(name, [...(groups.get(name) ?? []), record]);
+  }
+  return Array.from(groups, ([name, group]) => [name, computeBacktestStats(group)]);
+}
+
+export function formatDuration(ms: number | null): string {
+  if (ms === null) return '—';
+  if (ms < HOUR) return `${Math.round(ms / MINUTE)}m`;
+  if (ms < 2 * DAY) return `${(ms / HOUR).toFixed(1).replace(/\.0$/, '')}h`;
+  return `${(ms / DAY).toFixed(1).replace(/\.0$/, '')}d`;
+}
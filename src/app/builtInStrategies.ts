@@ -0,0 +1,349 @@
+// Strategies shipped with the app; users clone these to make their own
+import type { ContextRule, Strategy } from "./strategies";
+
+const BUILT_IN_DATE = '2025-01-01T00:00:00.000Z';
+
+// Shared instructions for the schema-constrained final trade plan
+const FINAL_PLAN_INSTRUCTIONS = `Provide a comprehensive trading recommendation that covers ALL possible trade types as JSON matching the response schema:
+
+- setups.swing: 2-7 day hold, confirmed on the higher timeframes
+- setups.intraday: same-day hold, confirmed on the middle timeframes
+- setups.scalp: minutes to hours, confirmed on the lowest timeframes
+
+For each setup set status to "available", "wait" or "not_available". Give exact entry, stop loss and at least two take profit prices with their risk:reward ratios whenever a setup is available or waiting. When status is "wait", fill waitCondition with the specific condition, watch level, confirmation signal and maximum wait time; otherwise set it to null.
+
+List three support levels, three resistance levels and the 0.236, 0.382, 0.5, 0.618 and 0.786 Fibonacci levels with prices. Describe the current market state including the RSI reading for each timeframe, the risk management guidelines (maximum risk per trade and correlation, but not position size, which the app calculates) and the recommended immediate, today and this-week actions.
+
+If ALL trades are "not_available", use viabilityConditions to describe the specific conditions that would make each trade type viable and estimated timeframes for when to check again.`;
+
+const finalPrompt = (intro: string) => `${intro}
+{{context}}
+
+${FINAL_PLAN_INSTRUCTIONS}`;
+
+const allSteps: ContextRule[] = [{ from: '4h' }, { from: '1h' }, { from: '15m' }, { from: '5m' }];
+
+// The original cascade: each step sees a short summary of the steps above it
+const cascadeContext: Record<string, ContextRule[]> = {
+  '4h': [],
+  '1h': [{ from: '4h', maxChars: 200 }],
+  '15m': [{ from: '4h', maxChars: 200 }, { from: '1h', maxChars: 200 }],
+  '5m': [{ from: '15m', maxChars: 200 }],
+};
+
+function builtIn(strategy: Pick<Strategy, 'id' | 'name' | 'description' | 'steps' | 'finalPrompt'>): Strategy {
+  return {
+    ...strategy,
+    version: 1,
+    savedAt: BUILT_IN_DATE,
+    finalContext: allSteps,
+    builtIn: true,
+    history: [],
+  };
+}
+
+const fibRsi = builtIn({
+  id: 'fib-rsi',
+  name: 'Fib-RSI Confluence',
+  description: 'Fibonacci retracements confirmed by RSI momentum across a top-down timeframe cascade.',
+  steps: [
+    {
+      timeframe: '4h',
+      context: cascadeContext['4h'],
+      prompt: `Analyze this 4-hour chart using the Fib-RSI Confluence Strategy:
+
+1. Identify the major trend direction (bullish/bearish/neutral)
+2. Note key Fibonacci levels (0.382, 0.5, 0.618, 0.786) visible on the chart
+3. Report the RSI value and whether it's above/below 50
+4. Highlight any significant support/resistance zones
+5. Determine if this chart provides a clear bias for trading
+
+Your analysis should focus on establishing overall market structure and primary trend. Draw Fibonacci retracement on major swings (last 1-2 weeks) and identify longer-term momentum state from RSI (bullish >50, bearish <50).`,
+    },
+    {
+      timeframe: '1h',
+      context: cascadeContext['1h'],
+      prompt: `Analyze this 1-hour chart for BOTH swing and intraday opportunities while considering 4h context:
+
+## SWING TRADE SETUP (2-7 days)
+1. Identify if price is at/approaching significant Fibonacci levels from 4h timeframe
+2. Check if 1h RSI aligns with 4h trend bias for multi-day holds
+3. Look for 1h confluence zones that support 4h structure
+4. Assess if current 1h pattern supports swing trade entries
+
+## INTRADAY TRADE SETUP (Same day)
+1. Identify 1h support/resistance levels for same-day trading
+2. Check for 1h RSI conditions suitable for 4-8 hour moves (RSI 35-65 range)
+3. Look for 1h breakout/breakdown patterns independent of 4h bias
+4. Assess immediate 1h Fibonacci retracements for intraday entries
+5. Identify 1h trend changes that could offer same-day opportunities
+
+## KEY LEVELS IDENTIFICATION
+- List specific support levels with exact prices
+- List specific resistance levels with exact prices
+- Identify 1h Fibonacci levels (0.382, 0.5, 0.618) with prices
+- Note any 1h trend line breaks or formations
+
+4h context: {{analysis.4h}}
+
+Provide clear price levels and distinguish between setups that work for swing trades vs intraday trades. Focus on actionable levels that can be monitored throughout the trading day.`,
+    },
+    {
+      timeframe: '15m',
+      context: cascadeContext['15m'],
+      prompt: `Analyze this 15-minute chart for BOTH intraday and scalp trading opportunities while considering higher timeframe context:
+
+## INTRADAY TRADE ANALYSIS (Same day holds)
+1. Identify clear candlestick patterns at Fibonacci confluence zones suitable for 2-8 hour holds
+2. Check if RSI (30-70 range) confirms momentum for intraday moves
+3. Look for any bearish/bullish divergence on RSI that could signal 4-6 hour reversals
+4. Suggest entry points with stops at nearby support/resistance for same-day exits
+5. Calculate Risk:Reward for same-day targets, quoting distances in {{distanceUnit}}
+
+## SCALP TRADE ANALYSIS (Quick moves)
+1. Identify immediate support/resistance levels for 15-60 minute moves
+2. Check for RSI oversold (<30) or overbought (>70) conditions for quick reversals
+3. Look for breakout patterns that could give moves of one to three recent 15-minute candle ranges
+4. Suggest tight entry zones with stops about one recent 15-minute candle range away
+5. Calculate Risk:Reward for quick targets of one to two 15-minute candle ranges, quoting distances in {{distanceUnit}}
+
+Higher timeframe context:
+4h analysis: {{analysis.4h}}
+1h analysis: {{analysis.1h}}
+
+Provide specific price levels, entry conditions, and time-based exit strategies for both trade types. Focus on actionable setups that can be taken within the next 1-4 hours.`,
+    },
+    {
+      timeframe: '5m',
+      context: cascadeContext['5m'],
+      prompt: `Analyze this 5-minute chart for SCALP TRADING execution with precise entry/exit details:
+
+## IMMEDIATE SCALP OPPORTUNITIES (5-30 minutes)
+1. Identify EXACT entry prices based on current price action and micro support/resistance
+2. Check current RSI reading and identify if it's in scalp-friendly zones (oversold <25, overbought >75)
+3. Look for immediate reversal signals: hammer/doji at support, shooting star/doji at resistance
+4. Provide EXACT stop loss prices (typically about one 5-minute candle range from entry, in {{distanceUnit}})
+5. Provide EXACT take profit targets at nearest resistance/support (typically two to three 5-minute candle ranges)
+6. Describe the SPECIFIC candlestick pattern or price action happening RIGHT NOW
+
+## MICRO TREND ANALYSIS
+- Current 5-minute trend direction
+- Last 3 candles pattern significance
+- Volume confirmation (if visible)
+- Any immediate breakout/breakdown levels
+
+## EXECUTION TIMING
+- Best entry time within next 15-30 minutes
+- Market session consideration (volatility expectations)
+- Any upcoming support/resistance tests
+
+15min context: {{analysis.15m}}
+
+Focus on trades that can be executed IMMEDIATELY with clear 5-15 minute exit strategies. Provide specific price alerts and exact timing for entry execution.`,
+    },
+  ],
+  finalPrompt: finalPrompt('Given the following analyses based on the multi-timeframe Fib-RSI Confluence Strategy:'),
+});
+
+const smcIct = builtIn({
+  id: 'smc-ict',
+  name: 'SMC / ICT Order Blocks',
+  description: 'Smart-money concepts: market structure shifts, order blocks, fair value gaps and liquidity sweeps.',
+  steps: [
+    {
+      timeframe: '4h',
+      context: cascadeContext['4h'],
+      prompt: `Analyze this 4-hour chart using Smart Money Concepts (SMC/ICT):
+
+1. Map the market structure: recent swing highs/lows, breaks of structure (BOS) and any change of character (CHoCH)
+2. Identify the dealing range and whether price is in premium (above 50%) or discount (below 50%)
+3. Mark unmitigated bullish and bearish order blocks with exact price ranges
+4. Mark open fair value gaps (FVGs) with exact price ranges
+5. Locate resting liquidity: equal highs/lows and obvious stop clusters
+
+Conclude with the higher-timeframe draw on liquidity and the directional bias it implies.`,
+    },
+    {
+      timeframe: '1h',
+      context: cascadeContext['1h'],
+      prompt: `Analyze this 1-hour chart with Smart Money Concepts, refining the 4h narrative:
+
+1. Confirm whether 1h structure agrees with the 4h bias or is showing a CHoCH against it
+2. Identify 1h order blocks and FVGs that sit inside the 4h points of interest, with exact prices
+3. Note any liquidity sweep (stop run) of a recent 1h high or low
+4. Describe the swing setup (2-7 days) that would follow a 4h POI being tapped
+5. Describe any intraday setup from a 1h displacement leg and its FVG
+
+4h context: {{analysis.4h}}
+
+List every level with an exact price and state which side of the book is likely to be run next.`,
+    },
+    {
+      timeframe: '15m',
+      context: cascadeContext['15m'],
+      prompt: `Analyze this 15-minute chart for SMC entries inside the higher-timeframe points of interest:
+
+1. Identify whether price has reached a 1h/4h order block or FVG
+2. Look for a 15m liquidity sweep followed by a market structure shift (MSS) with displacement
+3. Mark the 15m FVG or order block created by that displacement as the entry zone, with exact prices
+4. Place the stop beyond the swept high/low and target the opposing liquidity pool
+5. Calculate risk:reward for intraday and scalp targets
+
+Higher timeframe context:
+{{context}}
+
+Be explicit about what has already happened versus what still needs to happen before an entry is valid.`,
+    },
+    {
+      timeframe: '5m',
+      context: cascadeContext['5m'],
+      prompt: `Analyze this 5-minute chart for precise SMC scalp execution:
+
+1. Identify the most recent 5m liquidity sweep and market structure shift
+2. Mark the entry FVG/order block with exact prices
+3. Give the exact stop beyond the sweep and the nearest internal liquidity target
+4. Note the current killzone/session and whether timing favours the setup
+5. State what invalidates the scalp
+
+15min context: {{analysis.15m}}
+
+Only describe setups that can be executed within the next 30 minutes.`,
+    },
+  ],
+  finalPrompt: finalPrompt('Given the following Smart Money Concepts (order block, FVG and liquidity) analyses:'),
+});
+
+const wyckoff = builtIn({
+  id: 'wyckoff',
+  name: 'Wyckoff Method',
+  description: 'Accumulation and distribution schematics, phases and volume-spread analysis.',
+  steps: [
+    {
+      timeframe: '4h',
+      context: cascadeContext['4h'],
+      prompt: `Analyze this 4-hour chart using the Wyckoff Method:
+
+1. Decide whether the market is in accumulation, markup, distribution or markdown
+2. If in a trading range, label the events you can see (PS, SC/BC, AR, ST, Spring/UTAD, SOS/SOW, LPS/LPSY) with prices
+3. Identify the current Wyckoff phase (A-E) and what it implies
+4. Assess volume versus spread: effort vs result, climactic volume, drying-up volume
+5. Mark the trading-range boundaries (creek and ice) with exact prices
+
+Conclude with the composite operator's likely intent and the directional bias.`,
+    },
+    {
+      timeframe: '1h',
+      context: cascadeContext['1h'],
+      prompt: `Analyze this 1-hour chart with the Wyckoff Method, zooming into the 4h structure:
+
+1. Locate the 1h sub-structure inside the 4h range and its events
+2. Identify tests of supply or demand (no-supply / no-demand bars) with prices
+3. Look for a spring, shakeout, upthrust or back-up to the creek/ice
+4. Describe a swing setup from the next expected Wyckoff event
+5. Describe any intraday setup within the current phase
+
+4h context: {{analysis.4h}}
+
+List support and resistance as range boundaries with exact prices.`,
+    },
+    {
+      timeframe: '15m',
+      context: cascadeContext['15m'],
+      prompt: `Analyze this 15-minute chart for Wyckoff-based entries:
+
+1. Identify the 15m reaction at the higher-timeframe event (spring test, LPS, LPSY, UTAD test)
+2. Check volume confirmation: low-volume tests and high-volume signs of strength/weakness
+3. Propose entries at the test with stops beyond the event extreme, giving exact prices
+4. Project targets from range boundaries and point-and-figure style cause where visible
+5. Calculate risk:reward for intraday and scalp trades
+
+Higher timeframe context:
+{{context}}
+
+Distinguish confirmed events from ones still forming.`,
+    },
+    {
+      timeframe: '5m',
+      context: cascadeContext['5m'],
+      prompt: `Analyze this 5-minute chart for Wyckoff scalp execution:
+
+1. Describe the current micro range and the last 3-5 bars' effort vs result
+2. Identify a micro spring/upthrust or a low-volume test suitable for entry, with exact prices
+3. Give the exact stop and the nearest target at the micro range boundary
+4. State what price action would invalidate the setup
+
+15min context: {{analysis.15m}}
+
+Focus on setups executable within the next 30 minutes.`,
+    },
+  ],
+  finalPrompt: finalPrompt('Given the following Wyckoff Method analyses:'),
+});
+
+const maTrend = builtIn({
+  id: 'ma-trend',
+  name: 'Moving-Average Trend Following',
+  description: 'Trend direction from 20/50/200 moving averages with pullback entries to the fast averages.',
+  steps: [
+    {
+      timeframe: '4h',
+      context: cascadeContext['4h'],
+      prompt: `Analyze this 4-hour chart as a moving-average trend follower:
+
+1. Read the 20, 50 and 200 period moving averages (or the closest visible) and their order/stacking
+2. Decide the trend: bullish (price > 20 > 50 > 200), bearish (reverse order) or ranging (tangled averages)
+3. Note the slope of each average and any recent crosses
+4. Give the current value of each average as a dynamic support/resistance price
+5. Identify static support/resistance that coincides with the averages
+
+Conclude whether the 4h trend is strong enough to trade in its direction.`,
+    },
+    {
+      timeframe: '1h',
+      context: cascadeContext['1h'],
+      prompt: `Analyze this 1-hour chart for moving-average pullback opportunities in the 4h trend direction:
+
+1. Check that the 1h averages agree with the 4h trend
+2. Measure how far price is from the 20 and 50 period averages
+3. Identify swing entries on a pullback to the 50 period average and intraday entries at the 20 period average, with exact prices
+4. Note any loss of the 50 period average that would signal a deeper correction
+
+4h context: {{analysis.4h}}
+
+Give exact prices for each average and each proposed level.`,
+    },
+    {
+      timeframe: '15m',
+      context: cascadeContext['15m'],
+      prompt: `Analyze this 15-minute chart to time moving-average pullback entries:
+
+1. Identify whether price is pulling back into the 1h 20/50 averages
+2. Look for a 15m trigger: a close back above/below the 20 period average or a fast/slow cross in trend direction
+3. Propose entries with stops beyond the pullback swing, giving exact prices
+4. Project targets at the prior trend high/low and measured-move extensions
+5. Calculate risk:reward for intraday and scalp targets
+
+Higher timeframe context:
+{{context}}
+
+Only suggest trades in the direction of the higher-timeframe trend.`,
+    },
+    {
+      timeframe: '5m',
+      context: cascadeContext['5m'],
+      prompt: `Analyze this 5-minute chart for trend-following scalp execution:
+
+1. Confirm the 5m averages are stacked in the trade direction
+2. Identify the entry on a touch of the 9 or 20 period average, with exact prices
+3. Give the exact stop beyond the last micro swing and the nearest target
+4. State what would invalidate the scalp (e.g. a close through the 50 period average)
+
+15min context: {{analysis.15m}}
+
+Focus on setups executable within the next 30 minutes.`,
+    },
+  ],
+  finalPrompt: finalPrompt('Given the following moving-average trend-following analyses:'),
+});
+
+export const builtInStrategies: Strategy[] = [fibRsi, smcIct, wyckoff, maTrend];
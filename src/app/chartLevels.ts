@@ -0,0 +1,131 @@
+// Map prices to heights on a chart screenshot and draw the plan's levels over it
+import { SchemaType, type Schema } from "@google/generative-ai";
+import { extractTableLevels } from "./levelValidation";
+import { TRADE_TYPES, formatPrice, tradeTypeLabels, type TradePlan } from "./tradePlan";
+
+// Two points on the price axis, with their height as a fraction of the image (0 = top edge, 1 = bottom edge)
+export interface PriceCalibration {
+  y1: number;
+  price1: number;
+  y2: number;
+  price2: number;
+}
+
+export type LevelKind = 'support' | 'resistance' | 'fibonacci' | 'entry' | 'stopLoss' | 'takeProfit' | 'analysis';
+
+export interface OverlayLevel {
+  kind: LevelKind;
+  label: string;
+  price: number;
+}
+
+export const LEVEL_STYLES: Record<LevelKind, { label: string; color: string; dash: number[] }> = {
+  support: { label: 'Support', color: '#16a34a', dash: [] },
+  resistance: { label: 'Resistance', color: '#dc2626', dash: [] },
+  fibonacci: { label: 'Fibonacci', color: '#9333ea', dash: [6, 4] },
+  entry: { label: 'Entry', color: '#2563eb', dash: [] },
+  stopLoss: { label: 'Stop Loss', color: '#ea580c', dash: [2, 3] },
+  takeProfit: { label: 'Take Profit', color: '#0d9488', dash: [2, 3] },
+  analysis: { label: 'Analysis Levels', color: '#64748b', dash: [4, 4] },
+};
+
+export const isCalibrated = (calibration: Partial<PriceCalibration>): calibration is PriceCalibration =>
+  [calibration.y1, calibration.price1, calibration.y2, calibration.price2].every(value => typeof value === 'number' && Number.isFinite(value))
+  && calibration.y1 !== calibration.y2 && calibration.price1 !== calibration.price2;
+
+// Price axes are linear, so two reference points fix every other price
+export const priceToY = ({ y1, price1, y2, price2 }: PriceCalibration, price: number) =>
+  y1 + (price - price1) * (y2 - y1) / (price2 - price1);
+
+// The final plan's levels, plus the support/resistance rows of one timeframe's analysis table
+export function collectOverlayLevels(plan?: TradePlan, analysis?: string): OverlayLevel[] {
+  const levels: OverlayLevel[] = [];
+  if (plan) {
+    plan.keyLevels.support.forEach(level => levels.push({ kind: 'support', label: `S ${formatPrice(level.price)}`, price: level.price }));
+    plan.keyLevels.resistance.forEach(level => levels.push({ kind: 'resistance', label: `R ${formatPrice(level.price)}`, price: level.price }));
+    plan.keyLevels.fibonacci.forEach(level => levels.push({ kind: 'fibonacci', label: `Fib ${level.ratio} ${formatPrice(level.price)}`, price: level.price }));
+    for (const type of TRADE_TYPES) {
+      const setup = plan.setups[type];
+      if (setup.status === 'not_available') continue;
+      const title = tradeTypeLabels[type].title.replace(' Trade', '');
+      if (setup.entry !== null) levels.push({ kind: 'entry', label: `${title} entry ${formatPrice(setup.entry)}`, price: setup.entry });
+      if (setup.stopLoss !== null) levels.push({ kind: 'stopLoss', label: `${title} SL ${formatPrice(setup.stopLoss)}`, price: setup.stopLoss });
+      setup.takeProfits.forEach((tp, i) => levels.push({ kind: 'takeProfit', label: `${title} TP${i + 1} ${formatPrice(tp.price)}`, price: tp.price }));
+    }
+  }
+  if (analysis) extractTableLevels(analysis).forEach(price => levels.push({ kind: 'analysis', label: formatPrice(price), price }));
+  return levels;
+}
+
+// Draw the chart, then a labelled line per level that falls inside it. Used for both the viewer and the PNG export.
+export function drawOverlay(
+  context: CanvasRenderingContext2D,
+  image: CanvasImageSource,
+  width: number,
+  height: number,
+  calibration: PriceCalibration | null,
+  levels: OverlayLevel[],
+  showLabels: boolean
+) {
+  context.clearRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, height);
+  if (!calibration) return;
+  const fontSize = Math.max(11, Math.round(width / 90));
+  context.font = `${fontSize}px sans-serif`;
+  context.lineWidth = Math.max(1, width / 800);
+  for (const level of levels) {
+    const y = priceToY(calibration, level.price) * height;
+    if (y < 0 || y > height) continue;
+    const style = LEVEL_STYLES[level.kind];
+    context.strokeStyle = style.color;
+    context.setLineDash(style.dash);
+    context.beginPath();
+    context.moveTo(0, y);
+    context.lineTo(width, y);
+    context.stroke();
+    if (!showLabels) continue;
+    const textWidth = context.measureText(level.label).width;
+    context.fillStyle = 'rgba(255, 255, 255, 0.85)';
+    context.fillRect(4, y - fontSize - 2, textWidth + 8, fontSize + 4);
+    context.fillStyle = style.color;
+    context.fillText(level.label, 8, y - 3);
+  }
+  context.setLineDash([]);
+}
+
+export const calibrationPrompt = `Read two labels on this chart's price axis that are far apart vertically. For each, give the price and the vertical position of the label's centre as a fraction of the image height, where 0 is the top edge and 1 is the bottom edge.`;
+
+export const calibrationSchema: Schema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    points: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          price: { type: SchemaType.NUMBER },
+          y: { type: SchemaType.NUMBER, description: 'Fraction of the image height from the top, 0-1' },
+        },
+        required: ['price', 'y'],
+      },
+    },
+  },
+  required: ['points'],
+};
+
+// Uses the two points furthest apart; null when the reply has fewer than two usable points
+export function parseCalibrationReply(reply: string): PriceCalibration | null {
+  try {
+    const data = JSON.parse(reply.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    const points = (Array.isArray(data.points) ? data.points : [])
+      .filter((point: { price?: unknown; y?: unknown }) => typeof point.price === 'number' && typeof point.y === 'number' && point.y >= 0 && point.y <= 1)
+      .sort((a: { y: number }, b: { y: number }) => a.y - b.y);
+    if (points.length < 2) return null;
+    const top = points[0];
+    const bottom = points[points.length - 1];
+    const calibration = { y1: top.y, price1: top.price, y2: bottom.y, price2: bottom.price };
+    return isCalibrated(calibration) ? calibration : null;
+  } catch {
+    return null;
+  }
+}
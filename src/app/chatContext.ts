@@ -0,0 +1,27 @@
+// What a follow-up conversation knows about the run it belongs to
+import type { AnalysisRun } from "./historyStore";
+import { describeInstrument } from "./instrumentProfile";
+import { describeIndicators } from "./marketData";
+import { tradePlanToMarkdown } from "./reportExport";
+import { sortTimeframes, timeframeLabel } from "./timeframes";
+import type { ChatImage } from "./visionProviders";
+
+// Charts attached to the conversation, labelled with their timeframe where known
+export interface ContextImage extends ChatImage {
+  timeframe?: string;
+}
+
+export function buildChatContext(run: AnalysisRun, images: ContextImage[]): string {
+  const sections = [
+    `You are answering follow-up questions from a trader about a completed multi-timeframe chart analysis made with the "${run.strategy.name}" strategy. Answer from the charts and the analysis below; say so when a question cannot be answered from them, and never invent price levels that are not visible on the charts.`,
+    ...(run.instrument ? [describeInstrument(run.instrument)] : []),
+    `The attached charts, in order: ${images.map(image => image.timeframe ? `${timeframeLabel(image.timeframe)} (${image.name})` : image.name).join(', ') || 'none'}.`,
+    ...sortTimeframes(Object.keys(run.analyses)).map(timeframe => {
+      const indicators = run.marketData?.[timeframe];
+      return `## ${timeframeLabel(timeframe)} analysis\n\n${indicators ? `${describeIndicators(timeframe, indicators)}\n\n` : ''}${run.analyses[timeframe]}`;
+    }),
+    ...(run.tradePlan ? [`## Final trade plan\n\n${tradePlanToMarkdown(run.tradePlan)}`] : []),
+    'The trader\'s question follows.',
+  ];
+  return sections.join('\n\n');
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { aggregateAnalyses, aggregatePlans, analysisBias, clusterPrices, settleSamples } from "./consensus";
+import type { TradePlan, TradeSetup } from "./tradePlan";
+
+const noSetup: TradeSetup = { status: 'not_available', direction: 'none', entry: null, stopLoss: null, takeProfits: [], timeframeConfirmation: '', waitCondition: null, notes: '' };
+
+function plan(swing: Partial<TradeSetup>, overrides: Partial<TradePlan> = {}): TradePlan {
+  return {
+    summary: 'EURUSD',
+    setups: { swing: { ...noSetup, ...swing }, intraday: noSetup, scalp: noSetup },
+    keyLevels: { support: [{ price: 1.08, significance: 'Swing low' }], resistance: [{ price: 1.1, significance: 'Swing high' }], fibonacci: [] },
+    marketState: { trend: 'bullish', momentum: 'strong', volatility: 'medium', currentPrice: 1.09, rsi: [] },
+    riskManagement: { maxRiskPerTrade: '1%', correlationCheck: '' },
+    recommendedActions: { immediate: '', today: '', thisWeek: '' },
+    viabilityConditions: '',
+    ...overrides,
+  };
+}
+
+const long = (entry: number, stopLoss: number, target: number): Partial<TradeSetup> =>
+  ({ status: 'available', direction: 'long', entry, stopLoss, takeProfits: [{ price: target, riskReward: null }] });
+
+describe('aggregatePlans', () => {
+  it('takes the median levels of the samples that agree on the direction', () => {
+    const { plan: merged, agreement } = aggregatePlans([
+      plan(long(1.085, 1.08, 1.1)),
+      plan(long(1.086, 1.081, 1.102)),
+      plan({ status: 'available', direction: 'short', entry: 1.095, stopLoss: 1.1, takeProfits: [{ price: 1.08, riskReward: null }] }),
+    ]);
+
+    const swing = merged.setups.swing;
+    expect(swing.direction).toBe('long');
+    expect(swing.entry).toBeCloseTo(1.0855);
+    expect(swing.stopLoss).toBeCloseTo(1.0805);
+    expect(swing.takeProfits.map(tp => tp.price)).toEqual([expect.closeTo(1.101)]);
+    expect(agreement.samples).toBe(3);
+    expect(agreement.setups.swing.direction).toBeCloseTo(2 / 3);
+    expect(agreement.setups.swing.entry).toBeCloseTo(2 / 3);
+    expect(agreement.setups.scalp.status).toBe(1);
+  });
+
+  it('clusters key levels and votes on the market state', () => {
+    const { plan: merged, agreement } = aggregatePlans([
+      plan(noSetup),
+      plan(noSetup, { keyLevels: { support: [{ price: 1.0805, significance: '' }], resistance: [{ price: 1.12, significance: '' }], fibonacci: [] } }),
+      plan(noSetup, { marketState: { trend: 'bearish', momentum: 'weak', volatility: 'high', currentPrice: 1.1, rsi: [] } }),
+    ]);
+
+    expect(merged.keyLevels.support).toEqual([{ price: 1.08, significance: 'Swing low' }]);
+    expect(agreement.support).toEqual([1]);
+    expect(merged.keyLevels.resistance[0].price).toBe(1.1);
+    expect(agreement.resistance[0]).toBeCloseTo(2 / 3);
+    expect(merged.marketState.trend).toBe('bullish');
+    expect(agreement.trend).toBeCloseTo(2 / 3);
+    expect(merged.marketState.currentPrice).toBe(1.09);
+  });
+});
+
+describe('clusterPrices', () => {
+  it('groups nearby prices around their median', () => {
+    const clusters = clusterPrices([
+      { price: 1.1, sample: 0 },
+      { price: 1.0801, sample: 1 },
+      { price: 1.08, sample: 0 },
+      { price: 1.0802, sample: 2 },
+    ]);
+
+    expect(clusters.map(cluster => cluster.price)).toEqual([1.0801, 1.1]);
+    expect(clusters[0].members).toHaveLength(3);
+  });
+});
+
+describe('analysisBias', () => {
+  it('counts bullish and bearish calls', () => {
+    expect(analysisBias('Bullish above 1.08, bullish structure, bearish RSI divergence')).toBe('bullish');
+    expect(analysisBias('Bearish below 1.08')).toBe('bearish');
+    expect(analysisBias('Ranging between levels')).toBe('neutral');
+  });
+});
+
+describe('aggregateAnalyses', () => {
+  it('keeps the sample most in line with the others and summarises the agreement', () => {
+    const table = (price: number) => `| Support | ${price} | Swing low |`;
+    const merged = aggregateAnalyses([
+      `Bearish.\n${table(1.05)}`,
+      `Bullish.\n${table(1.08)}`,
+      `Bullish trend.\n${table(1.0801)}`,
+    ]);
+
+    expect(merged.startsWith('Bullish.')).toBe(true);
+    expect(merged).toContain('**Consensus of 3 samples:** bullish bias (67% agree).');
+  });
+});
+
+describe('settleSamples', () => {
+  it('drops failed samples', async () => {
+    await expect(settleSamples([Promise.resolve(1), Promise.reject(new Error('429')), Promise.resolve(3)])).resolves.toEqual([1, 3]);
+  });
+
+  it('fails with the first error when every sample failed', async () => {
+    await expect(settleSamples([Promise.reject(new Error('429')), Promise.reject(new Error('500'))])).rejects.toThrow('429');
+  });
+});
@@ -0,0 +1,200 @@
+// Aggregate several answers to the same step into one, scoring how far the samples agree
+import { extractTableLevels } from "./levelValidation";
+import { TRADE_TYPES, formatPrice, type PriceLevel, type TradePlan, type TradeSetup, type TradeType } from "./tradePlan";
+
+const CLUSTER_TOLERANCE = 0.0015; // Prices within 0.15% of each other count as the same level
+
+// Below this agreement a field or setup is flagged as low confidence
+export const LOW_AGREEMENT = 0.6;
+
+// Agreement of each aggregated field, as the fraction of samples (0-1) that support it
+export interface SetupAgreement {
+  status: number;
+  direction: number;
+  entry: number;
+  stopLoss: number;
+  takeProfits: number[];
+}
+
+export interface PlanAgreement {
+  samples: number;
+  setups: Record<TradeType, SetupAgreement>;
+  trend: number;
+  support: number[]; // Per aggregated level, in the plan's order
+  resistance: number[];
+}
+
+export const setupConfidence = (agreement: SetupAgreement) =>
+  Math.min(agreement.status, agreement.direction, agreement.entry, agreement.stopLoss);
+
+// Settle every sample; the step fails only when none of them succeeded
+export async function settleSamples<T>(runs: Promise<T>[]): Promise<T[]> {
+  const results = await Promise.allSettled(runs);
+  const fulfilled = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+  if (fulfilled.length === 0) throw (results[0] as PromiseRejectedResult).reason;
+  return fulfilled;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const near = (a: number, b: number) => Math.abs(a - b) <= Math.abs(b) * CLUSTER_TOLERANCE;
+
+// Most common value and the share of votes it got; ties go to the earliest sample's answer
+function majority<T>(values: T[]): { value: T; agreement: number } {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  let best = values[0];
+  counts.forEach((count, value) => {
+    if (count > counts.get(best)!) best = value;
+  });
+  return { value: best, agreement: counts.get(best)! / values.length };
+}
+
+// Share of samples with a price near the reference
+const priceAgreement = (prices: (number | null)[], reference: number | null, samples: number) =>
+  reference === null ? prices.filter(price => price === null).length / samples
+    : prices.filter(price => price !== null && near(price, reference)).length / samples;
+
+interface Cluster {
+  price: number; // Median of its members
+  members: { price: number; sample: number }[];
+}
+
+// Single-linkage clusters of nearby prices; each sample counts at most once per cluster
+export function clusterPrices(prices: { price: number; sample: number }[]): Cluster[] {
+  const sorted = [...prices].sort((a, b) => a.price - b.price);
+  const clusters: Cluster[] = [];
+  for (const entry of sorted) {
+    const last = clusters[clusters.length - 1];
+    if (last && near(entry.price, last.members[last.members.length - 1].price)) last.members.push(entry);
+    else clusters.push({ price: entry.price, members: [entry] });
+  }
+  clusters.forEach(cluster => { cluster.price = median(cluster.members.map(member => member.price)); });
+  return clusters;
+}
+
+const support = (cluster: Cluster, samples: number) => new Set(cluster.members.map(member => member.sample)).size / samples;
+
+function aggregateSetup(setups: TradeSetup[]): { setup: TradeSetup; agreement: SetupAgreement } {
+  const samples = setups.length;
+  const status = majority(setups.map(setup => setup.status));
+  const direction = majority(setups.map(setup => setup.direction));
+  // Levels come from the samples that agree on the direction, so longs and shorts are never averaged together
+  const agreeing = setups.filter(setup => setup.direction === direction.value);
+  const levelOf = (values: (number | null)[]) => {
+    const present = values.filter((value): value is number => value !== null);
+    return present.length > 0 ? median(present) : null;
+  };
+  const entry = levelOf(agreeing.map(setup => setup.entry));
+  const stopLoss = levelOf(agreeing.map(setup => setup.stopLoss));
+  const targetCount = Math.round(median(agreeing.map(setup => setup.takeProfits.length)));
+  const takeProfits = Array.from({ length: targetCount }, (_, i) => {
+    const prices = agreeing.flatMap(setup => setup.takeProfits[i] ? [setup.takeProfits[i].price] : []);
+    const ratios = agreeing.flatMap(setup => setup.takeProfits[i]?.riskReward != null ? [setup.takeProfits[i].riskReward!] : []);
+    return { price: median(prices), riskReward: ratios.length > 0 ? median(ratios) : null };
+  });
+  // Text fields come from the first sample that matches the majority
+  const representative = agreeing.find(setup => setup.status === status.value) ?? agreeing[0];
+  return {
+    setup: { ...representative, status: status.value, direction: direction.value, entry, stopLoss, takeProfits },
+    agreement: {
+      status: status.agreement,
+      direction: direction.agreement,
+      entry: priceAgreement(setups.map(setup => setup.entry), entry, samples),
+      stopLoss: priceAgreement(setups.map(setup => setup.stopLoss), stopLoss, samples),
+      takeProfits: takeProfits.map((tp, i) => setups.filter(setup => setup.takeProfits[i] && near(setup.takeProfits[i].price, tp.price)).length / samples),
+    },
+  };
+}
+
+// Clustered key levels, best supported first, keeping as many as a typical sample lists
+function aggregateLevels(lists: PriceLevel[][]): { levels: PriceLevel[]; agreement: number[] } {
+  const samples = lists.length;
+  const keep = Math.round(median(lists.map(list => list.length)));
+  const clusters = clusterPrices(lists.flatMap((list, sample) => list.map(level => ({ price: level.price, sample }))))
+    .sort((a, b) => support(b, samples) - support(a, samples))
+    .slice(0, keep);
+  return {
+    levels: clusters.map(cluster => {
+      const first = cluster.members[0];
+      const significance = lists[first.sample].find(level => level.price === first.price)?.significance ?? '';
+      return { price: cluster.price, significance };
+    }),
+    agreement: clusters.map(cluster => support(cluster, samples)),
+  };
+}
+
+export function aggregatePlans(plans: TradePlan[]): { plan: TradePlan; agreement: PlanAgreement } {
+  const [first] = plans;
+  const setups = Object.fromEntries(TRADE_TYPES.map(type => [type, aggregateSetup(plans.map(plan => plan.setups[type]))])) as Record<TradeType, ReturnType<typeof aggregateSetup>>;
+  const supportLevels = aggregateLevels(plans.map(plan => plan.keyLevels.support));
+  const resistanceLevels = aggregateLevels(plans.map(plan => plan.keyLevels.resistance));
+  const ratios = Array.from(new Set(plans.flatMap(plan => plan.keyLevels.fibonacci.map(level => level.ratio)))).sort((a, b) => a - b);
+  const trend = majority(plans.map(plan => plan.marketState.trend));
+  const prices = plans.flatMap(plan => plan.marketState.currentPrice !== null ? [plan.marketState.currentPrice] : []);
+  const rsiTimeframes = Array.from(new Set(plans.flatMap(plan => plan.marketState.rsi.map(reading => reading.timeframe))));
+
+  const plan: TradePlan = {
+    ...first,
+    setups: Object.fromEntries(TRADE_TYPES.map(type => [type, setups[type].setup])) as Record<TradeType, TradeSetup>,
+    keyLevels: {
+      support: supportLevels.levels,
+      resistance: resistanceLevels.levels,
+      fibonacci: ratios.map(ratio => ({ ratio, price: median(plans.flatMap(plan => plan.keyLevels.fibonacci.filter(level => level.ratio === ratio).map(level => level.price))) })),
+    },
+    marketState: {
+      trend: trend.value,
+      momentum: majority(plans.map(plan => plan.marketState.momentum)).value,
+      volatility: majority(plans.map(plan => plan.marketState.volatility)).value,
+      currentPrice: prices.length > 0 ? median(prices) : null,
+      rsi: rsiTimeframes.map(timeframe => {
+        const values = plans.flatMap(plan => plan.marketState.rsi.filter(reading => reading.timeframe === timeframe && reading.value !== null).map(reading => reading.value!));
+        return { timeframe, value: values.length > 0 ? Math.round(median(values) * 10) / 10 : null };
+      }),
+    },
+  };
+  return {
+    plan,
+    agreement: {
+      samples: plans.length,
+      setups: Object.fromEntries(TRADE_TYPES.map(type => [type, setups[type].agreement])) as Record<TradeType, SetupAgreement>,
+      trend: trend.agreement,
+      support: supportLevels.agreement,
+      resistance: resistanceLevels.agreement,
+    },
+  };
+}
+
+export type Bias = 'bullish' | 'bearish' | 'neutral';
+
+// Overall lean of a free-text analysis, from how often it calls the market bullish or bearish
+export function analysisBias(text: string): Bias {
+  const bullish = (text.match(/\bbullish\b/gi) ?? []).length;
+  const bearish = (text.match(/\bbearish\b/gi) ?? []).length;
+  return bullish > bearish ? 'bullish' : bearish > bullish ? 'bearish' : 'neutral';
+}
+
+const percent = (agreement: number) => `${Math.round(agreement * 100)}%`;
+
+// Free-text analyses cannot be averaged: keep the sample most in line with the others and append a consensus summary
+export function aggregateAnalyses(texts: string[]): string {
+  const samples = texts.length;
+  const biases = texts.map(analysisBias);
+  const bias = majority(biases);
+  const clusters = clusterPrices(texts.flatMap((text, sample) => extractTableLevels(text).map(price => ({ price, sample }))))
+    .filter(cluster => support(cluster, samples) > 0.5);
+  // Score each sample by bias match plus how many agreed levels it mentions
+  const scores = texts.map((text, sample) =>
+    (biases[sample] === bias.value ? 1 : 0) + clusters.filter(cluster => cluster.members.some(member => member.sample === sample)).length / Math.max(clusters.length, 1));
+  const best = scores.indexOf(Math.max(...scores));
+  const levels = clusters.map(cluster => `${formatPrice(cluster.price)} (${percent(support(cluster, samples))})`).join(', ') || 'none agreed';
+  return `${texts[best]}
+
+---
+
+**Consensus of ${samples} samples:** ${bias.value} bias (${percent(bias.agreement)} agree). Agreed levels: ${levels}.`;
+}
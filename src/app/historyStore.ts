@@ -0,0 +1,84 @@
+// Completed analysis runs saved locally in IndexedDB
+import { v4 as uuidv4 } from 'uuid';
+import { clear, getAll, put, remove } from "./idb";
+import type { RunBacktest } from "./backtest";
+import type { PlanAgreement } from "./consensus";
+import type { InstrumentProfile } from "./instrumentProfile";
+import type { MarketDataByTimeframe } from "./marketData";
+import type { TradePlan } from "./tradePlan";
+import type { ChatMessage } from "./visionProviders";
+
+const THUMBNAIL_SIZE = 160; // Longest edge in pixels
+
+export interface RunImage {
+  name: string;
+  timeframe?: string;
+  thumbnail: string; // JPEG data URL
+}
+
+export interface AnalysisRun {
+  id: string;
+  createdAt: string;
+  symbol: string;
+  instrument?: InstrumentProfile; // Absent on runs saved before instrument profiles
+  strategy: { id: string; name: string; version: number };
+  ladder: string[];
+  models: Record<string, string>; // Step id -> model description
+  images: RunImage[];
+  analyses: Record<string, string>; // Ladder timeframe id -> analysis
+  marketData?: MarketDataByTimeframe; // Values computed from OHLCV uploads, shown as ground truth
+  tradePlan?: TradePlan;
+  agreement?: PlanAgreement; // Only on consensus runs
+  chat?: ChatMessage[]; // Follow-up questions and answers, oldest first
+  backtest?: RunBacktest; // Latest replay of the setups over later OHLCV data
+}
+
+// Downscale an image to a small JPEG data URL for the history list
+export async function createThumbnail(file: File): Promise<string> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', 0.7);
+}
+
+export function createRun(run: Omit<AnalysisRun, 'id' | 'createdAt'>): AnalysisRun {
+  return { ...run, id: uuidv4(), createdAt: new Date().toISOString() };
+}
+
+export function saveRun(run: AnalysisRun): Promise<void> {
+  return put('runs', run);
+}
+
+export async function listRuns(): Promise<AnalysisRun[]> {
+  const runs = await getAll<AnalysisRun>('runs');
+  return runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function deleteRuns(ids: string[]): Promise<void> {
+  return remove('runs', ids);
+}
+
+export function clearRuns(): Promise<void> {
+  return clear('runs');
+}
+
+// Calendar day in local time (YYYY-MM-DD), as the date inputs and the listed timestamps show it
+const localDay = (iso: string) => {
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Match on symbol or strategy name, limited to an optional inclusive date range (YYYY-MM-DD)
+export function filterRuns(runs: AnalysisRun[], query: string, from?: string, to?: string): AnalysisRun[] {
+  const needle = query.trim().toLowerCase();
+  return runs.filter(run => {
+    const day = localDay(run.createdAt);
+    if (from && day < from) return false;
+    if (to && day > to) return false;
+    return !needle || run.symbol.toLowerCase().includes(needle) || run.strategy.name.toLowerCase().includes(needle);
+  });
+}
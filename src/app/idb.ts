@@ -0,0 +1,83 @@
+// Minimal promise wrapper around the app's IndexedDB database
+const DB_NAME = 'trading-guide';
+
+// One entry per schema version; each upgrade runs the migrations the stored database has not seen yet
+const migrations: ((db: IDBDatabase) => void)[] = [
+  db => {
+    const runs = db.createObjectStore('runs', { keyPath: 'id' });
+    runs.createIndex('createdAt', 'createdAt');
+  },
+  db => {
+    const journal = db.createObjectStore('journal', { keyPath: 'id' });
+    journal.createIndex('runId', 'runId');
+  },
+  db => {
+    const responses = db.createObjectStore('responses', { keyPath: 'key' });
+    responses.createIndex('lastUsedAt', 'lastUsedAt');
+  },
+];
+
+export type StoreName = 'runs' | 'journal' | 'responses';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!isIndexedDbAvailable()) return Promise.reject(new Error('IndexedDB is not available in this environment.'));
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, migrations.length);
+    request.onupgradeneeded = event => {
+      for (let version = event.oldVersion; version < migrations.length; version++) {
+        migrations[version](request.result);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(storeName: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return requestToPromise(run(db.transaction(storeName, mode).objectStore(storeName)));
+}
+
+export function getAll<T>(storeName: StoreName): Promise<T[]> {
+  return withStore(storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+}
+
+export function get<T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withStore(storeName, 'readonly', store => store.get(key) as IDBRequest<T | undefined>);
+}
+
+export async function put<T>(storeName: StoreName, value: T): Promise<void> {
+  await withStore(storeName, 'readwrite', store => store.put(value));
+}
+
+export async function remove(storeName: StoreName, keys: string[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, 'readwrite');
+  const store = transaction.objectStore(storeName);
+  for (const key of keys) store.delete(key);
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function clear(storeName: StoreName): Promise<void> {
+  await withStore(storeName, 'readwrite', store => store.clear());
+}
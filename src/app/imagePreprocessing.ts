@@ -0,0 +1,100 @@
+// Crop, downscale and re-encode chart screenshots in the browser before they are sent to a model
+const STORAGE_KEY = 'trading-guide:image-settings';
+
+export type OutputFormat = 'image/webp' | 'image/jpeg' | 'original';
+
+export interface PreprocessSettings {
+  maxDimension: number; // Longest edge in pixels; 0 keeps the original size
+  format: OutputFormat;
+  quality: number; // 0-1, for WebP and JPEG
+}
+
+export const defaultPreprocessSettings: PreprocessSettings = { maxDimension: 1600, format: 'image/webp', quality: 0.85 };
+
+export const MAX_DIMENSION_OPTIONS = [1024, 1600, 2048, 0];
+
+// Crop rectangle as fractions (0-1) of the original image, so it survives changes to the output size
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedImage {
+  file: File;
+  width: number;
+  height: number;
+}
+
+export function loadPreprocessSettings(): PreprocessSettings {
+  if (typeof window === 'undefined') return defaultPreprocessSettings;
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...defaultPreprocessSettings, ...JSON.parse(stored) } : defaultPreprocessSettings;
+  } catch {
+    return defaultPreprocessSettings;
+  }
+}
+
+export function savePreprocessSettings(settings: PreprocessSettings) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+const extensions: Record<string, string> = { 'image/webp': 'webp', 'image/jpeg': 'jpg', 'image/png': 'png' };
+
+function toBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('The image could not be encoded.')), type, quality));
+}
+
+// Returns the original file untouched when nothing would change, or when re-encoding alone would make it bigger
+export async function preprocessImage(original: File, settings: PreprocessSettings, crop?: CropRect): Promise<ProcessedImage> {
+  const bitmap = await createImageBitmap(original);
+  try {
+    const source = crop
+      ? { x: crop.x * bitmap.width, y: crop.y * bitmap.height, width: crop.width * bitmap.width, height: crop.height * bitmap.height }
+      : { x: 0, y: 0, width: bitmap.width, height: bitmap.height };
+    const longest = Math.max(source.width, source.height);
+    const scale = settings.maxDimension > 0 ? Math.min(1, settings.maxDimension / longest) : 1;
+    const width = Math.max(1, Math.round(source.width * scale));
+    const height = Math.max(1, Math.round(source.height * scale));
+    const reshaped = crop !== undefined || scale < 1;
+    if (!reshaped && settings.format === 'original') return { file: original, width, height };
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d')!;
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, source.x, source.y, source.width, source.height, 0, 0, width, height);
+
+    // Browsers without a WebP encoder fall back to PNG, which is rarely smaller; use JPEG instead
+    let type = settings.format === 'original' ? original.type : settings.format;
+    let blob = await toBlob(canvas, type, settings.quality);
+    if (blob.type !== type) {
+      type = 'image/jpeg';
+      blob = await toBlob(canvas, type, settings.quality);
+    }
+    if (!reshaped && blob.size >= original.size) return { file: original, width, height };
+
+    const stem = original.name.replace(/\.[a-z0-9]+$/i, '');
+    const name = `${stem}.${extensions[blob.type] ?? 'img'}`;
+    return { file: new File([blob], name, { type: blob.type, lastModified: Date.now() }), width, height };
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Image files from a paste or drop. Pasted screenshots are all called "image.png", so they get unique names.
+export function imageFilesFrom(data: DataTransfer | null): File[] {
+  if (!data) return [];
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  return Array.from(data.files)
+    .filter(file => file.type.startsWith('image/'))
+    .map((file, i) => file.name === 'image.png' || !file.name
+      ? new File([file], `pasted-${stamp}-${i + 1}.${extensions[file.type] ?? 'png'}`, { type: file.type })
+      : file);
+}
+
+export const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
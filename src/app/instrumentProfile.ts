@@ -0,0 +1,126 @@
+// The traded instrument: what it is, roughly where it trades and how distances on it are quoted
+import { SchemaType, type Schema } from "@google/generative-ai";
+import { INSTRUMENT_PRESETS, type InstrumentType, type RiskSettings } from "./positionSizing";
+
+export type AssetClass = InstrumentType;
+
+export type DistanceUnit = 'pips' | 'ticks' | 'points' | 'percent';
+
+export interface InstrumentProfile {
+  symbol: string;
+  assetClass: AssetClass;
+  price: number | null; // Last price on the chart
+  tickSize: number; // Pip size for forex, the minimum price increment otherwise
+}
+
+export const ASSET_CLASSES: AssetClass[] = ['forex', 'stock', 'crypto', 'futures'];
+
+export const DISTANCE_UNITS: Record<AssetClass, DistanceUnit> = {
+  forex: 'pips',
+  stock: 'points',
+  crypto: 'percent',
+  futures: 'ticks',
+};
+
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'AUD', 'NZD', 'CAD', 'SEK', 'NOK', 'DKK', 'SGD', 'HKD', 'MXN', 'ZAR', 'TRY', 'PLN'];
+const CRYPTO_BASES = /^(BTC|ETH|SOL|XRP|ADA|DOGE|BNB|LTC|DOT|AVAX|LINK|MATIC|TRX)/;
+const CRYPTO_QUOTES = /(USDT|USDC|BUSD|PERP)$/;
+// Futures roots with their tick sizes, optionally followed by a contract month ("ESZ4") or TradingView's continuous suffix ("ES1!")
+const FUTURES_TICKS: Record<string, number> = { ES: 0.25, MES: 0.25, NQ: 0.25, MNQ: 0.25, YM: 1, MYM: 1, RTY: 0.1, M2K: 0.1, CL: 0.01, MCL: 0.01, GC: 0.1, MGC: 0.1, SI: 0.005, NG: 0.001 };
+
+const bareSymbol = (symbol: string) => symbol.trim().toUpperCase().replace(/^.*:/, '');
+
+const futuresRoot = (bare: string) => {
+  const root = bare.match(/^([A-Z0-9]+?)(?:[FGHJKMNQUVXZ]\d{1,2}|\d!)?$/)?.[1];
+  return root && FUTURES_TICKS[root] ? root : undefined;
+};
+
+export function guessAssetClass(symbol: string): AssetClass {
+  const bare = bareSymbol(symbol);
+  if (futuresRoot(bare)) return 'futures';
+  if (CRYPTO_QUOTES.test(bare) || CRYPTO_BASES.test(bare)) return 'crypto';
+  const pair = bare.replace('/', '');
+  if (pair.length === 6 && CURRENCIES.includes(pair.slice(0, 3)) && CURRENCIES.includes(pair.slice(3))) return 'forex';
+  return 'stock';
+}
+
+export function defaultTickSize(assetClass: AssetClass, symbol: string): number {
+  const bare = bareSymbol(symbol);
+  if (assetClass === 'forex') return bare.includes('JPY') ? 0.01 : INSTRUMENT_PRESETS.forex.tickSize;
+  const root = futuresRoot(bare);
+  if (assetClass === 'futures' && root) return FUTURES_TICKS[root];
+  return INSTRUMENT_PRESETS[assetClass].tickSize;
+}
+
+export function profileFromSymbol(symbol: string, price: number | null = null): InstrumentProfile {
+  const assetClass = guessAssetClass(symbol);
+  return { symbol: symbol.trim().toUpperCase(), assetClass, price, tickSize: defaultTickSize(assetClass, symbol) };
+}
+
+// Distance between two prices in the instrument's own unit, e.g. "25.0 pips", "8 ticks" or "1.85%"
+export function formatDistance(profile: InstrumentProfile, from: number, to: number): string {
+  const distance = Math.abs(to - from);
+  switch (DISTANCE_UNITS[profile.assetClass]) {
+    case 'pips': return `${(distance / profile.tickSize).toFixed(1)} pips`;
+    case 'ticks': return `${Math.round(distance / profile.tickSize)} ticks`;
+    case 'points': return `${distance.toFixed(2)} points`;
+    case 'percent': return from === 0 ? '—' : `${(distance / Math.abs(from) * 100).toFixed(2)}%`;
+  }
+}
+
+const unitDescriptions: Record<DistanceUnit, (tickSize: number) => string> = {
+  pips: tickSize => `pips (1 pip = ${tickSize})`,
+  ticks: tickSize => `ticks (1 tick = ${tickSize})`,
+  points: () => 'points (whole price units)',
+  percent: () => 'percent of price',
+};
+
+// Filled into {{distanceUnit}}; without a profile the model picks whatever fits the chart
+export const distanceUnitText = (profile?: InstrumentProfile) =>
+  profile ? unitDescriptions[DISTANCE_UNITS[profile.assetClass]](profile.tickSize) : 'pips, ticks, points or percent as suits the instrument';
+
+// Filled into {{instrument}}, and put in front of prompts that do not use it
+export function describeInstrument(profile: InstrumentProfile): string {
+  const name = profile.symbol || 'The charted instrument';
+  const price = profile.price !== null ? `, last traded around ${profile.price}` : '';
+  return `Instrument: ${name} (${profile.assetClass}${price}). Quote every price distance (stops, targets, ranges) in ${distanceUnitText(profile)}, and give prices to the chart's precision (minimum increment ${profile.tickSize}).`;
+}
+
+export const instrumentPrompt = `Identify the instrument shown in this trading chart: the symbol as printed on the chart, its asset class (forex, stock, crypto, or futures including index futures), the last price on the price axis and the minimum price increment (the pip size for forex).`;
+
+export const instrumentSchema: Schema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    symbol: { type: SchemaType.STRING },
+    assetClass: { type: SchemaType.STRING, format: 'enum', enum: ASSET_CLASSES },
+    price: { type: SchemaType.NUMBER, description: 'Last price shown on the chart' },
+    tickSize: { type: SchemaType.NUMBER, description: 'Minimum price increment, or pip size for forex' },
+  },
+  required: ['symbol', 'assetClass', 'price'],
+};
+
+// Fills gaps in the model's answer from the symbol; null when the reply names no instrument at all
+export function parseInstrumentReply(reply: string): InstrumentProfile | null {
+  try {
+    const data = JSON.parse(reply.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    const symbol = typeof data.symbol === 'string' ? data.symbol.trim().toUpperCase() : '';
+    if (!symbol) return null;
+    const assetClass: AssetClass = ASSET_CLASSES.includes(data.assetClass) ? data.assetClass : guessAssetClass(symbol);
+    return {
+      symbol,
+      assetClass,
+      price: typeof data.price === 'number' && data.price > 0 ? data.price : null,
+      tickSize: typeof data.tickSize === 'number' && data.tickSize > 0 ? data.tickSize : defaultTickSize(assetClass, symbol),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Account settings switched to the instrument; a share or coin moves by exactly one tick per tick
+export function riskSettingsForInstrument(settings: RiskSettings, profile: InstrumentProfile): RiskSettings {
+  const { assetClass, tickSize } = profile;
+  const tickValue = assetClass === 'stock' || assetClass === 'crypto' ? tickSize
+    : settings.instrument === assetClass ? settings.tickValue : INSTRUMENT_PRESETS[assetClass].tickValue;
+  return { ...settings, instrument: assetClass, tickSize, tickValue };
+}
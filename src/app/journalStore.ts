@@ -0,0 +1,106 @@
+// Trade journal: what was done with each recommended setup, and how it turned out
+import { v4 as uuidv4 } from 'uuid';
+import { getAll, put, remove } from "./idb";
+import type { AnalysisRun } from "./historyStore";
+import type { TradeDirection, TradeType } from "./tradePlan";
+
+export type JournalDecision = 'taken' | 'skipped';
+
+export interface JournalEntry {
+  id: string;
+  createdAt: string;
+  runId: string;
+  symbol: string;
+  strategy: { id: string; name: string; version: number };
+  tradeType: TradeType;
+  timeframe: string; // The setup's timeframe confirmation, e.g. "4H-1H"
+  direction: TradeDirection;
+  planned: { entry: number | null; stopLoss: number | null; takeProfits: number[] };
+  decision: JournalDecision;
+  fill: number | null;
+  exit: number | null;
+  pnl: number | null; // Account currency, as reported by the broker
+  notes: string;
+}
+
+export interface JournalStats {
+  taken: number;
+  skipped: number;
+  closed: number; // Taken trades with a known result
+  winRate: number | null;
+  averageR: number | null;
+  expectancy: number | null; // Average P&L per closed trade
+  totalPnl: number;
+}
+
+export function createJournalEntry(run: AnalysisRun, tradeType: TradeType, decision: JournalDecision): JournalEntry {
+  const setup = run.tradePlan!.setups[tradeType];
+  return {
+    id: uuidv4(),
+    createdAt: new Date().toISOString(),
+    runId: run.id,
+    symbol: run.symbol,
+    strategy: run.strategy,
+    tradeType,
+    timeframe: setup.timeframeConfirmation,
+    direction: setup.direction,
+    planned: { entry: setup.entry, stopLoss: setup.stopLoss, takeProfits: setup.takeProfits.map(tp => tp.price) },
+    decision,
+    fill: decision === 'taken' ? setup.entry : null,
+    exit: null,
+    pnl: null,
+    notes: '',
+  };
+}
+
+export function saveJournalEntry(entry: JournalEntry): Promise<void> {
+  return put('journal', entry);
+}
+
+export async function listJournalEntries(): Promise<JournalEntry[]> {
+  const entries = await getAll<JournalEntry>('journal');
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function deleteJournalEntry(id: string): Promise<void> {
+  return remove('journal', [id]);
+}
+
+// Result in multiples of the planned risk (fill to planned stop)
+export function rMultiple(entry: JournalEntry): number | null {
+  const { fill, exit, direction } = entry;
+  const stop = entry.planned.stopLoss;
+  if (entry.decision !== 'taken' || fill === null || exit === null || stop === null || fill === stop || direction === 'none') return null;
+  const sign = direction === 'long' ? 1 : -1;
+  return (exit - fill) * sign / Math.abs(fill - stop);
+}
+
+const isClosed = (entry: JournalEntry) => entry.decision === 'taken' && (entry.pnl !== null || rMultiple(entry) !== null);
+
+// P&L decides a win when recorded, otherwise the R multiple
+const isWin = (entry: JournalEntry) => entry.pnl !== null ? entry.pnl > 0 : (rMultiple(entry) ?? 0) > 0;
+
+const average = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+export function computeJournalStats(entries: JournalEntry[]): JournalStats {
+  const closed = entries.filter(isClosed);
+  const pnls = closed.flatMap(entry => entry.pnl !== null ? [entry.pnl] : []);
+  return {
+    taken: entries.filter(entry => entry.decision === 'taken').length,
+    skipped: entries.filter(entry => entry.decision === 'skipped').length,
+    closed: closed.length,
+    winRate: closed.length > 0 ? closed.filter(isWin).length / closed.length : null,
+    averageR: average(closed.flatMap(entry => rMultiple(entry) ?? [])),
+    expectancy: average(pnls),
+    totalPnl: pnls.reduce((sum, pnl) => sum + pnl, 0),
+  };
+}
+
+export function groupJournalStats(entries: JournalEntry[], key: (entry: JournalEntry) => string): [string, JournalStats][] {
+  const groups = new Map<string, JournalEntry[]>();
+  for (const entry of entries) {
+    const name = key(entry) || '—';
+    groups.set(name, [...(groups.get(name) ?? []), entry]);
+  }
+  return Array.from(groups, ([name, group]) => [name, computeJournalStats(group)]);
+}
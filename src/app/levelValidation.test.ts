@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { extractTableLevels, hasLevelErrors, referencePrice, validateTradeLevels } from "./levelValidation";
+import type { TradePlan, TradeSetup } from "./tradePlan";
+
+const noSetup: TradeSetup = { status: 'not_available', direction: 'none', entry: null, stopLoss: null, takeProfits: [], timeframeConfirmation: '', waitCondition: null, notes: '' };
+
+function plan(swing: Partial<TradeSetup>, overrides: Partial<TradePlan> = {}): TradePlan {
+  return {
+    summary: 'EURUSD',
+    setups: { swing: { ...noSetup, ...swing }, intraday: noSetup, scalp: noSetup },
+    keyLevels: { support: [{ price: 1.08, significance: '' }], resistance: [{ price: 1.1, significance: '' }], fibonacci: [] },
+    marketState: { trend: 'bullish', momentum: 'strong', volatility: 'medium', currentPrice: 1.09, rsi: [] },
+    riskManagement: { maxRiskPerTrade: '1%', correlationCheck: '' },
+    recommendedActions: { immediate: '', today: '', thisWeek: '' },
+    viabilityConditions: '',
+    ...overrides,
+  };
+}
+
+const messages = (p: TradePlan, analyses?: Record<string, string>) =>
+  validateTradeLevels(p, analyses).map(issue => `${issue.severity}: ${issue.source}: ${issue.message}`);
+
+describe('validateTradeLevels', () => {
+  it('accepts a consistent plan', () => {
+    const issues = validateTradeLevels(plan({ status: 'available', direction: 'long', entry: 1.085, stopLoss: 1.08, takeProfits: [{ price: 1.095, riskReward: 2 }] }));
+
+    expect(issues).toEqual([]);
+  });
+
+  it('flags a stop on the wrong side of the entry as an error', () => {
+    const issues = validateTradeLevels(plan({ status: 'available', direction: 'long', entry: 1.085, stopLoss: 1.09, takeProfits: [] }));
+
+    expect(issues.map(issue => issue.message)).toEqual(['Stop loss 1.09 is above the entry 1.085 of a long.']);
+    expect(hasLevelErrors(issues)).toBe(true);
+  });
+
+  it('flags targets on the wrong side and stated R:R that does not match the prices', () => {
+    expect(messages(plan({
+      status: 'available',
+      direction: 'short',
+      entry: 1.095,
+      stopLoss: 1.1,
+      takeProfits: [{ price: 1.085, riskReward: 3 }, { price: 1.1, riskReward: null }],
+    }))).toEqual([
+      'warning: Swing Trade: Take profit 1 states R:R 1:3.00 but the prices give 1:2.00.',
+      'error: Swing Trade: Take profit 2 (1.1) is on the wrong side of the entry 1.095 for a short.',
+    ]);
+  });
+
+  it('warns about a wait without a condition and levels far from the chart price', () => {
+    const issues = messages(plan({ status: 'wait', direction: 'long', entry: 1.085, stopLoss: 1.08, takeProfits: [{ price: 1.5, riskReward: null }] }));
+
+    expect(issues).toEqual([
+      'warning: Swing Trade: Status is "wait" but no wait condition was given.',
+      'warning: Swing Trade: 1.5 is far from the chart price 1.09.',
+    ]);
+    expect(hasLevelErrors(validateTradeLevels(plan({ status: 'wait' })))).toBe(true);
+  });
+
+  it('checks key levels against the current price and RSI bounds', () => {
+    const issues = messages(plan(noSetup, {
+      marketState: { trend: 'bullish', momentum: 'strong', volatility: 'medium', currentPrice: 1.09, rsi: [{ timeframe: '4h', value: 140 }] },
+      keyLevels: { support: [{ price: 1.095, significance: '' }], resistance: [{ price: 1.1, significance: '' }], fibonacci: [] },
+    }));
+
+    expect(issues).toEqual([
+      'warning: Key levels: Support 1.095 is above the current price 1.09.',
+      'error: Key levels: RSI 4h of 140 is outside 0-100.',
+    ]);
+  });
+
+  it('checks the levels in the per-timeframe analyses', () => {
+    const issues = messages(plan(noSetup), { '4h': '| Support | 1.0800 | Swing low |\n| Resistance | **2.1000** | Typo |' });
+
+    expect(issues).toEqual(['warning: 4H analysis: Levels 2.1 are far from the chart price 1.09.']);
+  });
+});
+
+describe('referencePrice', () => {
+  it('falls back to the median key level without a current price', () => {
+    const p = plan(noSetup, { marketState: { trend: 'neutral', momentum: 'neutral', volatility: 'low', currentPrice: null, rsi: [] } });
+
+    expect(referencePrice(p)).toBeCloseTo(1.09);
+  });
+});
+
+describe('extractTableLevels', () => {
+  it('reads prices from support and resistance rows only', () => {
+    const markdown = `| Level | Price |
+| --- | --- |
+| Resistance | 1,234.50 |
+| Pivot | 1200 |
+| **Support** | **1,180** |`;
+
+    expect(extractTableLevels(markdown)).toEqual([1234.5, 1180]);
+  });
+});
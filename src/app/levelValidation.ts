@@ -0,0 +1,142 @@
+// Sanity checks on the price levels a model returns
+import { TRADE_TYPES, formatPrice, tradeTypeLabels, type TradePlan } from "./tradePlan";
+import { timeframeLabel } from "./timeframes";
+
+const RR_TOLERANCE = 0.15; // Relative difference allowed between a stated and a computed R:R
+const MAX_DEVIATION = 0.25; // Levels further than this fraction from the reference price are suspicious
+
+export interface LevelIssue {
+  severity: 'error' | 'warning';
+  source: string; // Where the issue is, e.g. "Swing Trade" or "1H analysis"
+  message: string;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Current price when the model read one, otherwise the median of the plan's key levels
+export function referencePrice(plan: TradePlan): number | null {
+  if (plan.marketState.currentPrice !== null && plan.marketState.currentPrice > 0) return plan.marketState.currentPrice;
+  const { support, resistance } = plan.keyLevels;
+  const prices = [...support, ...resistance].map(level => level.price).filter(price => price > 0);
+  return prices.length > 0 ? median(prices) : null;
+}
+
+const isFar = (price: number, reference: number) => Math.abs(price - reference) / reference > MAX_DEVIATION;
+
+function checkSetups(plan: TradePlan, reference: number | null, issues: LevelIssue[]) {
+  for (const type of TRADE_TYPES) {
+    const setup = plan.setups[type];
+    const source = tradeTypeLabels[type].title;
+    const error = (message: string) => issues.push({ severity: 'error', source, message });
+    const warning = (message: string) => issues.push({ severity: 'warning', source, message });
+    if (setup.status === 'not_available') continue;
+
+    if (setup.status === 'wait' && !setup.waitCondition) warning('Status is "wait" but no wait condition was given.');
+    if (setup.direction === 'none') {
+      error(`Status is "${setup.status}" but no direction was given.`);
+      continue;
+    }
+    const { entry, stopLoss } = setup;
+    if (entry === null || stopLoss === null) {
+      error('Entry or stop loss is missing.');
+      continue;
+    }
+    const long = setup.direction === 'long';
+    if (entry === stopLoss) {
+      error('Stop loss equals the entry price.');
+      continue;
+    }
+    if (long ? stopLoss > entry : stopLoss < entry) {
+      error(`Stop loss ${formatPrice(stopLoss)} is ${long ? 'above' : 'below'} the entry ${formatPrice(entry)} of a ${setup.direction}.`);
+      continue;
+    }
+    if (setup.takeProfits.length === 0) warning('No take profit targets.');
+
+    const risk = Math.abs(entry - stopLoss);
+    setup.takeProfits.forEach((tp, i) => {
+      if (long ? tp.price <= entry : tp.price >= entry) {
+        error(`Take profit ${i + 1} (${formatPrice(tp.price)}) is on the wrong side of the entry ${formatPrice(entry)} for a ${setup.direction}.`);
+        return;
+      }
+      const actual = Math.abs(tp.price - entry) / risk;
+      if (tp.riskReward !== null && Math.abs(tp.riskReward - actual) / actual > RR_TOLERANCE) {
+        warning(`Take profit ${i + 1} states R:R 1:${tp.riskReward.toFixed(2)} but the prices give 1:${actual.toFixed(2)}.`);
+      }
+    });
+
+    if (reference !== null) {
+      const far = [entry, stopLoss, ...setup.takeProfits.map(tp => tp.price)].filter(price => isFar(price, reference));
+      if (far.length > 0) warning(`${far.map(formatPrice).join(', ')} ${far.length === 1 ? 'is' : 'are'} far from the chart price ${formatPrice(reference)}.`);
+    }
+  }
+}
+
+function checkKeyLevels(plan: TradePlan, reference: number | null, issues: LevelIssue[]) {
+  const source = 'Key levels';
+  const { currentPrice, rsi } = plan.marketState;
+  const { support, resistance, fibonacci } = plan.keyLevels;
+  if (currentPrice !== null) {
+    const aboveSupport = support.filter(level => level.price > currentPrice);
+    const belowResistance = resistance.filter(level => level.price < currentPrice);
+    if (aboveSupport.length > 0) issues.push({ severity: 'warning', source, message: `Support ${aboveSupport.map(l => formatPrice(l.price)).join(', ')} is above the current price ${formatPrice(currentPrice)}.` });
+    if (belowResistance.length > 0) issues.push({ severity: 'warning', source, message: `Resistance ${belowResistance.map(l => formatPrice(l.price)).join(', ')} is below the current price ${formatPrice(currentPrice)}.` });
+  }
+  if (reference !== null) {
+    const far = [...support, ...resistance, ...fibonacci].map(level => level.price).filter(price => isFar(price, reference));
+    if (far.length > 0) issues.push({ severity: 'warning', source, message: `${far.map(formatPrice).join(', ')} ${far.length === 1 ? 'is' : 'are'} far from the chart price ${formatPrice(reference)}.` });
+  }
+  for (const reading of rsi) {
+    if (reading.value !== null && (reading.value < 0 || reading.value > 100)) {
+      issues.push({ severity: 'error', source, message: `RSI ${reading.timeframe} of ${reading.value} is outside 0-100.` });
+    }
+  }
+}
+
+// Prices from markdown table rows labelled support or resistance, as the per-timeframe analyses report them
+export function extractTableLevels(markdown: string): number[] {
+  const prices: number[] = [];
+  for (const line of markdown.split('\n')) {
+    if (!line.trim().startsWith('|') || !/support|resistance/i.test(line)) continue;
+    const price = line.split('|').map(cell => cell.replace(/[*,\s]/g, '')).find(cell => /^\d+(\.\d+)?$/.test(cell));
+    if (price) prices.push(Number(price));
+  }
+  return prices;
+}
+
+function checkAnalyses(analyses: Record<string, string>, reference: number | null, issues: LevelIssue[]) {
+  if (reference === null) return;
+  for (const [timeframe, markdown] of Object.entries(analyses)) {
+    const far = extractTableLevels(markdown).filter(price => isFar(price, reference));
+    if (far.length > 0) {
+      issues.push({ severity: 'warning', source: `${timeframeLabel(timeframe)} analysis`, message: `Levels ${far.map(formatPrice).join(', ')} are far from the chart price ${formatPrice(reference)}.` });
+    }
+  }
+}
+
+export function validateTradeLevels(plan: TradePlan, analyses: Record<string, string> = {}): LevelIssue[] {
+  const issues: LevelIssue[] = [];
+  const reference = referencePrice(plan);
+  checkSetups(plan, reference, issues);
+  checkKeyLevels(plan, reference, issues);
+  checkAnalyses(analyses, reference, issues);
+  return issues;
+}
+
+export const hasLevelErrors = (issues: LevelIssue[]) => issues.some(issue => issue.severity === 'error');
+
+// Ask for a corrected plan, quoting the previous answer and everything wrong with it
+export function buildCorrectionPrompt(originalPrompt: string, plan: TradePlan, issues: LevelIssue[]): string {
+  return `${originalPrompt}
+
+Your previous answer was:
+${JSON.stringify(plan)}
+
+It contains these contradictions:
+${issues.map(issue => `- ${issue.source}: ${issue.message}`).join('\n')}
+
+Return the complete corrected trade plan. Longs need stop loss < entry < take profits and shorts the reverse, each riskReward must equal |take profit - entry| / |entry - stop loss|, and all prices must lie within the price range visible on the charts. If a setup cannot be fixed, mark it "not_available".`;
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { computeIndicators, computeRsi, findSwings, OhlcvParseError, parseOhlcvCsv, type Candle } from "./marketData";
+
+describe('parseOhlcvCsv', () => {
+  it('reads columns by their header names and sorts newest-first exports', () => {
+    const candles = parseOhlcvCsv(`Date,Close,High,Low,Open,Volume
+2025-01-31T17:00:00Z,1.0400,1.0420,1.0380,1.0390,1200
+2025-01-31 16:00,1.0390,1.0410,1.0370,1.0380,
+`);
+
+    expect(candles).toEqual([
+      { time: Date.UTC(2025, 0, 31, 16), open: 1.038, high: 1.041, low: 1.037, close: 1.039, volume: null },
+      { time: Date.UTC(2025, 0, 31, 17), open: 1.039, high: 1.042, low: 1.038, close: 1.04, volume: 1200 },
+    ]);
+  });
+
+  it('reads headerless MetaTrader exports with separate date and time columns', () => {
+    const candles = parseOhlcvCsv('2025.01.31\t16:00\t1.0380\t1.0410\t1.0370\t1.0390\t512\r\n');
+
+    expect(candles).toEqual([{ time: Date.UTC(2025, 0, 31, 16), open: 1.038, high: 1.041, low: 1.037, close: 1.039, volume: 512 }]);
+  });
+
+  it('reads unix seconds and milliseconds and keeps the last row of a repeated time', () => {
+    const candles = parseOhlcvCsv(`time;open;high;low;close
+1738339200;1;2;0.5;1.5
+1738339200000;1;3;0.5;2.5`);
+
+    expect(candles).toEqual([{ time: 1738339200000, open: 1, high: 3, low: 0.5, close: 2.5, volume: null }]);
+  });
+
+  it('names the line that is not a candle', () => {
+    expect(() => parseOhlcvCsv('time,open,high,low,close\n2025-01-31,1,2,0.5,1.5\n2025-02-01,1,n/a,0.5,1.5')).toThrow('Line 3 is not a valid candle.');
+    expect(() => parseOhlcvCsv('time,open,high,low,close\n2025-01-31,1,0.5,2,1.5')).toThrow('Line 2 has a high below its low.');
+  });
+
+  it('rejects files it cannot read as candles', () => {
+    expect(() => parseOhlcvCsv(' \n')).toThrow(OhlcvParseError);
+    expect(() => parseOhlcvCsv('time,open,close\n2025-01-31,1,2')).toThrow('The header needs open, high, low and close columns.');
+    expect(() => parseOhlcvCsv('open,high,low,close\n1,2,0.5,1.5')).toThrow('The header needs a date or time column.');
+    expect(() => parseOhlcvCsv('time,open,high,low,close\n')).toThrow('The file has no candles.');
+  });
+});
+
+describe('computeRsi', () => {
+  it('needs more closes than the period', () => {
+    expect(computeRsi([1, 2, 3], 3)).toBeNull();
+  });
+
+  it('is 100 without losses and 50 without any change', () => {
+    expect(computeRsi([1, 2, 3, 4], 3)).toBe(100);
+    expect(computeRsi([2, 2, 2, 2], 3)).toBe(50);
+  });
+
+  it("smooths gains and losses with Wilder's average", () => {
+    // Average gain (2 + 0 + 1) / 3 = 1 and loss 1 / 3, then one more loss of 2
+    const rsi = computeRsi([10, 12, 11, 12, 10], 3)!;
+    const gain = 2 / 3;
+    const loss = (2 / 3 + 2) / 3;
+
+    expect(rsi).toBeCloseTo(100 - 100 / (1 + gain / loss));
+  });
+});
+
+// Hourly candles with the given highs and lows; opens and closes sit mid-range
+const bars = (ranges: [number, number][]): Candle[] =>
+  ranges.map(([high, low], i) => ({ time: i * 3600000, open: (high + low) / 2, high, low, close: (high + low) / 2, volume: null }));
+
+describe('findSwings', () => {
+  it('alternates between the most extreme highs and lows', () => {
+    const swings = findSwings(bars([
+      [11, 10], [12, 11], [15, 13], [13, 11], [12, 9], [11, 8], [12, 10], [13, 11], [16, 12], [14, 12], [13, 11],
+    ]), 2);
+
+    expect(swings.map(swing => `${swing.kind} ${swing.price}`)).toEqual(['high 15', 'low 8', 'high 16']);
+  });
+});
+
+describe('computeIndicators', () => {
+  it('retraces the last completed swing leg and splits levels around the last close', () => {
+    const candles = bars([
+      [11, 10], [12, 11], [13, 12], [15, 13], [13, 12], [12, 11], [11, 10],
+      [10, 8], [11, 9], [12, 10], [13, 11], [14, 12], [15, 13], [15, 14],
+    ]);
+
+    const indicators = computeIndicators(candles, 'eurusd_1h.csv');
+
+    expect(indicators).toMatchObject({ source: 'eurusd_1h.csv', candles: 14, lastClose: 14.5, rsi: null });
+    expect(indicators.fib).toMatchObject({ direction: 'down', from: { kind: 'high', price: 15 }, to: { kind: 'low', price: 8 } });
+    expect(indicators.fib!.levels.find(level => level.ratio === 0.5)!.price).toBe(11.5);
+    expect(indicators.support).toEqual([{ price: 8, touches: 1 }]);
+    expect(indicators.resistance).toEqual([{ price: 15, touches: 1 }]);
+  });
+});
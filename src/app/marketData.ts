@@ -0,0 +1,253 @@
+// OHLCV candles from a CSV export and the indicators computed from them, so prompts get exact numbers
+import { formatPrice } from "./tradePlan";
+import { timeframeLabel } from "./timeframes";
+
+export const RSI_PERIOD = 14;
+export const SWING_STRENGTH = 3; // Bars on each side a swing high or low must exceed
+export const FIB_RATIOS = [0.236, 0.382, 0.5, 0.618, 0.786];
+const RECENT_SWINGS = 6;
+const MAX_LEVELS = 3; // Support and resistance levels each
+const CLUSTER_ATR_FRACTION = 0.5; // Swings closer than half an average bar belong to one level
+
+export interface Candle {
+  time: number; // Open time, ms since the epoch (UTC)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number | null;
+}
+
+export interface SwingPoint {
+  kind: 'high' | 'low';
+  price: number;
+  time: number;
+}
+
+// Retracement of the last completed swing leg, measured back from where it ended
+export interface FibRetracement {
+  direction: 'up' | 'down';
+  from: SwingPoint;
+  to: SwingPoint;
+  levels: { ratio: number; price: number }[];
+}
+
+export interface MarketLevel {
+  price: number;
+  touches: number; // Swings that make up the level
+}
+
+export interface MarketIndicators {
+  source: string; // CSV file name
+  candles: number;
+  from: number;
+  to: number; // Open time of the last candle
+  lastClose: number;
+  rsi: number | null; // Null with fewer than RSI_PERIOD + 1 candles
+  swings: SwingPoint[]; // The most recent, oldest first
+  fib: FibRetracement | null;
+  support: MarketLevel[]; // Below the last close, nearest first
+  resistance: MarketLevel[]; // Above the last close, nearest first
+}
+
+// Keyed by ladder timeframe id
+export type MarketDataByTimeframe = Record<string, MarketIndicators | undefined>;
+
+export class OhlcvParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OhlcvParseError';
+  }
+}
+
+const COLUMN_NAMES: Record<keyof Candle | 'date', RegExp> = {
+  date: /^(date|day)$/,
+  time: /^(time|timestamp|datetime|date ?time|open ?time|time \(utc\)|unix)$/,
+  open: /^(open|o)$/,
+  high: /^(high|h)$/,
+  low: /^(low|l)$/,
+  close: /^(close|c|last|price)$/,
+  volume: /^(volume|vol|v|tick ?volume|tickvol)$/,
+};
+
+// Unix seconds or milliseconds, ISO dates, or MetaTrader's "2025.01.31 16:00"; times without a zone are UTC
+function parseTime(value: string): number | null {
+  const text = value.trim().replace(/^"|"$/g, '');
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const number = Number(text);
+    return number < 1e11 ? number * 1000 : number;
+  }
+  const iso = text.replace(/^(\d{4})[./](\d{2})[./](\d{2})/, '$1-$2-$3').replace(/^(\d{4}-\d{2}-\d{2})[ T]/, '$1T');
+  const zoned = /(Z|[+-]\d{2}:?\d{2})$/i.test(iso) || !iso.includes('T') ? iso : `${iso}Z`;
+  const time = Date.parse(zoned);
+  return Number.isNaN(time) ? null : time;
+}
+
+const parseNumber = (value: string | undefined) => value === undefined || value.trim() === '' ? NaN : Number(value.trim().replace(/^"|"$/g, ''));
+
+// A header row is required unless the columns are in the usual order: time (or date and time), open, high, low, close[, volume]
+export function parseOhlcvCsv(text: string): Candle[] {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (lines.length === 0) throw new OhlcvParseError('The file is empty.');
+  const delimiter = [',', ';', '\t'].find(candidate => lines[0].includes(candidate)) ?? ',';
+  const rows = lines.map(line => line.split(delimiter));
+  const header = rows[0].map(cell => cell.trim().replace(/^"|"$/g, '').toLowerCase());
+  const column = (name: keyof typeof COLUMN_NAMES) => header.findIndex(cell => COLUMN_NAMES[name].test(cell));
+  const hasHeader = column('open') >= 0 && column('close') >= 0;
+
+  let columns: Record<keyof typeof COLUMN_NAMES, number>;
+  if (hasHeader) {
+    columns = { date: column('date'), time: column('time'), open: column('open'), high: column('high'), low: column('low'), close: column('close'), volume: column('volume') };
+    if (columns.high < 0 || columns.low < 0) throw new OhlcvParseError('The header needs open, high, low and close columns.');
+    if (columns.time < 0 && columns.date < 0) throw new OhlcvParseError('The header needs a date or time column.');
+  } else {
+    // A separate time column holds something like 16:00 rather than a price
+    const split = /^\d{1,2}:\d{2}/.test(rows[0][1]?.trim() ?? '') ? 1 : 0;
+    columns = { date: split ? 0 : -1, time: split, open: 1 + split, high: 2 + split, low: 3 + split, close: 4 + split, volume: rows[0].length > 5 + split ? 5 + split : -1 };
+  }
+
+  const candles = new Map<number, Candle>();
+  rows.slice(hasHeader ? 1 : 0).forEach((row, index) => {
+    const line = index + (hasHeader ? 2 : 1);
+    const stamp = columns.date >= 0 && columns.time >= 0 && columns.date !== columns.time
+      ? `${row[columns.date]?.trim()} ${row[columns.time]?.trim()}`
+      : row[columns.time >= 0 ? columns.time : columns.date] ?? '';
+    const time = parseTime(stamp);
+    const [open, high, low, close] = [columns.open, columns.high, columns.low, columns.close].map(i => parseNumber(row[i]));
+    if (time === null || [open, high, low, close].some(Number.isNaN)) throw new OhlcvParseError(`Line ${line} is not a valid candle.`);
+    if (high < low) throw new OhlcvParseError(`Line ${line} has a high below its low.`);
+    const volume = columns.volume >= 0 ? parseNumber(row[columns.volume]) : NaN;
+    candles.set(time, { time, open, high, low, close, volume: Number.isNaN(volume) ? null : volume });
+  });
+  if (candles.size === 0) throw new OhlcvParseError('The file has no candles.');
+  // Exports are newest first as often as oldest first; a repeated time keeps its last row
+  return [...candles.values()].sort((a, b) => a.time - b.time);
+}
+
+// Wilder's RSI of the closes
+export function computeRsi(closes: number[], period = RSI_PERIOD): number | null {
+  if (closes.length <= period) return null;
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    gain += Math.max(change, 0);
+    loss += Math.max(-change, 0);
+  }
+  gain /= period;
+  loss /= period;
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    gain = (gain * (period - 1) + Math.max(change, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-change, 0)) / period;
+  }
+  if (loss === 0) return gain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + gain / loss);
+}
+
+// Pivots that exceed `strength` bars on both sides; consecutive pivots of one kind keep the more extreme,
+// so the result alternates between highs and lows
+export function findSwings(candles: Candle[], strength = SWING_STRENGTH): SwingPoint[] {
+  const swings: SwingPoint[] = [];
+  const push = (swing: SwingPoint) => {
+    const last = swings[swings.length - 1];
+    if (last?.kind !== swing.kind) swings.push(swing);
+    else if (swing.kind === 'high' ? swing.price > last.price : swing.price < last.price) swings[swings.length - 1] = swing;
+  };
+  for (let i = strength; i < candles.length - strength; i++) {
+    const before = candles.slice(i - strength, i);
+    const after = candles.slice(i + 1, i + strength + 1);
+    const { high, low, time } = candles[i];
+    // Equal highs or lows count once, at the first of them
+    if (before.every(c => c.high < high) && after.every(c => c.high <= high)) push({ kind: 'high', price: high, time });
+    if (before.every(c => c.low > low) && after.every(c => c.low >= low)) push({ kind: 'low', price: low, time });
+  }
+  return swings;
+}
+
+function averageRange(candles: Candle[], period = RSI_PERIOD): number {
+  const recent = candles.slice(-period);
+  return recent.reduce((sum, candle) => sum + candle.high - candle.low, 0) / recent.length;
+}
+
+// Decimal places the export uses, so computed levels are quoted like its prices
+function pricePrecision(candles: Candle[]): number {
+  const decimals = (price: number) => String(price).split('.')[1]?.length ?? 0;
+  return Math.min(8, Math.max(...candles.slice(-100).map(candle => decimals(candle.close))));
+}
+
+const roundTo = (price: number, precision: number) => Number(price.toFixed(precision));
+
+// The leg between the last two swings, stretched to any new extreme made since the last one
+function lastLegRetracement(candles: Candle[], swings: SwingPoint[], precision: number): FibRetracement | null {
+  if (swings.length < 2) return null;
+  const from = swings[swings.length - 2];
+  let to = swings[swings.length - 1];
+  for (const candle of candles.filter(c => c.time > to.time)) {
+    if (to.kind === 'high' && candle.high > to.price) to = { kind: 'high', price: candle.high, time: candle.time };
+    if (to.kind === 'low' && candle.low < to.price) to = { kind: 'low', price: candle.low, time: candle.time };
+  }
+  const range = to.price - from.price;
+  return {
+    direction: range > 0 ? 'up' : 'down',
+    from,
+    to,
+    levels: FIB_RATIOS.map(ratio => ({ ratio, price: roundTo(to.price - range * ratio, precision) })),
+  };
+}
+
+// Swing prices grouped into levels; a level touched more often ranks first among equally near ones
+function swingLevels(swings: SwingPoint[], tolerance: number, precision: number): MarketLevel[] {
+  const sorted = swings.map(swing => swing.price).sort((a, b) => a - b);
+  const groups: number[][] = [];
+  for (const price of sorted) {
+    const last = groups[groups.length - 1];
+    if (last && price - last[last.length - 1] <= tolerance) last.push(price);
+    else groups.push([price]);
+  }
+  return groups.map(group => ({ price: roundTo(group.reduce((sum, price) => sum + price, 0) / group.length, precision), touches: group.length }));
+}
+
+export function computeIndicators(candles: Candle[], source: string): MarketIndicators {
+  const swings = findSwings(candles);
+  const precision = pricePrecision(candles);
+  const lastClose = candles[candles.length - 1].close;
+  const levels = swingLevels(swings, averageRange(candles) * CLUSTER_ATR_FRACTION, precision);
+  const byDistance = (a: MarketLevel, b: MarketLevel) => Math.abs(a.price - lastClose) - Math.abs(b.price - lastClose) || b.touches - a.touches;
+  return {
+    source,
+    candles: candles.length,
+    from: candles[0].time,
+    to: candles[candles.length - 1].time,
+    lastClose,
+    rsi: computeRsi(candles.map(candle => candle.close)),
+    swings: swings.slice(-RECENT_SWINGS),
+    fib: lastLegRetracement(candles, swings, precision),
+    support: levels.filter(level => level.price < lastClose).sort(byDistance).slice(0, MAX_LEVELS),
+    resistance: levels.filter(level => level.price > lastClose).sort(byDistance).slice(0, MAX_LEVELS),
+  };
+}
+
+export const formatCandleTime = (time: number) => new Date(time).toISOString().slice(0, 16).replace('T', ' ');
+
+export const formatRatioPercent = (ratio: number) => `${(ratio * 100).toFixed(1).replace(/\.0$/, '')}%`;
+
+const levelList = (levels: MarketLevel[]) =>
+  levels.length > 0 ? levels.map(level => `${formatPrice(level.price)} (${level.touches} ${level.touches === 1 ? 'swing' : 'swings'})`).join(', ') : 'none in the data';
+
+// The computed values of one timeframe as a Markdown list, for prompts and reports
+export function describeIndicators(timeframe: string, indicators: MarketIndicators): string {
+  const { fib } = indicators;
+  const lines = [
+    `Computed from ${indicators.candles} ${timeframeLabel(timeframe)} candles of OHLCV data (${formatCandleTime(indicators.from)} to ${formatCandleTime(indicators.to)} UTC):`,
+    `- Last close: ${formatPrice(indicators.lastClose)}`,
+    `- RSI(${RSI_PERIOD}): ${indicators.rsi === null ? `not enough candles (needs ${RSI_PERIOD + 1})` : indicators.rsi.toFixed(1)}`,
+    `- Recent swings (oldest first): ${indicators.swings.map(swing => `${swing.kind} ${formatPrice(swing.price)} at ${formatCandleTime(swing.time)}`).join('; ') || 'none'}`,
+    fib
+      ? `- Fibonacci retracement of the last swing ${fib.direction} from ${formatPrice(fib.from.price)} to ${formatPrice(fib.to.price)}: ${fib.levels.map(level => `${formatRatioPercent(level.ratio)} ${formatPrice(level.price)}`).join(', ')}`
+      : '- Fibonacci retracement: not enough swings in the data',
+    `- Support: ${levelList(indicators.support)}`,
+    `- Resistance: ${levelList(indicators.resistance)}`,
+  ];
+  return lines.join('\n');
+}
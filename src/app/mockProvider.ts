@@ -0,0 +1,181 @@
+// Deterministic fixture-backed provider for offline development and demos
+import type { ChatRequest, VisionProvider, VisionRequest } from "./visionProviders";
+import type { TradePlan } from "./tradePlan";
+import { parseTimeframe } from "./timeframes";
+
+const MOCK_LATENCY = 300; // Enough for progress indicators to be visible
+const MOCK_CHUNK_DELAY = 40; // Between streamed chunks
+const MOCK_CHUNK_SIZE = 24; // Characters per streamed chunk
+
+const mockTradePlan: TradePlan = {
+  summary: 'Mock plan: the higher timeframes hold a bullish structure above the 0.618 retracement, so longs are favoured on pullbacks while price stays above 1.0820.',
+  setups: {
+    swing: {
+      status: 'available',
+      direction: 'long',
+      entry: 1.0850,
+      stopLoss: 1.0790,
+      takeProfits: [
+        { price: 1.0970, riskReward: 2 },
+        { price: 1.1030, riskReward: 3 },
+      ],
+      timeframeConfirmation: '4H-1H',
+      waitCondition: null,
+      notes: 'Entry at the 0.5 retracement with 4H RSI holding above 50.',
+    },
+    intraday: {
+      status: 'wait',
+      direction: 'long',
+      entry: 1.0862,
+      stopLoss: 1.0838,
+      takeProfits: [
+        { price: 1.0910, riskReward: 2 },
+        { price: 1.0934, riskReward: 3 },
+      ],
+      timeframeConfirmation: '1H-15M',
+      waitCondition: {
+        waitFor: '15M close back above the broken trendline',
+        watchLevel: 1.0860,
+        confirmation: 'Bullish engulfing with RSI crossing 50',
+        maxWaitTime: '4 hours',
+      },
+      notes: '',
+    },
+    scalp: {
+      status: 'not_available',
+      direction: 'none',
+      entry: null,
+      stopLoss: null,
+      takeProfits: [],
+      timeframeConfirmation: '15M-5M',
+      waitCondition: null,
+      notes: '5M RSI is mid-range with no clear trigger.',
+    },
+  },
+  keyLevels: {
+    support: [
+      { price: 1.0840, significance: '0.5 retracement and prior breakout' },
+      { price: 1.0820, significance: '0.618 retracement' },
+      { price: 1.0790, significance: 'Swing low' },
+    ],
+    resistance: [
+      { price: 1.0910, significance: 'Intraday high' },
+      { price: 1.0970, significance: 'Weekly high' },
+      { price: 1.1030, significance: '1.272 extension' },
+    ],
+    fibonacci: [
+      { ratio: 0.236, price: 1.0900 },
+      { ratio: 0.382, price: 1.0868 },
+      { ratio: 0.5, price: 1.0840 },
+      { ratio: 0.618, price: 1.0820 },
+      { ratio: 0.786, price: 1.0795 },
+    ],
+  },
+  marketState: {
+    trend: 'bullish',
+    momentum: 'weak',
+    volatility: 'medium',
+    currentPrice: 1.0868,
+    rsi: [
+      { timeframe: '4H', value: 56 },
+      { timeframe: '1H', value: 48 },
+      { timeframe: '15M', value: 44 },
+    ],
+  },
+  riskManagement: {
+    maxRiskPerTrade: '1%',
+    correlationCheck: 'Avoid stacking other USD shorts.',
+  },
+  recommendedActions: {
+    immediate: 'Place the swing limit order at 1.0850.',
+    today: 'Watch 1.0860 for the intraday trigger.',
+    thisWeek: 'Trail the swing stop below 1.0820 once TP1 is hit.',
+  },
+  viabilityConditions: '',
+};
+
+const mockInstrument = { symbol: 'EURUSD', assetClass: 'forex', price: 1.0868, tickSize: 0.0001 };
+
+// Timeframe mentioned in the image name, so fixture uploads like "eurusd-4h.png" detect correctly;
+// otherwise the first option the detection prompt offers
+function detectTimeframe(name: string, prompt: string): string {
+  const stem = name.replace(/\.[a-z0-9]+$/i, '');
+  const fromName = stem.split(/[^a-zA-Z0-9]+/).filter(token => /^\d/.test(token)).map(parseTimeframe).find(Boolean);
+  if (fromName) return fromName;
+  return prompt.match(/one of the following: ([^,.\s]+)/)?.[1] ?? '1h';
+}
+
+function mockAnalysis(prompt: string): string {
+  const subject = prompt.match(/Analyze this ([\w-]+) chart/i)?.[1] ?? 'chart';
+  return `## Mock ${subject} analysis
+
+**Trend:** Bullish above the 0.618 retracement.
+
+| Level | Price | Notes |
+| --- | --- | --- |
+| Resistance | 1.0910 | Intraday high |
+| Support | 1.0840 | 0.5 retracement |
+| Support | 1.0820 | 0.618 retracement |
+
+RSI is holding near 50, so momentum is neutral to slightly bullish.
+
+_This response comes from the offline mock provider._`;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function mockReply({ imageName, prompt, responseSchema }: VisionRequest): string {
+  if (/identify the instrument/i.test(prompt)) return JSON.stringify(mockInstrument);
+  if (/price axis/i.test(prompt)) return JSON.stringify({ points: [{ price: 1.0910, y: 0.2 }, { price: 1.0820, y: 0.8 }] });
+  if (/exact timeframe/i.test(prompt)) {
+    const timeframe = detectTimeframe(imageName ?? '', prompt);
+    return responseSchema ? JSON.stringify({ timeframe, confidence: 0.8 }) : timeframe;
+  }
+  if (responseSchema) return JSON.stringify(mockTradePlan, null, 2);
+  return mockAnalysis(prompt);
+}
+
+function mockChatReply({ history, images, message }: ChatRequest): string {
+  const turn = history.filter(item => item.role === 'user').length + 1;
+  return `Mock answer ${turn} about ${images.length} chart(s) to: "${message.trim()}"
+
+A wick below a support level that closes back above it is a liquidity grab rather than a breakdown; wait for a close below before invalidating the setup.
+
+_This response comes from the offline mock provider._`;
+}
+
+async function deliver(reply: string, signal?: AbortSignal, onText?: (text: string) => void): Promise<string> {
+  await wait(MOCK_LATENCY, signal);
+  if (onText) {
+    for (let end = MOCK_CHUNK_SIZE; end < reply.length; end += MOCK_CHUNK_SIZE) {
+      onText(reply.slice(0, end));
+      await wait(MOCK_CHUNK_DELAY, signal);
+    }
+    onText(reply);
+  }
+  return reply;
+}
+
+export function createMockProvider(): VisionProvider {
+  return {
+    kind: 'mock',
+    generate(request: VisionRequest) {
+      return deliver(mockReply(request), request.signal, request.onText);
+    },
+    chat(request: ChatRequest) {
+      return deliver(mockChatReply(request), request.signal, request.onText);
+    },
+  };
+}
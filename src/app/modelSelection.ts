@@ -0,0 +1,71 @@
+// Which model runs each pipeline step, persisted in localStorage
+import { DEFAULT_MODELS, describeModel, type ModelConfig } from "./visionProviders";
+
+const STORAGE_KEY = 'trading-guide:model-selection';
+
+export interface ModelSelection {
+  default: ModelConfig;
+  perStep: Record<string, ModelConfig | undefined>; // Overrides keyed by step id ('detect', '4h', ..., 'final')
+  consensus: ConsensusSettings;
+}
+
+// Consensus mode: every analysis step runs `samples` times on its own model and on each extra model
+export interface ConsensusSettings {
+  samples: number;
+  extraModels: ModelConfig[];
+}
+
+export const MAX_CONSENSUS_SAMPLES = 5;
+
+export const defaultModelSelection: ModelSelection = {
+  default: DEFAULT_MODELS.gemini,
+  perStep: {},
+  consensus: { samples: 1, extraModels: [] },
+};
+
+export function resolveModel(selection: ModelSelection, step: string): ModelConfig {
+  return selection.perStep[step] ?? selection.default;
+}
+
+export interface ConsensusMember {
+  model: ModelConfig;
+  sample: number; // 0 for the first run of each model
+}
+
+// Every run a step makes; a single member when consensus mode is off
+export function consensusMembers(selection: ModelSelection, step: string): ConsensusMember[] {
+  const models = [resolveModel(selection, step), ...selection.consensus.extraModels];
+  return models.flatMap(model => Array.from({ length: Math.max(1, selection.consensus.samples) }, (_, sample) => ({ model, sample })));
+}
+
+// Models a step ran on, as saved with the run, e.g. "gemini|gemini-2.0-flash| ×3 + openai|gpt-4o| ×3"
+export function describeStepModels(selection: ModelSelection, step: string): string {
+  const models = [resolveModel(selection, step), ...selection.consensus.extraModels].map(describeModel);
+  const samples = selection.consensus.samples > 1 ? ` ×${selection.consensus.samples}` : '';
+  return models.map(model => model + samples).join(' + ');
+}
+
+// API keys are managed by apiKeyStore and never saved with the model selection
+function withoutKey(config: ModelConfig): ModelConfig {
+  const copy = { ...config };
+  delete copy.apiKey;
+  return copy;
+}
+
+export function loadModelSelection(): ModelSelection {
+  if (typeof window === 'undefined') return defaultModelSelection;
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...defaultModelSelection, ...JSON.parse(stored) } : defaultModelSelection;
+  } catch {
+    return defaultModelSelection;
+  }
+}
+
+export function saveModelSelection(selection: ModelSelection) {
+  const perStep = Object.fromEntries(
+    Object.entries(selection.perStep).flatMap(([step, config]) => config ? [[step, withoutKey(config)]] : [])
+  );
+  const consensus = { ...selection.consensus, extraModels: selection.consensus.extraModels.map(withoutKey) };
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ default: withoutKey(selection.default), perStep, consensus }));
+}
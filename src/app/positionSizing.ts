@@ -0,0 +1,108 @@
+// Deterministic position sizing from the account risk settings and a setup's levels
+const STORAGE_KEY = 'trading-guide:risk-settings';
+
+export type InstrumentType = 'forex' | 'stock' | 'crypto' | 'futures';
+
+export interface RiskSettings {
+  accountBalance: number;
+  riskPercent: number;
+  instrument: InstrumentType;
+  tickSize: number; // Price increment of one pip/tick
+  tickValue: number; // Account currency per pip/tick for one lot, share, coin or contract
+}
+
+export interface InstrumentPreset {
+  label: string;
+  unit: string;
+  sizeStep: number; // Smallest tradable size
+  tickSize: number;
+  tickValue: number;
+}
+
+export const INSTRUMENT_PRESETS: Record<InstrumentType, InstrumentPreset> = {
+  forex: { label: 'Forex', unit: 'lots', sizeStep: 0.01, tickSize: 0.0001, tickValue: 10 },
+  stock: { label: 'Stock', unit: 'shares', sizeStep: 1, tickSize: 0.01, tickValue: 0.01 },
+  crypto: { label: 'Crypto', unit: 'coins', sizeStep: 0.0001, tickSize: 0.01, tickValue: 0.01 },
+  futures: { label: 'Futures', unit: 'contracts', sizeStep: 1, tickSize: 0.25, tickValue: 12.5 },
+};
+
+export const defaultRiskSettings: RiskSettings = {
+  accountBalance: 10000,
+  riskPercent: 1,
+  instrument: 'forex',
+  tickSize: INSTRUMENT_PRESETS.forex.tickSize,
+  tickValue: INSTRUMENT_PRESETS.forex.tickValue,
+};
+
+export interface TradeLevels {
+  entry: number | null;
+  stopLoss: number | null;
+  takeProfits: number[];
+}
+
+export interface TargetOutcome {
+  price: number;
+  ticks: number;
+  rewardRisk: number;
+  profit: number; // At the rounded position size
+}
+
+export interface PositionSize {
+  stopTicks: number;
+  size: number; // Rounded down to the instrument's size step, so risk never exceeds the budget
+  unit: string;
+  riskBudget: number;
+  moneyAtRisk: number;
+  targets: TargetOutcome[];
+}
+
+// Either a position size or the reason one cannot be computed
+export type PositionSizeResult = { ok: true; position: PositionSize } | { ok: false; issue: string };
+
+const roundDown = (value: number, step: number) => Math.floor(value / step + 1e-9) * step;
+
+export function computePositionSize(settings: RiskSettings, levels: TradeLevels): PositionSizeResult {
+  const { accountBalance, riskPercent, tickSize, tickValue } = settings;
+  const { entry, stopLoss } = levels;
+  if (!(accountBalance > 0)) return { ok: false, issue: 'Enter an account balance.' };
+  if (!(riskPercent > 0)) return { ok: false, issue: 'Enter a risk percentage.' };
+  if (!(tickSize > 0) || !(tickValue > 0)) return { ok: false, issue: 'Enter the pip/tick size and value.' };
+  if (entry === null || stopLoss === null) return { ok: false, issue: 'Needs both an entry and a stop loss.' };
+  if (entry === stopLoss) return { ok: false, issue: 'Entry and stop loss are the same price.' };
+
+  const preset = INSTRUMENT_PRESETS[settings.instrument];
+  const stopTicks = Math.abs(entry - stopLoss) / tickSize;
+  const riskPerUnit = stopTicks * tickValue;
+  const riskBudget = accountBalance * riskPercent / 100;
+  const size = roundDown(riskBudget / riskPerUnit, preset.sizeStep);
+  const direction = Math.sign(entry - stopLoss); // 1 for longs, -1 for shorts
+
+  return {
+    ok: true,
+    position: {
+      stopTicks,
+      size,
+      unit: preset.unit,
+      riskBudget,
+      moneyAtRisk: size * riskPerUnit,
+      targets: levels.takeProfits.map(price => {
+        const ticks = (price - entry) * direction / tickSize;
+        return { price, ticks, rewardRisk: ticks / stopTicks, profit: size * ticks * tickValue };
+      }),
+    },
+  };
+}
+
+export function loadRiskSettings(): RiskSettings {
+  if (typeof window === 'undefined') return defaultRiskSettings;
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...defaultRiskSettings, ...JSON.parse(stored) } : defaultRiskSettings;
+  } catch {
+    return defaultRiskSettings;
+  }
+}
+
+export function saveRiskSettings(settings: RiskSettings) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
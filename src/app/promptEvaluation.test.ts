@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { EvalManifestError, parseEvalManifest } from "./promptEvaluation";
+
+describe('parseEvalManifest', () => {
+  it('accepts a bare list or a fixtures object and normalises timeframes', () => {
+    const fixtures = [{ file: 'eurusd_4h.png', set: 'eurusd', timeframe: '240', bias: 'bullish', levels: [1.085, 1.1] }, { file: 'gold.png', timeframe: '1 hour' }];
+
+    expect(parseEvalManifest(JSON.stringify({ fixtures }))).toEqual(parseEvalManifest(JSON.stringify(fixtures)));
+    expect(parseEvalManifest(JSON.stringify(fixtures))).toEqual([
+      { file: 'eurusd_4h.png', set: 'eurusd', timeframe: '4h', bias: 'bullish', levels: [1.085, 1.1] },
+      { file: 'gold.png', set: undefined, timeframe: '1h', bias: undefined, levels: undefined },
+    ]);
+  });
+
+  it.each([
+    ['not json', 'The label manifest is not valid JSON.'],
+    ['[]', 'The label manifest lists no fixtures.'],
+    ['[{"timeframe": "4h"}]', 'Fixture 1 has no file name.'],
+    ['[{"file": "a.png", "timeframe": "soon"}]', 'Fixture 1 (a.png) has no valid timeframe.'],
+    ['[{"file": "a.png", "timeframe": "4h", "bias": "up"}]', 'Fixture 1 (a.png) has bias "up"; use bullish, bearish, neutral.'],
+    ['[{"file": "a.png", "timeframe": "4h", "levels": [1.08, 0]}]', 'Fixture 1 (a.png) has levels that are not a list of positive prices.'],
+    ['[{"file": "a.png", "timeframe": "4h"}, {"file": "a.png", "timeframe": "1h"}]', 'a.png is listed more than once.'],
+    ['[{"file": "a.png", "set": "s", "timeframe": "4h"}, {"file": "b.png", "set": "s", "timeframe": "240"}]', 'Set "s" has more than one 4H chart.'],
+  ])('rejects %s', (text, message) => {
+    expect(() => parseEvalManifest(text)).toThrow(new EvalManifestError(message));
+  });
+});
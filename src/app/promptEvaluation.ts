@@ -0,0 +1,286 @@
+// Score timeframe detection and per-timeframe analysis against labelled chart fixtures, and compare two variants
+import { analyzeChartWithGemini } from "./geminiApi";
+import { analysisBias, type Bias } from "./consensus";
+import { extractTableLevels } from "./levelValidation";
+import { planLadder, renderStepPrompt, type Strategy } from "./strategies";
+import { detectionPrompt, detectionSchema, parseDetectionReply } from "./timeframeDetection";
+import { parseTimeframe, sortTimeframes, timeframeLabel } from "./timeframes";
+import { formatPrice } from "./tradePlan";
+import { describeModel, type ModelConfig } from "./visionProviders";
+
+// A labelled level counts as found when the analysis names a price this close to it
+export const LEVEL_HIT_TOLERANCE = 0.0025;
+
+const BIASES: Bias[] = ['bullish', 'bearish', 'neutral'];
+
+// Ground truth for one chart image. Charts sharing a set are analysed as one ladder, like a real run.
+export interface FixtureLabel {
+  file: string;
+  set?: string;
+  timeframe: string;
+  bias?: Bias;
+  levels?: number[];
+}
+
+export interface EvalFixture extends FixtureLabel {
+  image: File;
+}
+
+export class EvalManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EvalManifestError';
+  }
+}
+
+// Accepts {"fixtures": [...]} or a bare array; timeframes may use any spelling parseTimeframe understands
+export function parseEvalManifest(text: string): FixtureLabel[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new EvalManifestError('The label manifest is not valid JSON.');
+  }
+  const entries = Array.isArray(data) ? data : (data as { fixtures?: unknown })?.fixtures;
+  if (!Array.isArray(entries) || entries.length === 0) throw new EvalManifestError('The label manifest lists no fixtures.');
+  const labels: FixtureLabel[] = entries.map((entry, i) => {
+    const where = `Fixture ${i + 1}`;
+    if (typeof entry?.file !== 'string' || !entry.file) throw new EvalManifestError(`${where} has no file name.`);
+    const timeframe = typeof entry.timeframe === 'string' ? parseTimeframe(entry.timeframe) : null;
+    if (!timeframe) throw new EvalManifestError(`${where} (${entry.file}) has no valid timeframe.`);
+    if (entry.bias !== undefined && !BIASES.includes(entry.bias)) throw new EvalManifestError(`${where} (${entry.file}) has bias "${entry.bias}"; use ${BIASES.join(', ')}.`);
+    // Level errors are relative to the labelled price, so it must be positive
+    if (entry.levels !== undefined && (!Array.isArray(entry.levels) || entry.levels.some((level: unknown) => typeof level !== 'number' || !Number.isFinite(level) || level <= 0))) {
+      throw new EvalManifestError(`${where} (${entry.file}) has levels that are not a list of positive prices.`);
+    }
+    return { file: entry.file, set: typeof entry.set === 'string' ? entry.set : undefined, timeframe, bias: entry.bias, levels: entry.levels };
+  });
+  // Scores are matched to their labels by file name
+  const files = new Set<string>();
+  for (const label of labels) {
+    if (files.has(label.file)) throw new EvalManifestError(`${label.file} is listed more than once.`);
+    files.add(label.file);
+  }
+  // A set is one ladder, so each of its timeframes can only have one chart
+  const seen = new Set<string>();
+  for (const label of labels) {
+    if (label.set === undefined) continue;
+    const key = `${label.set}|${label.timeframe}`;
+    if (seen.has(key)) throw new EvalManifestError(`Set "${label.set}" has more than one ${timeframeLabel(label.timeframe)} chart.`);
+    seen.add(key);
+  }
+  return labels;
+}
+
+// Pair labels with the uploaded images by file name
+export function matchFixtures(labels: FixtureLabel[], images: File[]): { fixtures: EvalFixture[]; missing: string[] } {
+  const byName = new Map(images.map(image => [image.name, image]));
+  return {
+    fixtures: labels.flatMap(label => byName.has(label.file) ? [{ ...label, image: byName.get(label.file)! }] : []),
+    missing: labels.filter(label => !byName.has(label.file)).map(label => label.file),
+  };
+}
+
+export interface EvalVariant {
+  strategy: Strategy;
+  model: ModelConfig;
+}
+
+export interface FixtureScore {
+  file: string;
+  timeframe: string;
+  detected: string | null;
+  bias: Bias | null; // Read from the analysis; null when it failed
+  levelErrors: (number | null)[]; // Per labelled level, relative distance to the nearest analysed level
+  error?: string;
+}
+
+export interface EvalSummary {
+  fixtures: number;
+  failures: number;
+  timeframeAccuracy: number;
+  biasAgreement: number | null; // Null when no fixture is labelled with a bias
+  meanLevelError: number | null;
+  levelRecall: number | null;
+}
+
+export interface EvalResult {
+  strategy: { id: string; name: string; version: number };
+  model: string;
+  scores: FixtureScore[];
+  labels: FixtureLabel[];
+  summary: EvalSummary;
+}
+
+function levelErrors(analysis: string, levels: number[] = []): (number | null)[] {
+  const found = extractTableLevels(analysis);
+  return levels.map(level => found.length === 0 ? null : Math.min(...found.map(price => Math.abs(price - level) / level)));
+}
+
+const average = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+export function summarizeScores(labels: FixtureLabel[], scores: FixtureScore[]): EvalSummary {
+  const label = (score: FixtureScore) => labels.find(l => l.file === score.file)!;
+  const withBias = scores.filter(score => label(score).bias !== undefined);
+  const errors = scores.flatMap(score => score.levelErrors);
+  const measured = errors.filter((error): error is number => error !== null);
+  return {
+    fixtures: scores.length,
+    failures: scores.filter(score => score.error).length,
+    timeframeAccuracy: scores.filter(score => score.detected === score.timeframe).length / Math.max(scores.length, 1),
+    biasAgreement: withBias.length > 0 ? withBias.filter(score => score.bias === label(score).bias).length / withBias.length : null,
+    meanLevelError: average(measured),
+    levelRecall: errors.length > 0 ? measured.filter(error => error <= LEVEL_HIT_TOLERANCE).length / errors.length : null,
+  };
+}
+
+const errorMessage = (err: unknown) => err instanceof Error ? err.message : String(err);
+
+// Detection is scored on the model alone (no filename heuristics). Analyses always run on the true
+// timeframes, so a detection mistake does not also count against the analysis prompt.
+export async function runEvaluation(
+  fixtures: EvalFixture[],
+  variant: EvalVariant,
+  ladder: string[],
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void } = {}
+): Promise<EvalResult> {
+  const { strategy, model } = variant;
+  const strategyVersion = `${strategy.id}@${strategy.version}`;
+  const detectLadder = sortTimeframes(Array.from(new Set([...ladder, ...fixtures.map(fixture => fixture.timeframe)])));
+  const total = fixtures.length * 2;
+  let done = 0;
+  const tick = () => onProgress?.(++done, total);
+
+  const detect = async (fixture: EvalFixture) => {
+    try {
+      const reply = await analyzeChartWithGemini({ image: fixture.image, model, prompt: detectionPrompt(detectLadder), responseSchema: detectionSchema(detectLadder), signal });
+      return parseDetectionReply(reply, detectLadder)?.timeframe ?? null;
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      return null;
+    } finally {
+      tick();
+    }
+  };
+
+  // Within a set, each step gets the earlier steps' outputs as context, as in the app
+  const analyseSet = async (set: EvalFixture[]) => {
+    const setLadder = sortTimeframes(set.map(fixture => fixture.timeframe));
+    const ladderSteps = planLadder(strategy, setLadder);
+    const outputs: Record<string, string> = {};
+    const results = new Map<EvalFixture, { analysis?: string; error?: string }>();
+    for (const [index, step] of ladderSteps.entries()) {
+      const fixture = set.find(f => f.timeframe === step.timeframe)!;
+      try {
+        const analysis = await analyzeChartWithGemini({
+          image: fixture.image,
+          model,
+          prompt: renderStepPrompt(strategy, ladderSteps, index, outputs),
+          strategyVersion,
+          signal,
+        });
+        outputs[step.timeframe] = analysis;
+        results.set(fixture, { analysis });
+      } catch (err) {
+        if (signal?.aborted) throw err;
+        results.set(fixture, { error: errorMessage(err) });
+      } finally {
+        tick();
+      }
+    }
+    return results;
+  };
+
+  const sets = new Map<string, EvalFixture[]>();
+  for (const fixture of fixtures) {
+    const key = fixture.set ?? fixture.file;
+    sets.set(key, [...(sets.get(key) ?? []), fixture]);
+  }
+  // The shared queue keeps this within the rate limit however many requests are started
+  const [detections, analysed] = await Promise.all([
+    Promise.all(fixtures.map(detect)),
+    Promise.all(Array.from(sets.values()).map(analyseSet)),
+  ]);
+  const analyses = new Map(analysed.flatMap(results => Array.from(results.entries())));
+
+  const scores: FixtureScore[] = fixtures.map((fixture, i) => {
+    const { analysis, error } = analyses.get(fixture) ?? { error: 'Not analysed' };
+    return {
+      file: fixture.file,
+      timeframe: fixture.timeframe,
+      detected: detections[i],
+      bias: analysis !== undefined ? analysisBias(analysis) : null,
+      levelErrors: analysis !== undefined ? levelErrors(analysis, fixture.levels) : (fixture.levels ?? []).map(() => null),
+      ...(error ? { error } : {}),
+    };
+  });
+  const labels = fixtures.map(fixture => ({ file: fixture.file, set: fixture.set, timeframe: fixture.timeframe, bias: fixture.bias, levels: fixture.levels }));
+  return {
+    strategy: { id: strategy.id, name: strategy.name, version: strategy.version },
+    model: describeModel(model),
+    scores,
+    labels,
+    summary: summarizeScores(labels, scores),
+  };
+}
+
+export const variantName = (result: EvalResult) => `${result.strategy.name} v${result.strategy.version} (${result.model.split('|').filter(Boolean).join(' ')})`;
+
+const percent = (value: number | null) => value === null ? '—' : `${Math.round(value * 100)}%`;
+const errorPercent = (value: number | null) => value === null ? '—' : `${(value * 100).toFixed(2)}%`;
+
+// Change from A to B in percentage points; level error is better when it falls
+function change(a: number | null, b: number | null, lowerIsBetter = false): string {
+  if (a === null || b === null) return '—';
+  const points = (b - a) * 100;
+  if (Math.abs(points) < 0.005) return 'same';
+  const better = lowerIsBetter ? points < 0 : points > 0;
+  return `${points > 0 ? '+' : ''}${points.toFixed(lowerIsBetter ? 2 : 0)} pts (${better ? 'better' : 'worse'})`;
+}
+
+const cell = (text: string) => text.replace(/\|/g, '\\|');
+
+export function buildComparisonReport(a: EvalResult, b: EvalResult, createdAt = new Date().toISOString()): string {
+  const sa = a.summary;
+  const sb = b.summary;
+  const lines = [
+    '# Prompt Evaluation',
+    '',
+    `**A:** ${variantName(a)}  `,
+    `**B:** ${variantName(b)}  `,
+    `**Fixtures:** ${sa.fixtures}  `,
+    `**Run:** ${createdAt.slice(0, 16).replace('T', ' ')}`,
+    '',
+    '| Metric | A | B | Change |',
+    '| --- | --- | --- | --- |',
+    `| Timeframe accuracy | ${percent(sa.timeframeAccuracy)} | ${percent(sb.timeframeAccuracy)} | ${change(sa.timeframeAccuracy, sb.timeframeAccuracy)} |`,
+    `| Bias agreement | ${percent(sa.biasAgreement)} | ${percent(sb.biasAgreement)} | ${change(sa.biasAgreement, sb.biasAgreement)} |`,
+    `| Mean level error | ${errorPercent(sa.meanLevelError)} | ${errorPercent(sb.meanLevelError)} | ${change(sa.meanLevelError, sb.meanLevelError, true)} |`,
+    `| Levels within ${(LEVEL_HIT_TOLERANCE * 100).toFixed(2)}% | ${percent(sa.levelRecall)} | ${percent(sb.levelRecall)} | ${change(sa.levelRecall, sb.levelRecall)} |`,
+    `| Failed analyses | ${sa.failures} | ${sb.failures} | ${sb.failures - sa.failures === 0 ? 'same' : sb.failures - sa.failures} |`,
+    '',
+    '## Per Fixture',
+    '',
+    '| Chart | Timeframe | Detected A | Detected B | Bias | Bias A | Bias B | Level error A | Level error B |',
+    '| --- | --- | --- | --- | --- | --- | --- | --- | --- |',
+  ];
+  for (const label of a.labels) {
+    const scoreA = a.scores.find(score => score.file === label.file);
+    const scoreB = b.scores.find(score => score.file === label.file);
+    const detected = (score?: FixtureScore) => score?.detected ? `${timeframeLabel(score.detected)}${score.detected === label.timeframe ? '' : ' ✗'}` : '—';
+    const bias = (score?: FixtureScore) => score?.error ? 'failed' : score?.bias ? `${score.bias}${label.bias && score.bias !== label.bias ? ' ✗' : ''}` : '—';
+    const meanError = (score?: FixtureScore) => errorPercent(average((score?.levelErrors ?? []).filter((error): error is number => error !== null)));
+    lines.push(`| ${cell(label.file)} | ${timeframeLabel(label.timeframe)} | ${detected(scoreA)} | ${detected(scoreB)} | ${label.bias ?? '—'} | ${bias(scoreA)} | ${bias(scoreB)} | ${meanError(scoreA)} | ${meanError(scoreB)} |`);
+  }
+  const labelled = a.labels.filter(label => label.levels?.length);
+  if (labelled.length > 0) {
+    lines.push('', '## Labelled Levels', '');
+    for (const label of labelled) lines.push(`- ${cell(label.file)}: ${label.levels!.map(formatPrice).join(', ')}`);
+  }
+  const failures = [...a.scores.map(score => ['A', score] as const), ...b.scores.map(score => ['B', score] as const)].filter(([, score]) => score.error);
+  if (failures.length > 0) {
+    lines.push('', '## Failures', '');
+    for (const [name, score] of failures) lines.push(`- ${name} ${cell(score.file)}: ${score.error}`);
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,198 @@
+// Self-contained Markdown, JSON and printable HTML exports of an analysis run
+import { createElement } from "react";
+import type { AnalysisRun } from "./historyStore";
+import { describeIndicators } from "./marketData";
+import { TRADE_TYPES, formatPrice, formatRatio, tradeTypeLabels, type PriceLevel, type SetupStatus, type TradePlan } from "./tradePlan";
+import { sortTimeframes, timeframeLabel } from "./timeframes";
+
+export const REPORT_FORMAT_VERSION = 1;
+
+export interface ReportImage {
+  name: string;
+  timeframe?: string;
+  dataUrl: string; // Embedded so the report needs nothing else to render
+}
+
+export interface AnalysisReport {
+  formatVersion: number;
+  exportedAt: string;
+  run: Omit<AnalysisRun, 'images'>;
+  images: ReportImage[];
+}
+
+export type ReportFormat = 'markdown' | 'json' | 'html';
+
+const statusLabels: Record<SetupStatus, string> = {
+  available: '✅ Available',
+  wait: '⏳ Wait',
+  not_available: '❌ Not Available',
+};
+
+export function createReport(run: AnalysisRun, images: ReportImage[]): AnalysisReport {
+  // The run's thumbnails are replaced by the full images
+  const copy: Partial<AnalysisRun> = { ...run };
+  delete copy.images;
+  return { formatVersion: REPORT_FORMAT_VERSION, exportedAt: new Date().toISOString(), run: copy as AnalysisReport['run'], images };
+}
+
+// Table cells cannot contain raw pipes or line breaks
+const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n+/g, ' ');
+
+function levelsMarkdown(title: string, levels: PriceLevel[]): string {
+  if (levels.length === 0) return `**${title}:** none identified`;
+  return [`**${title}**`, '', '| Price | Significance |', '| --- | --- |', ...levels.map(level => `| ${formatPrice(level.price)} | ${cell(level.significance)} |`)].join('\n');
+}
+
+export function tradePlanToMarkdown(plan: TradePlan): string {
+  const lines: string[] = ['### Summary', '', plan.summary, '', '### Trade Setups', ''];
+  lines.push('| Type | Status | Direction | Entry | Stop Loss | Take Profits | Confirmation |', '| --- | --- | --- | --- | --- | --- | --- |');
+  for (const type of TRADE_TYPES) {
+    const setup = plan.setups[type];
+    const targets = setup.takeProfits.map(tp => `${formatPrice(tp.price)} (${formatRatio(tp.riskReward)})`).join(', ') || '—';
+    lines.push(`| ${tradeTypeLabels[type].title} | ${statusLabels[setup.status]} | ${setup.direction} | ${formatPrice(setup.entry)} | ${formatPrice(setup.stopLoss)} | ${targets} | ${cell(setup.timeframeConfirmation) || '—'} |`);
+  }
+  for (const type of TRADE_TYPES) {
+    const { waitCondition, notes } = plan.setups[type];
+    if (!waitCondition && !notes) continue;
+    lines.push('', `**${tradeTypeLabels[type].title}**`, '');
+    if (waitCondition) {
+      lines.push(
+        `- Wait for: ${waitCondition.waitFor}`,
+        `- Watch level: ${formatPrice(waitCondition.watchLevel)}`,
+        `- Confirmation: ${waitCondition.confirmation}`,
+        `- Max wait: ${waitCondition.maxWaitTime}`,
+      );
+    }
+    if (notes) lines.push(`- Notes: ${notes}`);
+  }
+  if (plan.viabilityConditions) lines.push('', '### When to Check Again', '', plan.viabilityConditions);
+
+  const { marketState, keyLevels, riskManagement, recommendedActions } = plan;
+  lines.push(
+    '', '### Current Market State', '',
+    `- Trend: ${marketState.trend}`,
+    `- Momentum: ${marketState.momentum}`,
+    `- Volatility: ${marketState.volatility}`,
+    `- Current price: ${formatPrice(marketState.currentPrice)}`,
+    ...marketState.rsi.map(reading => `- RSI ${reading.timeframe}: ${reading.value ?? '—'}`),
+    '', '### Key Levels to Monitor', '',
+    levelsMarkdown('Support', keyLevels.support), '',
+    levelsMarkdown('Resistance', keyLevels.resistance), '',
+    levelsMarkdown('Fibonacci', keyLevels.fibonacci.map(fib => ({ price: fib.price, significance: fib.ratio.toString() }))),
+    '', '### Risk Management', '',
+    `- Max risk per trade: ${riskManagement.maxRiskPerTrade}`,
+    `- Correlation check: ${riskManagement.correlationCheck}`,
+    '', '### Recommended Action', '',
+    `- Immediate: ${recommendedActions.immediate}`,
+    `- Today: ${recommendedActions.today}`,
+    `- This week: ${recommendedActions.thisWeek}`,
+  );
+  return lines.join('\n');
+}
+
+function reportTitle(report: AnalysisReport): string {
+  return `${report.run.symbol || 'Chart'} analysis — ${new Date(report.run.createdAt).toLocaleString()}`;
+}
+
+export function buildMarkdownReport(report: AnalysisReport): string {
+  const { run, images } = report;
+  const lines: string[] = [
+    `# ${reportTitle(report)}`,
+    '',
+    ...(run.instrument ? [`**Instrument:** ${run.instrument.symbol || '—'} (${run.instrument.assetClass}, tick ${run.instrument.tickSize})  `] : []),
+    `**Strategy:** ${run.strategy.name} v${run.strategy.version}  `,
+    `**Timeframes:** ${run.ladder.map(timeframeLabel).join(' / ')}  `,
+    `**Models:** ${Object.entries(run.models).map(([step, model]) => `${step === 'final' ? 'final' : timeframeLabel(step)} ${model}`).join(', ')}`,
+  ];
+  if (run.tradePlan) lines.push('', '## Final Suggestion', '', tradePlanToMarkdown(run.tradePlan));
+  lines.push('', '## Timeframe Analyses');
+  for (const timeframe of sortTimeframes(Object.keys(run.analyses))) {
+    lines.push('', `### ${timeframeLabel(timeframe)}`);
+    for (const image of images.filter(img => img.timeframe === timeframe)) lines.push('', `![${image.name}](${image.dataUrl})`);
+    const indicators = run.marketData?.[timeframe];
+    if (indicators) lines.push('', describeIndicators(timeframe, indicators));
+    lines.push('', run.analyses[timeframe]);
+  }
+  const unmatched = images.filter(img => !img.timeframe || !run.analyses[img.timeframe]);
+  if (unmatched.length > 0) {
+    lines.push('', '## Other Charts');
+    for (const image of unmatched) lines.push('', `![${image.name}](${image.dataUrl})`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function buildJsonReport(report: AnalysisReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+const PRINT_STYLES = `
+  body { font-family: system-ui, sans-serif; color: #111; max-width: 960px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { font-size: 1.6rem; } h2 { border-bottom: 1px solid #ccc; padding-bottom: .25rem; margin-top: 2rem; }
+  table { border-collapse: collapse; width: 100%; margin: .5rem 0; font-size: .9rem; }
+  th, td { border: 1px solid #ccc; padding: .25rem .5rem; text-align: left; }
+  th { background: #f3f4f6; }
+  img { max-width: 100%; border: 1px solid #ddd; }
+  h2, h3 { break-after: avoid; } table, img { break-inside: avoid; }
+  @page { margin: 1.5cm; }
+`;
+
+const escapeHtml = (text: string) => text.replace(/[&<>"]/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[ch]!);
+
+// Renders the Markdown report with the same renderer as the tabs; react-dom/server is only loaded when exporting
+export async function buildHtmlReport(report: AnalysisReport): Promise<string> {
+  const [{ renderToStaticMarkup }, { default: ReactMarkdown, defaultUrlTransform }, { default: remarkGfm }] = await Promise.all([
+    import("react-dom/server"),
+    import("react-markdown"),
+    import("remark-gfm"),
+  ]);
+  const body = renderToStaticMarkup(createElement(ReactMarkdown, {
+    remarkPlugins: [remarkGfm],
+    urlTransform: (url: string) => url.startsWith('data:image/') ? url : defaultUrlTransform(url),
+  }, buildMarkdownReport(report)));
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(reportTitle(report))}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+// "EURUSD-2025-01-31", shared by every file exported from a run
+export function runFileStem(run: Pick<AnalysisRun, 'symbol' | 'createdAt'>): string {
+  const symbol = (run.symbol || 'analysis').replace(/[^a-z0-9-]+/gi, '-');
+  return `${symbol}-${run.createdAt.slice(0, 10)}`;
+}
+
+export function reportFileName(report: AnalysisReport, format: ReportFormat): string {
+  const extension = { markdown: 'md', json: 'json', html: 'html' }[format];
+  return `${runFileStem(report.run)}.${extension}`;
+}
+
+export function downloadFile(fileName: string, content: BlobPart, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// Opens the HTML report in a new window and brings up the print dialog, where it can be saved as PDF
+export function printHtmlReport(html: string): void {
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+  const win = window.open(url, '_blank');
+  if (!win) {
+    URL.revokeObjectURL(url);
+    throw new Error('The report window was blocked. Allow pop-ups for this site to print.');
+  }
+  win.addEventListener('load', () => {
+    win.print();
+    URL.revokeObjectURL(url);
+  });
+}
@@ -0,0 +1,185 @@
+// Model responses cached by content hash: an in-memory LRU in front of a persistent store (IndexedDB in the browser)
+import type { ResponseSchema } from "@google/generative-ai";
+import { LRUCache } from 'lru-cache';
+import { clear, get, getAll, isIndexedDbAvailable, put, remove } from "./idb";
+import { describeModel, type ModelConfig } from "./visionProviders";
+
+const SETTINGS_KEY = 'trading-guide:cache-settings';
+const STATS_KEY = 'trading-guide:cache-stats';
+const MEMORY_ENTRIES = 100;
+
+export interface CacheSettings {
+  ttlHours: number;
+  maxEntries: number;
+}
+
+export const defaultCacheSettings: CacheSettings = { ttlHours: 24, maxEntries: 500 };
+
+export interface CacheEntry {
+  key: string;
+  response: string;
+  model: string;
+  createdAt: number;
+  lastUsedAt: number;
+  hits: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+// Where entries outlive the in-memory cache
+export interface CacheBackend {
+  get(key: string): Promise<CacheEntry | undefined>;
+  put(entry: CacheEntry): Promise<void>;
+  getAll(): Promise<CacheEntry[]>;
+  remove(keys: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const indexedDbBackend: CacheBackend = {
+  get: key => get<CacheEntry>('responses', key),
+  put: entry => put('responses', entry),
+  getAll: () => getAll<CacheEntry>('responses'),
+  remove: keys => remove('responses', keys),
+  clear: () => clear('responses'),
+};
+
+let customBackend: CacheBackend | null = null;
+
+// Hosts without IndexedDB (the CLI) can install their own store
+export function setCacheBackend(backend: CacheBackend | null) {
+  customBackend = backend;
+}
+
+const persistentStore = (): CacheBackend | null => customBackend ?? (isIndexedDbAvailable() ? indexedDbBackend : null);
+
+const memory = new LRUCache<string, CacheEntry>({ max: MEMORY_ENTRIES });
+
+export async function sha256Hex(data: ArrayBuffer | string): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Identical screenshots share entries whatever their file name; any change to the bytes, prompt,
+// schema, model or strategy version makes a new one
+export async function responseCacheKey({ image, prompt, model, responseSchema, strategyVersion, sample = 0 }: {
+  image?: File; // Absent for text-only requests
+  prompt: string;
+  model: ModelConfig;
+  responseSchema?: ResponseSchema;
+  strategyVersion?: string;
+  sample?: number;
+}): Promise<string> {
+  const imageHash = image ? await sha256Hex(await image.arrayBuffer()) : null;
+  return sha256Hex(JSON.stringify({
+    image: imageHash,
+    prompt,
+    schema: responseSchema ?? null,
+    model: describeModel(model),
+    strategy: strategyVersion ?? null,
+    // Only repeat samples of a consensus run are keyed apart, so single runs keep hitting older entries
+    ...(sample > 0 ? { sample } : {}),
+  }));
+}
+
+export function loadCacheSettings(): CacheSettings {
+  if (typeof window === 'undefined') return defaultCacheSettings;
+  try {
+    const stored = window.localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...defaultCacheSettings, ...JSON.parse(stored) } : defaultCacheSettings;
+  } catch {
+    return defaultCacheSettings;
+  }
+}
+
+export function saveCacheSettings(settings: CacheSettings) {
+  window.localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  pruneCache().catch(err => console.warn("Could not prune the response cache", err));
+}
+
+export function loadCacheStats(): CacheStats {
+  if (typeof window === 'undefined') return { hits: 0, misses: 0 };
+  try {
+    return { hits: 0, misses: 0, ...JSON.parse(window.localStorage.getItem(STATS_KEY) ?? '{}') };
+  } catch {
+    return { hits: 0, misses: 0 };
+  }
+}
+
+function countLookup(hit: boolean) {
+  if (typeof window === 'undefined') return;
+  const stats = loadCacheStats();
+  window.localStorage.setItem(STATS_KEY, JSON.stringify(hit ? { ...stats, hits: stats.hits + 1 } : { ...stats, misses: stats.misses + 1 }));
+}
+
+export function resetCacheStats() {
+  window.localStorage.removeItem(STATS_KEY);
+}
+
+const isExpired = (entry: CacheEntry, settings: CacheSettings) => Date.now() - entry.createdAt > settings.ttlHours * 60 * 60 * 1000;
+
+// Cache failures only cost a model call, so storage errors are logged and never thrown
+export async function getCachedResponse(key: string): Promise<string | undefined> {
+  const settings = loadCacheSettings();
+  const store = persistentStore();
+  let entry = memory.get(key);
+  if (!entry && store) {
+    entry = await store.get(key).catch(err => {
+      console.warn("Could not read the response cache", err);
+      return undefined;
+    });
+  }
+  if (!entry || isExpired(entry, settings)) {
+    if (entry) await deleteCacheEntries([entry.key]).catch(err => console.warn("Could not expire a cache entry", err));
+    countLookup(false);
+    return undefined;
+  }
+  const used = { ...entry, lastUsedAt: Date.now(), hits: entry.hits + 1 };
+  memory.set(key, used);
+  store?.put(used).catch(err => console.warn("Could not update the response cache", err));
+  countLookup(true);
+  return used.response;
+}
+
+export async function setCachedResponse(key: string, response: string, model: ModelConfig): Promise<void> {
+  const now = Date.now();
+  const entry: CacheEntry = { key, response, model: describeModel(model), createdAt: now, lastUsedAt: now, hits: 0 };
+  memory.set(key, entry);
+  const store = persistentStore();
+  if (!store) return;
+  try {
+    await store.put(entry);
+    await pruneCache();
+  } catch (err) {
+    console.warn("Could not write the response cache", err);
+  }
+}
+
+export async function listCacheEntries(): Promise<CacheEntry[]> {
+  const store = persistentStore();
+  const entries = store ? await store.getAll() : Array.from(memory.values());
+  return entries.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+}
+
+// Drop expired entries, then the least recently used beyond the size limit
+export async function pruneCache(): Promise<void> {
+  const settings = loadCacheSettings();
+  const entries = await listCacheEntries();
+  const expired = entries.filter(entry => isExpired(entry, settings));
+  const overflow = entries.filter(entry => !isExpired(entry, settings)).slice(settings.maxEntries);
+  await deleteCacheEntries([...expired, ...overflow].map(entry => entry.key));
+}
+
+export async function deleteCacheEntries(keys: string[]): Promise<void> {
+  keys.forEach(key => memory.delete(key));
+  const store = persistentStore();
+  if (keys.length > 0 && store) await store.remove(keys);
+}
+
+export async function purgeCache(): Promise<void> {
+  memory.clear();
+  await persistentStore()?.clear();
+}
@@ -0,0 +1,171 @@
+// Strategy definitions: per-timeframe prompts, context-passing rules and the final-plan template
+import { builtInStrategies } from "./builtInStrategies";
+import { describeInstrument, distanceUnitText, type InstrumentProfile } from "./instrumentProfile";
+import { describeIndicators, type MarketDataByTimeframe } from "./marketData";
+import { parseTimeframe, sortTimeframes, timeframeLabel } from "./timeframes";
+
+export type StepId = string; // Canonical timeframe id of the step, e.g. '4h'
+
+// Which earlier step outputs a prompt receives, truncated to maxChars (omit for the full text)
+export interface ContextRule {
+  from: StepId;
+  maxChars?: number;
+}
+
+export interface StrategyStep {
+  timeframe: StepId;
+  prompt: string; // Template with {{placeholders}}
+  context: ContextRule[];
+}
+
+export interface StrategySnapshot {
+  version: number;
+  savedAt: string;
+  description: string;
+  steps: StrategyStep[];
+  finalPrompt: string;
+  finalContext: ContextRule[];
+}
+
+export interface Strategy extends StrategySnapshot {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  basedOn?: string; // Id of the strategy this one was cloned from
+  history: StrategySnapshot[]; // Earlier versions, newest first
+}
+
+// A timeframe of the user's ladder paired with the strategy step that analyzes it
+export interface LadderStep {
+  timeframe: string;
+  step: StrategyStep;
+  exact: boolean; // False when the strategy has no step for this timeframe and a neighbour's prompt is reused
+}
+
+export const DEFAULT_STRATEGY_ID = 'fib-rsi';
+
+export function getBuiltInStrategies(): Strategy[] {
+  return builtInStrategies;
+}
+
+// Placeholders available in every template, in addition to {{analysis.<step>}}
+export const COMMON_PLACEHOLDERS = ['strategyName', 'timeframe', 'context', 'instrument', 'distanceUnit', 'marketData'];
+
+export function findPlaceholders(template: string): string[] {
+  return Array.from(new Set(Array.from(template.matchAll(/\{\{\s*([\w.]+)\s*\}\}/g), match => match[1])));
+}
+
+// Placeholders a template uses that its context rules do not provide
+export function findUnknownPlaceholders(template: string, context: ContextRule[]): string[] {
+  const known = new Set([...COMMON_PLACEHOLDERS, ...context.map(rule => `analysis.${rule.from}`)]);
+  return findPlaceholders(template).filter(name => !known.has(name));
+}
+
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, name: string) => variables[name] ?? '');
+}
+
+// Bring stored strategies up to canonical timeframe ids ('15min' -> '15m') in ladder order
+export function normalizeStrategy(strategy: Strategy): Strategy {
+  const canonical = (id: string) => parseTimeframe(id) ?? id;
+  const normalizeRules = (rules: ContextRule[]) => rules.map(rule => ({ ...rule, from: canonical(rule.from) }));
+  const steps = strategy.steps.map(step => ({ ...step, timeframe: canonical(step.timeframe), context: normalizeRules(step.context) }));
+  const order = sortTimeframes(steps.map(step => step.timeframe));
+  steps.sort((a, b) => order.indexOf(a.timeframe) - order.indexOf(b.timeframe));
+  return { ...strategy, steps, finalContext: normalizeRules(strategy.finalContext) };
+}
+
+// Pair each ladder timeframe with a strategy step: the exact timeframe when the strategy has one,
+// otherwise the step at the same relative position in the strategy's own top-down order
+export function planLadder(strategy: Strategy, ladder: string[]): LadderStep[] {
+  const steps = strategy.steps;
+  return ladder.map((timeframe, index) => {
+    const exact = steps.find(step => step.timeframe === timeframe);
+    if (exact) return { timeframe, step: exact, exact: true };
+    const position = ladder.length > 1 ? Math.round(index * (steps.length - 1) / (ladder.length - 1)) : 0;
+    return { timeframe, step: steps[position], exact: false };
+  });
+}
+
+function truncate(text: string, maxChars?: number): string {
+  return maxChars !== undefined && text.length > maxChars ? `${text.substring(0, maxChars)}...` : text;
+}
+
+// Build a prompt's variables from the ladder steps whose strategy step is named in its context rules.
+// {{analysis.<step>}} gets the nearest such output; {{context}} lists all of them with their real timeframes.
+function contextVariables(
+  strategy: Strategy,
+  timeframe: string,
+  context: ContextRule[],
+  available: LadderStep[],
+  outputs: Record<string, string>,
+  instrument?: InstrumentProfile
+): Record<string, string> {
+  const variables: Record<string, string> = {
+    strategyName: strategy.name,
+    timeframe: timeframeLabel(timeframe),
+    instrument: instrument ? describeInstrument(instrument) : '',
+    distanceUnit: distanceUnitText(instrument),
+  };
+  const lines: string[] = [];
+  for (const ladderStep of available) {
+    const rule = context.find(r => r.from === ladderStep.step.timeframe);
+    if (!rule) continue;
+    const text = truncate(outputs[ladderStep.timeframe] ?? `No ${timeframeLabel(ladderStep.timeframe)} analysis available.`, rule.maxChars);
+    variables[`analysis.${rule.from}`] = text;
+    lines.push(`${timeframeLabel(ladderStep.timeframe)} analysis: ${text}`);
+  }
+  for (const rule of context) {
+    variables[`analysis.${rule.from}`] ??= `No ${timeframeLabel(rule.from)} analysis available.`;
+  }
+  variables.context = lines.join('\n');
+  return variables;
+}
+
+// Templates that do not place {{instrument}} themselves get it as a preamble
+function withInstrument(template: string, prompt: string, instrument?: InstrumentProfile): string {
+  if (!instrument || findPlaceholders(template).includes('instrument')) return prompt;
+  return `${describeInstrument(instrument)}\n\n${prompt}`;
+}
+
+function marketDataText(timeframes: string[], marketData?: MarketDataByTimeframe): string {
+  const sections = timeframes.filter(timeframe => marketData?.[timeframe]).map(timeframe => describeIndicators(timeframe, marketData![timeframe]!));
+  if (sections.length === 0) return '';
+  return ['These values are computed exactly from OHLCV data. Use them instead of estimating RSI, Fibonacci levels, swings or support and resistance from the chart.', ...sections].join('\n\n');
+}
+
+// Likewise {{marketData}}, which follows the instructions it grounds
+function withMarketData(template: string, prompt: string, text: string): string {
+  if (!text || findPlaceholders(template).includes('marketData')) return prompt;
+  return `${prompt}\n\n${text}`;
+}
+
+export function renderStepPrompt(
+  strategy: Strategy,
+  ladderSteps: LadderStep[],
+  index: number,
+  outputs: Record<string, string>,
+  instrument?: InstrumentProfile,
+  marketData?: MarketDataByTimeframe
+): string {
+  const { timeframe, step, exact } = ladderSteps[index];
+  const data = marketDataText([timeframe], marketData);
+  const variables = { ...contextVariables(strategy, timeframe, step.context, ladderSteps.slice(0, index), outputs, instrument), marketData: data };
+  const prompt = withMarketData(step.prompt, withInstrument(step.prompt, renderTemplate(step.prompt, variables), instrument), data);
+  if (exact) return prompt;
+  return `This chart is on the ${timeframeLabel(timeframe)} timeframe. The instructions below were written for the ${timeframeLabel(step.timeframe)} chart; apply them to this ${timeframeLabel(timeframe)} chart instead.\n\n${prompt}`;
+}
+
+// The final prompt gets the computed values of every timeframe
+export function renderFinalPrompt(
+  strategy: Strategy,
+  ladderSteps: LadderStep[],
+  outputs: Record<string, string>,
+  instrument?: InstrumentProfile,
+  marketData?: MarketDataByTimeframe
+): string {
+  const lowest = ladderSteps[ladderSteps.length - 1]?.timeframe ?? '';
+  const data = marketDataText(ladderSteps.map(ladderStep => ladderStep.timeframe), marketData);
+  const prompt = renderTemplate(strategy.finalPrompt, { ...contextVariables(strategy, lowest, strategy.finalContext, ladderSteps, outputs, instrument), marketData: data });
+  return withMarketData(strategy.finalPrompt, withInstrument(strategy.finalPrompt, prompt, instrument), data);
+}
@@ -0,0 +1,95 @@
+// User strategies (clones of built-ins) with version history, persisted in localStorage
+import { v4 as uuidv4 } from 'uuid';
+import { DEFAULT_STRATEGY_ID, getBuiltInStrategies, normalizeStrategy, type Strategy, type StrategySnapshot } from "./strategies";
+
+const STRATEGIES_STORAGE_KEY = 'trading-guide:strategies';
+const SELECTED_STORAGE_KEY = 'trading-guide:selected-strategy';
+const MAX_HISTORY = 20;
+
+function loadCustomStrategies(): Strategy[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored: Strategy[] = JSON.parse(window.localStorage.getItem(STRATEGIES_STORAGE_KEY) ?? '[]');
+    return stored.map(normalizeStrategy);
+  } catch {
+    return [];
+  }
+}
+
+function saveCustomStrategies(strategies: Strategy[]) {
+  window.localStorage.setItem(STRATEGIES_STORAGE_KEY, JSON.stringify(strategies));
+}
+
+export function listStrategies(): Strategy[] {
+  return [...getBuiltInStrategies(), ...loadCustomStrategies()];
+}
+
+export function getStrategy(id: string): Strategy {
+  const strategies = listStrategies();
+  return strategies.find(strategy => strategy.id === id) ?? strategies.find(strategy => strategy.id === DEFAULT_STRATEGY_ID)!;
+}
+
+function snapshotOf(strategy: Strategy): StrategySnapshot {
+  const { version, savedAt, description, steps, finalPrompt, finalContext } = strategy;
+  return { version, savedAt, description, steps, finalPrompt, finalContext };
+}
+
+export function cloneStrategy(source: Strategy, name = `${source.name} (copy)`): Strategy {
+  const clone: Strategy = {
+    ...structuredClone(snapshotOf(source)),
+    id: uuidv4(),
+    name,
+    version: 1,
+    savedAt: new Date().toISOString(),
+    builtIn: false,
+    basedOn: source.id,
+    history: [],
+  };
+  saveCustomStrategies([...loadCustomStrategies(), clone]);
+  return clone;
+}
+
+// Save edits as a new version, keeping the previous one in history
+export function saveStrategyVersion(strategy: Strategy, edits: Partial<Pick<Strategy, 'name' | 'description' | 'steps' | 'finalPrompt' | 'finalContext'>>): Strategy {
+  if (strategy.builtIn) throw new Error('Built-in strategies are read-only; clone one to edit it.');
+  const custom = loadCustomStrategies();
+  const current = custom.find(s => s.id === strategy.id) ?? strategy;
+  const updated: Strategy = normalizeStrategy({
+    ...current,
+    ...edits,
+    version: current.version + 1,
+    savedAt: new Date().toISOString(),
+    history: [snapshotOf(current), ...current.history].slice(0, MAX_HISTORY),
+  });
+  saveCustomStrategies(custom.map(s => s.id === updated.id ? updated : s));
+  return updated;
+}
+
+// Bring back an earlier version's content as the newest version
+export function restoreStrategyVersion(strategy: Strategy, version: number): Strategy {
+  const snapshot = strategy.history.find(s => s.version === version);
+  if (!snapshot) throw new Error(`Version ${version} of ${strategy.name} not found.`);
+  const { description, steps, finalPrompt, finalContext } = snapshot;
+  return saveStrategyVersion(strategy, { description, steps, finalPrompt, finalContext });
+}
+
+// A strategy as it was at an earlier version, for running old prompts side by side with the current ones
+export function strategyAtVersion(strategy: Strategy, version: number): Strategy {
+  if (version === strategy.version) return strategy;
+  const snapshot = strategy.history.find(s => s.version === version);
+  if (!snapshot) throw new Error(`Version ${version} of ${strategy.name} not found.`);
+  return { ...strategy, ...snapshot, history: [] };
+}
+
+export function deleteStrategy(id: string) {
+  saveCustomStrategies(loadCustomStrategies().filter(strategy => strategy.id !== id));
+}
+
+export function loadSelectedStrategyId(): string {
+  if (typeof window === 'undefined') return DEFAULT_STRATEGY_ID;
+  return window.localStorage.getItem(SELECTED_STORAGE_KEY) ?? DEFAULT_STRATEGY_ID;
+}
+
+export function saveSelectedStrategyId(id: string) {
+  window.localStorage.setItem(SELECTED_STORAGE_KEY, id);
+}
@@ -0,0 +1,94 @@
+// Work out which ladder timeframe each uploaded chart shows: file name conventions first, the model only when those fail
+import { SchemaType, type Schema } from "@google/generative-ai";
+import { parseTimeframe, timeframeLabel } from "./timeframes";
+
+export type DetectionSource = 'filename' | 'model' | 'manual';
+
+export interface TimeframeDetection {
+  timeframe: string;
+  confidence: number; // 0-1
+  source: DetectionSource;
+}
+
+// Filename matches at or above this confidence skip the model call
+export const FILENAME_CONFIDENCE_THRESHOLD = 0.7;
+
+// MetaTrader period names (M15, H4, D1, W1, MN1)
+const METATRADER_PERIODS: Record<string, string> = {
+  m1: '1m', m5: '5m', m15: '15m', m30: '30m',
+  h1: '1h', h4: '4h', d1: '1D', w1: '1W', mn: '1M', mn1: '1M',
+};
+
+// Timeframe tokens in a file name. Tokens with a unit ("4h", "15min", "H4") are strong evidence;
+// TradingView snapshot names carry the interval in minutes after the symbol ("OANDA_EURUSD, 240_..."), which is weaker.
+export function detectFromFilename(name: string, ladder: string[]): TimeframeDetection | null {
+  const stem = name.replace(/\.[a-z0-9]+$/i, '');
+  for (const token of stem.split(/[^a-zA-Z0-9]+/)) {
+    const timeframe = METATRADER_PERIODS[token.toLowerCase()] ?? (/^\d+[a-zA-Z]+$/.test(token) ? parseTimeframe(token) : null);
+    if (timeframe && ladder.includes(timeframe)) return { timeframe, confidence: 0.9, source: 'filename' };
+  }
+  const interval = stem.match(/,\s*(\d{1,4})(?:[_\s]|$)/)?.[1];
+  const timeframe = interval ? parseTimeframe(interval) : null;
+  if (timeframe && ladder.includes(timeframe)) return { timeframe, confidence: 0.7, source: 'filename' };
+  return null;
+}
+
+export function detectionPrompt(ladder: string[]): string {
+  return `What is the exact timeframe shown in this trading chart? Look at the interval selector, the axis labels and the candle spacing. The timeframe must be one of the following: ${ladder.join(', ')}. Use "unknown" if you cannot tell. Also give your confidence from 0 to 1.`;
+}
+
+export function detectionSchema(ladder: string[]): Schema {
+  return {
+    type: SchemaType.OBJECT,
+    properties: {
+      timeframe: { type: SchemaType.STRING, format: 'enum', enum: [...ladder, 'unknown'] },
+      confidence: { type: SchemaType.NUMBER, description: 'Confidence from 0 to 1' },
+    },
+    required: ['timeframe', 'confidence'],
+  };
+}
+
+// Accept JSON or free text, and any spelling of a ladder timeframe ("4 hours", "H4", "240")
+export function parseDetectionReply(reply: string, ladder: string[]): TimeframeDetection | null {
+  let answer = reply.trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+  let confidence = 0.6; // Free-text replies carry no confidence of their own
+  try {
+    const data = JSON.parse(answer);
+    // A bare number or string such as 240 or "4h" also parses; it is read as text below
+    if (typeof data === 'object' && data !== null) {
+      answer = String(data.timeframe ?? '');
+      if (typeof data.confidence === 'number') confidence = data.confidence > 1 ? data.confidence / 100 : data.confidence;
+    }
+  } catch {
+    // Not JSON: look for a timeframe in the text
+  }
+  const candidates = [answer, ...answer.split(/[^a-zA-Z0-9]+/)];
+  for (const candidate of candidates) {
+    const timeframe = METATRADER_PERIODS[candidate.toLowerCase()] ?? parseTimeframe(candidate.replace(/\s+/g, ''));
+    if (timeframe && ladder.includes(timeframe)) return { timeframe, confidence: Math.max(0, Math.min(1, confidence)), source: 'model' };
+  }
+  return null;
+}
+
+export interface TimeframeConflicts {
+  duplicates: Record<string, string[]>; // Timeframe -> names of the images set to it
+  missing: string[]; // Ladder timeframes without an image
+}
+
+export function findTimeframeConflicts(assignments: { name: string; timeframe?: string }[], ladder: string[]): TimeframeConflicts {
+  const byTimeframe: Record<string, string[]> = {};
+  for (const { name, timeframe } of assignments) {
+    if (timeframe) (byTimeframe[timeframe] ??= []).push(name);
+  }
+  return {
+    duplicates: Object.fromEntries(Object.entries(byTimeframe).filter(([, names]) => names.length > 1)),
+    missing: ladder.filter(timeframe => !byTimeframe[timeframe]),
+  };
+}
+
+export function describeConflicts({ duplicates, missing }: TimeframeConflicts): string[] {
+  return [
+    ...Object.entries(duplicates).map(([timeframe, names]) => `${names.length} charts are set to ${timeframeLabel(timeframe)}: ${names.join(', ')}.`),
+    ...(missing.length > 0 ? [`No chart for ${missing.map(timeframeLabel).join(', ')}.`] : []),
+  ];
+}
@@ -0,0 +1,91 @@
+// Timeframe parsing and the configurable ladder of timeframes analyzed top-down
+
+const LADDER_STORAGE_KEY = 'trading-guide:timeframe-ladder';
+
+const MINUTES_PER = { m: 1, h: 60, D: 1440, W: 10080, M: 43200 } as const;
+type Unit = keyof typeof MINUTES_PER;
+
+export interface TimeframeLadder {
+  id: string;
+  name: string;
+  timeframes: string[]; // Canonical ids ordered from highest to lowest, e.g. ['4h', '1h', '15m']
+}
+
+export const LADDER_PRESETS: TimeframeLadder[] = [
+  { id: 'intraday', name: 'Intraday (4h / 1h / 15m / 5m)', timeframes: ['4h', '1h', '15m', '5m'] },
+  { id: 'swing', name: 'Swing (1W / 1D / 4h)', timeframes: ['1W', '1D', '4h'] },
+  { id: 'futures', name: 'Futures desk (1h / 5m / 1m)', timeframes: ['1h', '5m', '1m'] },
+];
+
+export const DEFAULT_LADDER = LADDER_PRESETS[0];
+
+// Case matters only for m (minute) vs M (month), as on TradingView
+function unitFromSuffix(suffix: string): Unit | null {
+  if (suffix === 'M' || /^(mo|mon|mth|months?)$/i.test(suffix)) return 'M';
+  if (/^(m|mins?|minutes?)$/i.test(suffix)) return 'm';
+  if (/^(h|hrs?|hours?)$/i.test(suffix)) return 'h';
+  if (/^(d|days?)$/i.test(suffix)) return 'D';
+  if (/^(w|wks?|weeks?)$/i.test(suffix)) return 'W';
+  return null;
+}
+
+export function timeframeMinutes(id: string): number {
+  const match = id.match(/^(\d+)([mhDWM])$/);
+  return match ? Number(match[1]) * MINUTES_PER[match[2] as Unit] : 0;
+}
+
+// Canonical id for a duration: the largest unit that divides it evenly
+function canonicalId(minutes: number): string {
+  for (const unit of ['M', 'W', 'D', 'h'] as Unit[]) {
+    if (minutes % MINUTES_PER[unit] === 0) return `${minutes / MINUTES_PER[unit]}${unit}`;
+  }
+  return `${minutes}m`;
+}
+
+// Accepts "4h", "4H", "240", "15min", "1 day", "D", "1W" and returns a canonical id, or null
+export function parseTimeframe(text: string): string | null {
+  const cleaned = text.trim().replace(/[.\s]+/g, '');
+  const match = cleaned.match(/^(\d*)([a-zA-Z]*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+  const count = match[1] ? Number(match[1]) : 1;
+  // A bare number is minutes, as in TradingView's interval field
+  const unit = match[2] ? unitFromSuffix(match[2]) : 'm';
+  if (!unit || count <= 0) return null;
+  return canonicalId(count * MINUTES_PER[unit]);
+}
+
+export function timeframeLabel(id: string): string {
+  const match = id.match(/^(\d+)([mhDWM])$/);
+  if (!match) return id;
+  return match[2] === 'm' ? `${match[1]}min` : `${match[1]}${match[2].toUpperCase()}`;
+}
+
+// Parse a comma/space separated list into a deduplicated ladder ordered highest first
+export function parseLadder(text: string): { timeframes: string[]; invalid: string[] } {
+  const timeframes = new Set<string>();
+  const invalid: string[] = [];
+  for (const part of text.split(/[,;/\s]+/).filter(Boolean)) {
+    const id = parseTimeframe(part);
+    if (id) timeframes.add(id); else invalid.push(part);
+  }
+  return { timeframes: sortTimeframes(Array.from(timeframes)), invalid };
+}
+
+export function sortTimeframes(ids: string[]): string[] {
+  return [...ids].sort((a, b) => timeframeMinutes(b) - timeframeMinutes(a));
+}
+
+export function loadLadder(): TimeframeLadder {
+  if (typeof window === 'undefined') return DEFAULT_LADDER;
+  try {
+    const stored = window.localStorage.getItem(LADDER_STORAGE_KEY);
+    const ladder = stored ? JSON.parse(stored) as TimeframeLadder : null;
+    return ladder && ladder.timeframes.length > 0 ? ladder : DEFAULT_LADDER;
+  } catch {
+    return DEFAULT_LADDER;
+  }
+}
+
+export function saveLadder(ladder: TimeframeLadder) {
+  window.localStorage.setItem(LADDER_STORAGE_KEY, JSON.stringify(ladder));
+}
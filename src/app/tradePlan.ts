@@ -0,0 +1,241 @@
+// Structured trade plan returned by the final analysis step
+import { SchemaType, type Schema } from "@google/generative-ai";
+
+export type SetupStatus = 'available' | 'wait' | 'not_available';
+export type TradeDirection = 'long' | 'short' | 'none';
+export type TradeType = 'swing' | 'intraday' | 'scalp';
+
+export const TRADE_TYPES: TradeType[] = ['swing', 'intraday', 'scalp'];
+
+export const tradeTypeLabels: Record<TradeType, { title: string; horizon: string }> = {
+  swing: { title: 'Swing Trade', horizon: '2-7 days' },
+  intraday: { title: 'Intraday Trade', horizon: 'Same day' },
+  scalp: { title: 'Scalp Trade', horizon: 'Minutes to hours' },
+};
+
+export const formatPrice = (price: number | null | undefined) =>
+  price === null || price === undefined ? '—' : price.toLocaleString(undefined, { maximumFractionDigits: 8 });
+
+export const formatRatio = (ratio: number | null | undefined) =>
+  ratio === null || ratio === undefined ? '—' : `1:${ratio.toFixed(2)}`;
+
+export interface TakeProfit {
+  price: number;
+  riskReward: number | null;
+}
+
+export interface WaitCondition {
+  waitFor: string;
+  watchLevel: number | null;
+  confirmation: string;
+  maxWaitTime: string;
+}
+
+export interface TradeSetup {
+  status: SetupStatus;
+  direction: TradeDirection;
+  entry: number | null;
+  stopLoss: number | null;
+  takeProfits: TakeProfit[];
+  timeframeConfirmation: string;
+  waitCondition: WaitCondition | null;
+  notes: string;
+}
+
+export interface PriceLevel {
+  price: number;
+  significance: string;
+}
+
+export interface FibonacciLevel {
+  ratio: number;
+  price: number;
+}
+
+export interface RsiReading {
+  timeframe: string;
+  value: number | null;
+}
+
+export interface MarketState {
+  trend: 'bullish' | 'bearish' | 'neutral';
+  momentum: 'strong' | 'weak' | 'neutral';
+  volatility: 'high' | 'medium' | 'low';
+  currentPrice: number | null;
+  rsi: RsiReading[];
+}
+
+export interface TradePlan {
+  summary: string;
+  setups: Record<TradeType, TradeSetup>;
+  keyLevels: {
+    support: PriceLevel[];
+    resistance: PriceLevel[];
+    fibonacci: FibonacciLevel[];
+  };
+  marketState: MarketState;
+  riskManagement: {
+    maxRiskPerTrade: string;
+    correlationCheck: string;
+  };
+  recommendedActions: {
+    immediate: string;
+    today: string;
+    thisWeek: string;
+  };
+  viabilityConditions: string;
+}
+
+// Schema helpers
+const str = (description?: string): Schema => ({ type: SchemaType.STRING, description });
+const num = (description?: string, nullable = false): Schema => ({ type: SchemaType.NUMBER, description, nullable });
+const oneOf = (values: string[], description?: string): Schema => ({
+  type: SchemaType.STRING,
+  format: 'enum',
+  enum: values,
+  description,
+});
+const obj = (properties: Record<string, Schema>, extra: { nullable?: boolean; description?: string } = {}): Schema => ({
+  type: SchemaType.OBJECT,
+  properties,
+  required: Object.keys(properties),
+  ...extra,
+});
+const list = (items: Schema, description?: string): Schema => ({ type: SchemaType.ARRAY, items, description });
+
+const tradeSetupSchema = obj({
+  status: oneOf(['available', 'wait', 'not_available']),
+  direction: oneOf(['long', 'short', 'none']),
+  entry: num('Entry price', true),
+  stopLoss: num('Stop loss price', true),
+  takeProfits: list(obj({
+    price: num('Take profit price'),
+    riskReward: num('Reward divided by risk for this target', true),
+  }), 'Take profit targets, nearest first'),
+  timeframeConfirmation: str('Timeframes that must confirm the setup, e.g. "4H-1H"'),
+  waitCondition: obj({
+    waitFor: str('Specific condition to wait for'),
+    watchLevel: num('Specific price to watch', true),
+    confirmation: str('Specific confirmation signal'),
+    maxWaitTime: str('Maximum time to wait before discarding the setup'),
+  }, { nullable: true, description: 'Required when status is "wait", otherwise null' }),
+  notes: str(),
+});
+
+const priceLevelSchema = obj({
+  price: num(),
+  significance: str(),
+});
+
+// Response schema passed to Gemini's JSON mode and used to validate the reply
+export const tradePlanSchema: Schema = obj({
+  summary: str('One paragraph summary of the overall recommendation'),
+  setups: obj({
+    swing: tradeSetupSchema,
+    intraday: tradeSetupSchema,
+    scalp: tradeSetupSchema,
+  }),
+  keyLevels: obj({
+    support: list(priceLevelSchema),
+    resistance: list(priceLevelSchema),
+    fibonacci: list(obj({
+      ratio: num('Retracement ratio, e.g. 0.618'),
+      price: num(),
+    })),
+  }),
+  marketState: obj({
+    trend: oneOf(['bullish', 'bearish', 'neutral']),
+    momentum: oneOf(['strong', 'weak', 'neutral']),
+    volatility: oneOf(['high', 'medium', 'low']),
+    currentPrice: num('Last traded price visible on the charts', true),
+    rsi: list(obj({
+      timeframe: str(),
+      value: num(undefined, true),
+    })),
+  }),
+  riskManagement: obj({
+    maxRiskPerTrade: str(),
+    correlationCheck: str(),
+  }),
+  recommendedActions: obj({
+    immediate: str('What to do right now'),
+    today: str('What to monitor today'),
+    thisWeek: str('What to watch this week'),
+  }),
+  viabilityConditions: str('If no setup is available, the conditions that would make each trade type viable; otherwise empty'),
+});
+
+export class TradePlanValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid trade plan: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ''}`);
+    this.name = 'TradePlanValidationError';
+  }
+}
+
+// Walk a value against a response schema, collecting every mismatch
+function collectSchemaIssues(value: unknown, schema: Schema, path: string, issues: string[]) {
+  if (value === null || value === undefined) {
+    if (!schema.nullable) issues.push(`${path} is missing`);
+    return;
+  }
+  switch (schema.type) {
+    case SchemaType.STRING:
+      if (typeof value !== 'string') {
+        issues.push(`${path} should be a string`);
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        issues.push(`${path} should be one of ${schema.enum.join(', ')}`);
+      }
+      return;
+    case SchemaType.NUMBER:
+    case SchemaType.INTEGER:
+      if (typeof value !== 'number' || !Number.isFinite(value)) issues.push(`${path} should be a number`);
+      return;
+    case SchemaType.BOOLEAN:
+      if (typeof value !== 'boolean') issues.push(`${path} should be a boolean`);
+      return;
+    case SchemaType.ARRAY:
+      if (!Array.isArray(value)) {
+        issues.push(`${path} should be an array`);
+        return;
+      }
+      value.forEach((item, i) => collectSchemaIssues(item, schema.items, `${path}[${i}]`, issues));
+      return;
+    case SchemaType.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        issues.push(`${path} should be an object`);
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        if (!(key in record) && !schema.properties[key]?.nullable) issues.push(`${path}.${key} is missing`);
+      }
+      for (const [key, propSchema] of Object.entries(schema.properties)) {
+        if (key in record) collectSchemaIssues(record[key], propSchema, `${path}.${key}`, issues);
+      }
+      return;
+    }
+  }
+}
+
+// Parse the model's JSON reply and check it against tradePlanSchema
+export function parseTradePlan(text: string): TradePlan {
+  let data: unknown;
+  try {
+    // The model occasionally wraps JSON in a markdown fence even in JSON mode
+    data = JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    throw new TradePlanValidationError(['response is not valid JSON']);
+  }
+
+  const issues: string[] = [];
+  collectSchemaIssues(data, tradePlanSchema, 'plan', issues);
+  if (issues.length > 0) throw new TradePlanValidationError(issues);
+
+  const plan = data as TradePlan;
+  // Normalize optional nullables the model may have omitted
+  for (const type of TRADE_TYPES) {
+    plan.setups[type].waitCondition ??= null;
+  }
+  plan.marketState.currentPrice ??= null;
+  return plan;
+}
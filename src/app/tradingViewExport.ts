@@ -0,0 +1,134 @@
+// TradingView exports of a run's final plan: a Pine Script indicator that draws its levels, and price alerts
+import type { AnalysisRun } from "./historyStore";
+import { TRADE_TYPES, formatPrice, tradeTypeLabels, type TradePlan, type TradeType } from "./tradePlan";
+
+export const ALERT_FORMAT_VERSION = 1;
+
+// TradingView's names for price alert conditions
+export type AlertCondition = 'crossing' | 'crossing_up' | 'crossing_down';
+
+export interface PriceAlert {
+  symbol: string;
+  price: number;
+  condition: AlertCondition;
+  name: string;
+  message: string;
+}
+
+type LevelGroup = 'key' | 'fib' | TradeType;
+
+interface PlanLevel {
+  group: LevelGroup;
+  title: string;
+  price: number;
+  color: string; // Pine color constant
+  style: 'solid' | 'dashed' | 'dotted';
+  alert?: AlertCondition;
+}
+
+const groupInputs: Record<LevelGroup, { variable: string; label: string }> = {
+  key: { variable: 'showKey', label: 'Support / resistance' },
+  fib: { variable: 'showFib', label: 'Fibonacci' },
+  swing: { variable: 'showSwing', label: 'Swing setup' },
+  intraday: { variable: 'showIntraday', label: 'Intraday setup' },
+  scalp: { variable: 'showScalp', label: 'Scalp setup' },
+};
+
+// Every level worth drawing; setup levels and watch levels also get an alert in the direction that matters
+function planLevels(plan: TradePlan): PlanLevel[] {
+  const levels: PlanLevel[] = [
+    ...plan.keyLevels.support.map(level => ({ group: 'key' as const, title: `Support ${formatPrice(level.price)}`, price: level.price, color: 'color.green', style: 'solid' as const })),
+    ...plan.keyLevels.resistance.map(level => ({ group: 'key' as const, title: `Resistance ${formatPrice(level.price)}`, price: level.price, color: 'color.red', style: 'solid' as const })),
+    ...plan.keyLevels.fibonacci.map(level => ({ group: 'fib' as const, title: `Fib ${level.ratio} ${formatPrice(level.price)}`, price: level.price, color: 'color.purple', style: 'dashed' as const })),
+  ];
+  for (const type of TRADE_TYPES) {
+    const setup = plan.setups[type];
+    if (setup.status === 'not_available') continue;
+    const name = tradeTypeLabels[type].title.replace(' Trade', '');
+    const long = setup.direction !== 'short';
+    if (setup.entry !== null) {
+      levels.push({ group: type, title: `${name} entry ${formatPrice(setup.entry)}`, price: setup.entry, color: 'color.blue', style: 'solid', alert: 'crossing' });
+    }
+    if (setup.stopLoss !== null) {
+      levels.push({ group: type, title: `${name} stop ${formatPrice(setup.stopLoss)}`, price: setup.stopLoss, color: 'color.orange', style: 'dotted', alert: long ? 'crossing_down' : 'crossing_up' });
+    }
+    setup.takeProfits.forEach((tp, i) => levels.push({
+      group: type, title: `${name} TP${i + 1} ${formatPrice(tp.price)}`, price: tp.price, color: 'color.teal', style: 'dotted', alert: long ? 'crossing_up' : 'crossing_down',
+    }));
+    const watchLevel = setup.waitCondition?.watchLevel;
+    if (setup.status === 'wait' && watchLevel !== null && watchLevel !== undefined) {
+      levels.push({ group: type, title: `${name} watch ${formatPrice(watchLevel)}`, price: watchLevel, color: 'color.yellow', style: 'dashed', alert: 'crossing' });
+    }
+  }
+  return levels;
+}
+
+const exportSymbol = (run: AnalysisRun) => run.instrument?.symbol || run.symbol || 'chart';
+
+// Pine string literals cannot hold double quotes or backslashes
+const pineString = (text: string) => `"${text.replace(/["\\\n]/g, ' ')}"`;
+
+const pineCross: Record<AlertCondition, string> = {
+  crossing: 'ta.cross',
+  crossing_up: 'ta.crossover',
+  crossing_down: 'ta.crossunder',
+};
+
+export function buildPineScript(run: AnalysisRun): string {
+  if (!run.tradePlan) throw new Error("This run has no final plan to export.");
+  const symbol = exportSymbol(run);
+  const date = run.createdAt.slice(0, 10);
+  const levels = planLevels(run.tradePlan);
+  const groups = Object.keys(groupInputs).filter(group => levels.some(level => level.group === group)) as LevelGroup[];
+
+  const lines = [
+    `// ${symbol} levels from the ${run.strategy.name} v${run.strategy.version} plan of ${date}`,
+    '//@version=5',
+    `indicator(${pineString(`${symbol} plan ${date}`)}, overlay = true, max_labels_count = ${Math.max(levels.length, 1)})`,
+    '',
+    ...groups.map(group => `${groupInputs[group].variable} = input.bool(true, ${pineString(groupInputs[group].label)}, group = "Levels")`),
+    'showLabels = input.bool(true, "Labels", group = "Levels")',
+    '',
+    '// One label per level, on the last historical bar',
+    'tag(bool show, float price, string txt, color col) =>',
+    '    if show and showLabels and barstate.islastconfirmedhistory',
+    '        label.new(bar_index, price, txt, style = label.style_label_left, color = color.new(col, 85), textcolor = col, size = size.small)',
+    '',
+  ];
+  for (const level of levels) {
+    const show = groupInputs[level.group].variable;
+    lines.push(`hline(${show} ? ${level.price} : na, ${pineString(level.title)}, color = ${level.color}, linestyle = hline.style_${level.style})`);
+    lines.push(`tag(${show}, ${level.price}, ${pineString(level.title)}, ${level.color})`);
+  }
+  const alerts = levels.filter(level => level.alert);
+  if (alerts.length > 0) lines.push('', '// Create alerts from these with "Add alert" on this indicator');
+  for (const level of alerts) {
+    lines.push(`alertcondition(${pineCross[level.alert!]}(close, ${level.price}), ${pineString(level.title)}, ${pineString(`${symbol}: ${level.title}`)})`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function buildPriceAlerts(run: AnalysisRun): PriceAlert[] {
+  if (!run.tradePlan) return [];
+  const symbol = exportSymbol(run);
+  return planLevels(run.tradePlan)
+    .filter(level => level.alert)
+    .map(level => ({
+      symbol,
+      price: level.price,
+      condition: level.alert!,
+      name: level.title,
+      message: `${symbol} ${level.alert === 'crossing' ? 'reached' : 'crossed'} ${level.title}`,
+    }));
+}
+
+export function buildAlertsJson(run: AnalysisRun): string {
+  return JSON.stringify({ formatVersion: ALERT_FORMAT_VERSION, symbol: exportSymbol(run), createdAt: run.createdAt, alerts: buildPriceAlerts(run) }, null, 2);
+}
+
+const csvCell = (value: string | number) => /[",\n]/.test(String(value)) ? `"${String(value).replace(/"/g, '""')}"` : String(value);
+
+export function buildAlertsCsv(run: AnalysisRun): string {
+  const rows = buildPriceAlerts(run).map(alert => [alert.symbol, alert.price, alert.condition, alert.name, alert.message].map(csvCell).join(','));
+  return ['symbol,price,condition,name,message', ...rows].join('\n') + '\n';
+}
@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createProvider, ProviderError } from "./visionProviders";
+import { parseTradePlan, tradePlanSchema } from "./tradePlan";
+import { detectionPrompt, detectionSchema, parseDetectionReply } from "./timeframeDetection";
+
+const openai = createProvider({ provider: 'openai', model: 'gpt-4o', baseUrl: 'https://llm.example/v1/', apiKey: 'sk-test' });
+
+// A chat completions stream delivered in the given pieces, which need not end on line boundaries
+function streamOf(pieces: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+      controller.close();
+    },
+  });
+}
+
+const delta = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('OpenAI-compatible provider', () => {
+  it('posts the prompt and image and returns the reply', async () => {
+    const fetch = vi.fn().mockResolvedValue(Response.json({ choices: [{ message: { content: 'Bullish above 1.0850' } }] }));
+    vi.stubGlobal('fetch', fetch);
+
+    const text = await openai.generate({ prompt: 'Analyse this chart', imageDataUrl: 'data:image/png;base64,AAAA' });
+
+    expect(text).toBe('Bullish above 1.0850');
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://llm.example/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer sk-test');
+    const body = JSON.parse(init.body);
+    expect(body.model).toBe('gpt-4o');
+    expect(body.stream).toBeUndefined();
+    expect(body.messages[0].content).toEqual([
+      { type: 'text', text: 'Analyse this chart' },
+      { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+    ]);
+  });
+
+  it('asks for JSON matching the response schema', async () => {
+    const fetch = vi.fn().mockResolvedValue(Response.json({ choices: [{ message: { content: '{}' } }] }));
+    vi.stubGlobal('fetch', fetch);
+
+    await openai.generate({ prompt: 'Plan', responseSchema: tradePlanSchema });
+
+    const body = JSON.parse(fetch.mock.calls[0][1].body);
+    expect(body.response_format.type).toBe('json_schema');
+    expect(body.response_format.json_schema.schema.additionalProperties).toBe(false);
+  });
+
+  it('accumulates streamed deltas and skips keep-alives and malformed lines', async () => {
+    const body = streamOf([
+      delta('Bull'),
+      ': keep-alive\n\ndata: {"choices": [\n\n',
+      delta('ish').slice(0, 10),
+      delta('ish').slice(10),
+      'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n',
+      'data: [DONE]\n\n',
+    ]);
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(body)));
+    const onText = vi.fn();
+
+    const text = await openai.generate({ prompt: 'Analyse', onText });
+
+    expect(text).toBe('Bullish');
+    expect(onText.mock.calls.map(([partial]) => partial)).toEqual(['Bull', 'Bullish']);
+  });
+
+  it('turns HTTP errors into a ProviderError with the status', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('busy', { status: 429, statusText: 'Too Many Requests' })));
+
+    const error = await openai.generate({ prompt: 'Analyse' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.status).toBe(429);
+    expect(error.message).toBe('https://llm.example/v1 responded with 429 Too Many Requests');
+  });
+
+  it('turns network errors into a ProviderError without a status', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')));
+
+    const error = await openai.chat({ context: 'Plan', images: [], history: [], message: 'Why?' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.status).toBeUndefined();
+    expect(error.message).toBe('fetch failed');
+  });
+
+  it('rejects with the abort reason when cancelled', async () => {
+    vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal!.addEventListener('abort', () => reject(new DOMException('The operation was aborted.', 'AbortError')));
+    })));
+    const controller = new AbortController();
+    const reason = new Error('Cancelled by the user');
+
+    const request = openai.generate({ prompt: 'Analyse', signal: controller.signal });
+    controller.abort(reason);
+
+    await expect(request).rejects.toBe(reason);
+  });
+});
+
+describe('mock provider', () => {
+  const mock = createProvider({ provider: 'mock', model: 'mock' });
+
+  it('answers a structured request with a valid trade plan', async () => {
+    const text = await mock.generate({ prompt: 'Build the trade plan', responseSchema: tradePlanSchema });
+
+    expect(() => parseTradePlan(text)).not.toThrow();
+  });
+
+  it('detects the timeframe from the chart file name', async () => {
+    const ladder = ['1D', '4h', '1h'];
+    const text = await mock.generate({ prompt: detectionPrompt(ladder), imageName: 'EURUSD_240.png', responseSchema: detectionSchema(ladder) });
+
+    expect(parseDetectionReply(text, ladder)).toEqual({ timeframe: '4h', confidence: 0.8, source: 'model' });
+  });
+});
@@ -0,0 +1,287 @@
+// Vision model providers behind a common interface
+import { GoogleGenerativeAI, SchemaType, type ResponseSchema, type Schema } from "@google/generative-ai";
+import { createMockProvider } from "./mockProvider";
+
+export type ProviderKind = 'gemini' | 'openai' | 'mock';
+
+// Which provider and model to use, plus connection details where the provider needs them
+export interface ModelConfig {
+  provider: ProviderKind;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible endpoint (e.g. http://localhost:11434/v1 for Ollama) or Gemini proxy
+  apiKey?: string;
+}
+
+// Without an image the prompt is sent as text alone, e.g. for a step analysed from OHLCV data only
+export interface VisionRequest {
+  imageDataUrl?: string; // data:<mime>;base64,<payload>
+  mimeType?: string;
+  imageName?: string;
+  prompt: string;
+  responseSchema?: ResponseSchema;
+  signal?: AbortSignal; // Cancels the HTTP request when the run is stopped
+  onText?: (text: string) => void; // When set, the reply is streamed and this receives the text so far
+}
+
+// One turn of a follow-up conversation about a completed analysis
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+  createdAt?: string;
+}
+
+export interface ChatImage {
+  name: string;
+  dataUrl: string; // data:<mime>;base64,<payload>
+}
+
+export interface ChatRequest {
+  context: string; // Step outputs and plan the conversation is about
+  images: ChatImage[];
+  history: ChatMessage[]; // Earlier turns, oldest first
+  message: string;
+  signal?: AbortSignal;
+  onText?: (text: string) => void;
+}
+
+export interface VisionProvider {
+  kind: ProviderKind;
+  generate(request: VisionRequest): Promise<string>;
+  chat(request: ChatRequest): Promise<string>;
+}
+
+// Error carrying the HTTP status so the caller can decide whether to retry
+export class ProviderError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export const providerLabels: Record<ProviderKind, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible',
+  mock: 'Mock (offline fixtures)',
+};
+
+export const DEFAULT_MODELS: Record<ProviderKind, ModelConfig> = {
+  gemini: { provider: 'gemini', model: 'gemini-1.5-flash' },
+  openai: { provider: 'openai', model: 'gpt-4o-mini', baseUrl: 'https://api.openai.com/v1' },
+  mock: { provider: 'mock', model: 'fixtures' },
+};
+
+// Split a data URL into its base64 payload
+function dataUrlPayload(dataUrl: string): string {
+  return dataUrl.split(",")[1];
+}
+
+function dataUrlMimeType(dataUrl: string): string {
+  return dataUrl.match(/^data:([^;,]+)/)?.[1] ?? 'image/png';
+}
+
+// The charts and step outputs travel with the first question, so every later turn can refer to them
+function chatTurns({ context, history, message }: ChatRequest): ChatMessage[] {
+  const turns = [...history, { role: 'user' as const, text: message }];
+  return turns.map((turn, i) => i === 0 ? { ...turn, text: `${context}\n\n${turn.text}` } : turn);
+}
+
+function toProviderError(error: unknown, signal?: AbortSignal): unknown {
+  if (signal?.aborted) return signal.reason;
+  const status = (error as { status?: number })?.status;
+  return new ProviderError(error instanceof Error ? error.message : String(error), status);
+}
+
+function createGeminiProvider(config: ModelConfig): VisionProvider {
+  const genAI = new GoogleGenerativeAI(config.apiKey ?? '');
+  // A proxy holds the real key, so requests go to it instead of Google directly
+  const getModel = () => genAI.getGenerativeModel(
+    { model: config.model },
+    config.baseUrl ? { baseUrl: config.baseUrl.replace(/\/+$/, '') } : undefined
+  );
+  return {
+    kind: 'gemini',
+    async generate({ imageDataUrl, mimeType, prompt, responseSchema, signal, onText }) {
+      const model = getModel();
+      const request = {
+        contents: [
+          {
+            role: "user",
+            parts: [
+              { text: prompt },
+              ...(imageDataUrl ? [{ inlineData: { data: dataUrlPayload(imageDataUrl), mimeType: mimeType ?? dataUrlMimeType(imageDataUrl) } }] : []),
+            ],
+          },
+        ],
+        // Ask for schema-constrained JSON when the caller expects structured output
+        generationConfig: responseSchema
+          ? { responseMimeType: "application/json", responseSchema }
+          : undefined,
+      };
+      try {
+        if (onText) {
+          const result = await model.generateContentStream(request, { signal });
+          let text = '';
+          for await (const chunk of result.stream) {
+            text += chunk.text();
+            onText(text);
+          }
+          return text;
+        }
+        const result = await model.generateContent(request, { signal });
+        return result.response.text();
+      } catch (error) {
+        throw toProviderError(error, signal);
+      }
+    },
+    async chat(request) {
+      const { images, signal, onText } = request;
+      const imageParts = images.map(image => ({ inlineData: { data: dataUrlPayload(image.dataUrl), mimeType: dataUrlMimeType(image.dataUrl) } }));
+      const turns = chatTurns(request).map((turn, i) => ({
+        role: turn.role,
+        parts: i === 0 ? [{ text: turn.text }, ...imageParts] : [{ text: turn.text }],
+      }));
+      const last = turns.pop()!;
+      try {
+        const session = getModel().startChat({ history: turns });
+        if (onText) {
+          const result = await session.sendMessageStream(last.parts, { signal });
+          let text = '';
+          for await (const chunk of result.stream) {
+            text += chunk.text();
+            onText(text);
+          }
+          return text;
+        }
+        const result = await session.sendMessage(last.parts, { signal });
+        return result.response.text();
+      } catch (error) {
+        throw toProviderError(error, signal);
+      }
+    },
+  };
+}
+
+// Convert a Gemini response schema into standard JSON Schema for OpenAI-style structured output
+function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const type = schema.nullable ? [schema.type, 'null'] : schema.type;
+  switch (schema.type) {
+    case SchemaType.OBJECT:
+      return {
+        type,
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+        ),
+        required: schema.required ?? [],
+        additionalProperties: false,
+      };
+    case SchemaType.ARRAY:
+      return { type, items: toJsonSchema(schema.items) };
+    case SchemaType.STRING:
+      return schema.enum ? { type, enum: schema.nullable ? [...schema.enum, null] : schema.enum } : { type };
+    default:
+      return { type };
+  }
+}
+
+// Accumulate the content deltas of a chat completions server-sent event stream
+async function readChatStream(body: ReadableStream<Uint8Array>, onText: (text: string) => void): Promise<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || data === '[DONE]') continue;
+      // Keep-alives and malformed lines from some servers and proxies are skipped
+      let delta: unknown;
+      try {
+        delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+      } catch {
+        continue;
+      }
+      if (typeof delta === 'string' && delta) {
+        text += delta;
+        onText(text);
+      }
+    }
+  }
+  return text;
+}
+
+// Any endpoint implementing the OpenAI chat completions API with image input
+// (OpenAI, Azure-style gateways, Ollama, llama.cpp server, vLLM)
+function createOpenAICompatibleProvider(config: ModelConfig): VisionProvider {
+  const baseUrl = (config.baseUrl || DEFAULT_MODELS.openai.baseUrl!).replace(/\/+$/, '');
+  // Network, stream and HTTP errors all become a ProviderError, and a cancelled request rejects with the signal's reason
+  const complete = async (body: Record<string, unknown>, signal?: AbortSignal, onText?: (text: string) => void) => {
+    try {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: config.model, ...body, ...(onText ? { stream: true } : {}) }),
+      });
+      if (!response.ok) {
+        throw new ProviderError(`${baseUrl} responded with ${response.status} ${response.statusText}`, response.status);
+      }
+      if (onText && response.body) return await readChatStream(response.body, onText);
+      const data = await response.json();
+      return data?.choices?.[0]?.message?.content ?? '';
+    } catch (error) {
+      throw toProviderError(error, signal);
+    }
+  };
+  return {
+    kind: 'openai',
+    generate({ imageDataUrl, prompt, responseSchema, signal, onText }) {
+      return complete({
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: prompt },
+              ...(imageDataUrl ? [{ type: 'image_url', image_url: { url: imageDataUrl } }] : []),
+            ],
+          },
+        ],
+        ...(responseSchema
+          ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(responseSchema) } } }
+          : {}),
+      }, signal, onText);
+    },
+    chat(request) {
+      const messages = chatTurns(request).map((turn, i) => ({
+        role: turn.role === 'model' ? 'assistant' : 'user',
+        content: i === 0
+          ? [{ type: 'text', text: turn.text }, ...request.images.map(image => ({ type: 'image_url', image_url: { url: image.dataUrl } }))]
+          : turn.text,
+      }));
+      return complete({ messages }, request.signal, request.onText);
+    },
+  };
+}
+
+export function createProvider(config: ModelConfig): VisionProvider {
+  switch (config.provider) {
+    case 'gemini':
+      return createGeminiProvider(config);
+    case 'openai':
+      return createOpenAICompatibleProvider(config);
+    case 'mock':
+      return createMockProvider();
+  }
+}
+
+// Stable identity of a model config, used in cache keys (never includes the API key)
+export function describeModel(config: ModelConfig): string {
+  return [config.provider, config.model, config.baseUrl ?? ''].join('|');
+}
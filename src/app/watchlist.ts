@@ -0,0 +1,82 @@
+// Watchlist batch mode: chart sets grouped per symbol, and a ranking of the plans they produce
+import { setupConfidence, type PlanAgreement } from "./consensus";
+import { TRADE_TYPES, type MarketState, type SetupStatus, type TradePlan, type TradeSetup, type TradeType } from "./tradePlan";
+
+export interface WatchlistSet {
+  symbol: string;
+  charts: File[];
+}
+
+// "EURUSD_4h.png", "eurusd-daily.png" and TradingView's "FX_EURUSD, 240_2024-05-01.png" all give EURUSD
+export function symbolFromFileName(name: string): string {
+  const stem = name.replace(/\.[a-z0-9]+$/i, '');
+  const tradingView = stem.match(/^(?:[A-Za-z0-9]+_)?([A-Za-z0-9.!]+),\s*\d/);
+  return (tradingView?.[1] ?? stem.split(/[^A-Za-z0-9]+/).find(Boolean) ?? stem).toUpperCase();
+}
+
+// New charts join the set of the same symbol, or start a set of their own
+export function groupBySymbol(files: File[], sets: WatchlistSet[] = []): WatchlistSet[] {
+  const grouped = sets.map(set => ({ ...set, charts: [...set.charts] }));
+  for (const file of files) {
+    const symbol = symbolFromFileName(file.name);
+    const set = grouped.find(s => s.symbol === symbol);
+    if (set) set.charts.push(file);
+    else grouped.push({ symbol, charts: [file] });
+  }
+  return grouped;
+}
+
+const STATUS_WEIGHT: Record<SetupStatus, number> = { available: 1, wait: 0.5, not_available: 0 };
+const TARGET_RR = 3; // Reward-to-risk of the first target that earns full marks
+
+// 0-100 from the status, the first target's reward-to-risk and whether the direction follows the trend,
+// scaled by how far the samples agreed in consensus mode. Setups whose levels do not form a trade score 0.
+export function setupQuality(setup: TradeSetup, trend: MarketState['trend'], agreement?: PlanAgreement['setups'][TradeType]): number {
+  const { direction, entry, stopLoss } = setup;
+  const target = setup.takeProfits[0]?.price;
+  if (direction === 'none' || entry === null || stopLoss === null || target === undefined || entry === stopLoss) return 0;
+  const rr = (target - entry) * (direction === 'long' ? 1 : -1) / Math.abs(entry - stopLoss);
+  if (rr <= 0) return 0;
+  const alignment = trend === 'neutral' ? 0.5 : (trend === 'bullish') === (direction === 'long') ? 1 : 0;
+  const confidence = agreement ? setupConfidence(agreement) : 1;
+  return Math.round(100 * STATUS_WEIGHT[setup.status] * (0.6 * Math.min(rr / TARGET_RR, 1) + 0.4 * alignment) * confidence);
+}
+
+export interface WatchlistSummary {
+  bias: MarketState['trend'];
+  statuses: Record<TradeType, SetupStatus>;
+  score: number; // The best setup's quality
+  best: TradeType | null; // null when no setup scores above 0
+}
+
+export function summarizePlan(plan: TradePlan, agreement?: PlanAgreement): WatchlistSummary {
+  const trend = plan.marketState.trend;
+  const scores = TRADE_TYPES.map(type => [type, setupQuality(plan.setups[type], trend, agreement?.setups[type])] as const);
+  const [best, score] = scores.reduce((top, entry) => entry[1] > top[1] ? entry : top);
+  return {
+    bias: trend,
+    statuses: Object.fromEntries(TRADE_TYPES.map(type => [type, plan.setups[type].status])) as Record<TradeType, SetupStatus>,
+    score,
+    best: score > 0 ? best : null,
+  };
+}
+
+export type WatchlistSortKey = 'symbol' | 'bias' | 'score' | TradeType;
+
+const BIAS_ORDER: Record<MarketState['trend'], number> = { bullish: 0, bearish: 1, neutral: 2 };
+const STATUS_ORDER: Record<SetupStatus, number> = { available: 0, wait: 1, not_available: 2 };
+
+// Each key sorts the best opportunities first unless reversed; rows without a plan always come last
+export function sortWatchlist<T extends { symbol: string; summary?: WatchlistSummary }>(rows: T[], key: WatchlistSortKey, reversed = false): T[] {
+  const compare = (a: WatchlistSummary, b: WatchlistSummary) => {
+    if (key === 'score') return b.score - a.score;
+    if (key === 'bias') return BIAS_ORDER[a.bias] - BIAS_ORDER[b.bias];
+    if (key === 'symbol') return 0;
+    return STATUS_ORDER[a.statuses[key]] - STATUS_ORDER[b.statuses[key]];
+  };
+  return [...rows].sort((a, b) => {
+    if (!a.summary || !b.summary) return Number(!a.summary) - Number(!b.summary) || a.symbol.localeCompare(b.symbol);
+    const order = key === 'symbol' ? a.symbol.localeCompare(b.symbol) : compare(a.summary, b.summary) || b.summary.score - a.summary.score;
+    return (reversed ? -order : order) || a.symbol.localeCompare(b.symbol);
+  });
+}
@@ -0,0 +1,201 @@
+// Batch analysis from the command line: npm run cli -- <folder | manifest.json> [options]
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { FINAL_STEP } from "../app/analysisPipeline";
+import {
+  detectChartInstrument,
+  hasStepInput,
+  lowestTimeframeChart,
+  placeCharts,
+  runAnalysis,
+  type ChartImages,
+  type RunContext,
+} from "../app/analysisRunner";
+import { fileToBase64 } from "../app/geminiApi";
+import { createRun } from "../app/historyStore";
+import { profileFromSymbol } from "../app/instrumentProfile";
+import { defaultModelSelection, describeStepModels, MAX_CONSENSUS_SAMPLES, type ModelSelection } from "../app/modelSelection";
+import { buildJsonReport, buildMarkdownReport, createReport, runFileStem } from "../app/reportExport";
+import { setCacheBackend } from "../app/responseCache";
+import { DEFAULT_STRATEGY_ID, getBuiltInStrategies, normalizeStrategy, planLadder, type Strategy } from "../app/strategies";
+import { DEFAULT_LADDER, parseLadder } from "../app/timeframes";
+import { DEFAULT_MODELS, type ModelConfig, type ProviderKind } from "../app/visionProviders";
+import { ChartSetError, loadChartSets, type ChartSet } from "./chartSets";
+import { fileCacheBackend } from "./fileCache";
+
+const usage = `Usage: npm run cli -- <folder | manifest.json> [options]
+
+Analyses every chart set and writes one report per set.
+A folder's images form one set and each subfolder with images another; timeframes are read from file names, then by the model.
+A manifest names the timeframes, and can add OHLCV CSVs whose RSI, swings, Fibonacci and support/resistance go into the prompts:
+  {"sets": [{"symbol": "EURUSD", "charts": {"4h": "eurusd/4h.png", "1h": "eurusd/1h.png"}, "data": {"4h": "eurusd/4h.csv"}}]}
+
+Options:
+  --out <dir>          Output folder (default: analysis-results)
+  --format <list>      json, md or both (default: json,md)
+  --strategy <id|file> Built-in strategy id or a strategy JSON file (default: ${DEFAULT_STRATEGY_ID})
+  --ladder <list>      Timeframes, highest first (default: the manifest's, otherwise ${DEFAULT_LADDER.timeframes.join(',')})
+  --model <p:model>    Provider and model, e.g. gemini:gemini-1.5-flash, openai:gpt-4o or mock (default: gemini)
+  --samples <n>        Consensus samples per step, 1-${MAX_CONSENSUS_SAMPLES} (default: 1)
+  --no-correct         Keep plans whose levels contradict themselves instead of asking the model to correct them
+  --cache <dir>        Response cache folder (default: .trading-guide-cache)
+  --no-cache           Do not read or write the response cache
+  -h, --help           Show this help
+
+Credentials come from GEMINI_API_KEY or GEMINI_PROXY_URL, and OPENAI_API_KEY with OPENAI_BASE_URL.
+Needs Node.js 20.19+ or 22.12+.`;
+
+type ReportFormat = 'json' | 'md';
+
+interface Options {
+  out: string;
+  formats: ReportFormat[];
+  strategy: Strategy;
+  ladder?: string[];
+  models: ModelSelection;
+  autoCorrectLevels: boolean;
+}
+
+// The environment supplies what the app keeps in its settings
+function modelFromArgument(value: string): ModelConfig {
+  const [provider, ...rest] = value.split(':');
+  if (!(provider in DEFAULT_MODELS)) throw new ChartSetError(`Unknown provider "${provider}"; use ${Object.keys(DEFAULT_MODELS).join(', ')}.`);
+  const defaults = DEFAULT_MODELS[provider as ProviderKind];
+  const model = { ...defaults, model: rest.join(':') || defaults.model };
+  if (model.provider === 'gemini') return { ...model, apiKey: process.env.GEMINI_API_KEY, baseUrl: process.env.GEMINI_PROXY_URL };
+  if (model.provider === 'openai') return { ...model, apiKey: process.env.OPENAI_API_KEY, baseUrl: process.env.OPENAI_BASE_URL ?? model.baseUrl };
+  return model;
+}
+
+async function strategyFromArgument(value: string): Promise<Strategy> {
+  const builtIn = getBuiltInStrategies().find(strategy => strategy.id === value);
+  if (builtIn) return builtIn;
+  try {
+    return normalizeStrategy(JSON.parse(await readFile(value, 'utf8')));
+  } catch {
+    throw new ChartSetError(`"${value}" is neither a built-in strategy (${getBuiltInStrategies().map(strategy => strategy.id).join(', ')}) nor a strategy JSON file.`);
+  }
+}
+
+async function parseOptions(values: Record<string, string | boolean | undefined>): Promise<Options> {
+  const formats = String(values.format).split(',').map(format => format.trim());
+  if (formats.some(format => format !== 'json' && format !== 'md')) throw new ChartSetError(`--format takes json, md or both.`);
+  const samples = Number(values.samples);
+  if (!Number.isInteger(samples) || samples < 1 || samples > MAX_CONSENSUS_SAMPLES) throw new ChartSetError(`--samples must be between 1 and ${MAX_CONSENSUS_SAMPLES}.`);
+  let ladder: string[] | undefined;
+  if (typeof values.ladder === 'string') {
+    const parsed = parseLadder(values.ladder);
+    if (parsed.invalid.length > 0 || parsed.timeframes.length === 0) throw new ChartSetError(`--ladder has invalid timeframes: ${parsed.invalid.join(', ') || 'none given'}.`);
+    ladder = parsed.timeframes;
+  }
+  return {
+    out: String(values.out),
+    formats: formats as ReportFormat[],
+    strategy: await strategyFromArgument(String(values.strategy)),
+    ladder,
+    models: { ...defaultModelSelection, default: modelFromArgument(String(values.model)), consensus: { samples, extraModels: [] } },
+    autoCorrectLevels: !values['no-correct'],
+  };
+}
+
+// A manifest names the timeframes; otherwise they are read from the file names, then by the model
+async function placeSetCharts(set: ChartSet, ladder: string[], models: ModelSelection): Promise<ChartImages> {
+  if (set.timeframes) return Object.fromEntries(ladder.map(timeframe => [timeframe, set.timeframes?.[timeframe] ?? null]));
+  const { images, skipped } = await placeCharts(set.charts, ladder, models);
+  for (const { chart, reason } of skipped) console.warn(`${set.name}: skipping ${chart.name}, ${reason}`);
+  return images;
+}
+
+// Returns whether the set produced a trade plan
+async function analyzeSet(set: ChartSet, ladder: string[], options: Options): Promise<boolean> {
+  const { strategy, models } = options;
+  const images = await placeSetCharts(set, ladder, models);
+  const context: RunContext = { strategy, ladderSteps: planLadder(strategy, ladder), images, marketData: set.marketData, models, autoCorrectLevels: options.autoCorrectLevels };
+  if (!ladder.some(timeframe => hasStepInput(context, timeframe))) {
+    console.error(`${set.name}: none of the charts or data match the ladder ${ladder.join(', ')}`);
+    return false;
+  }
+  const lowest = lowestTimeframeChart(images, ladder);
+  context.instrument = set.symbol || !lowest
+    ? profileFromSymbol(set.symbol ?? set.name)
+    : await detectChartInstrument(lowest, models).catch(() => null) ?? profileFromSymbol(set.name);
+  const { instrument } = context;
+  const result = await runAnalysis(context);
+  for (const step of result.steps.filter(step => step.status === 'failed')) {
+    console.error(`${set.name}: the ${step.id} step failed. ${step.error}`);
+  }
+
+  const run = createRun({
+    symbol: instrument.symbol,
+    instrument,
+    strategy: { id: strategy.id, name: strategy.name, version: strategy.version },
+    ladder,
+    models: Object.fromEntries(['detect', ...ladder, FINAL_STEP].map(step => [step, describeStepModels(models, step)])),
+    images: [],
+    analyses: result.analyses,
+    marketData: set.marketData && Object.keys(set.marketData).length > 0 ? set.marketData : undefined,
+    tradePlan: result.tradePlan,
+    agreement: result.agreement,
+  });
+  const reportImages = await Promise.all(ladder.filter(timeframe => images[timeframe]).map(async timeframe => ({
+    name: images[timeframe]!.name,
+    timeframe,
+    dataUrl: await fileToBase64(images[timeframe]!),
+  })));
+  const report = createReport(run, reportImages);
+  // Named after the set so sets of the same symbol do not overwrite each other
+  const stem = runFileStem({ symbol: set.name, createdAt: run.createdAt });
+  await mkdir(options.out, { recursive: true });
+  for (const format of options.formats) {
+    const file = path.join(options.out, `${stem}.${format}`);
+    await writeFile(file, format === 'json' ? buildJsonReport(report) : buildMarkdownReport(report));
+    console.log(`${set.name}: wrote ${file}`);
+  }
+  return Boolean(result.tradePlan);
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', default: 'analysis-results' },
+      format: { type: 'string', default: 'json,md' },
+      strategy: { type: 'string', default: DEFAULT_STRATEGY_ID },
+      ladder: { type: 'string' },
+      model: { type: 'string', default: 'gemini' },
+      samples: { type: 'string', default: '1' },
+      'no-correct': { type: 'boolean', default: false },
+      cache: { type: 'string', default: '.trading-guide-cache' },
+      'no-cache': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help || positionals.length !== 1) {
+    console.log(usage);
+    return values.help ? 0 : 2;
+  }
+  const options = await parseOptions(values);
+  if (!values['no-cache']) setCacheBackend(fileCacheBackend(values.cache));
+  const { sets, ladder: manifestLadder } = await loadChartSets(positionals[0]);
+  const ladder = options.ladder ?? manifestLadder ?? DEFAULT_LADDER.timeframes;
+
+  // Sets run side by side; the shared request queue keeps the provider's rate limit
+  const outcomes = await Promise.allSettled(sets.map(set => analyzeSet(set, ladder, options)));
+  const failed = sets.filter((set, i) => {
+    const outcome = outcomes[i];
+    if (outcome.status === 'rejected') console.error(`${set.name}: ${outcome.reason instanceof Error ? outcome.reason.message : outcome.reason}`);
+    return outcome.status === 'rejected' || !outcome.value;
+  });
+  console.log(`${sets.length - failed.length} of ${sets.length} chart sets analysed${failed.length ? `; no plan for ${failed.map(set => set.name).join(', ')}` : ''}.`);
+  return failed.length > 0 ? 1 : 0;
+}
+
+main().then(code => {
+  process.exitCode = code;
+}, err => {
+  // Bad input and unknown options get a one-line message; anything else keeps its stack trace
+  const known = err instanceof ChartSetError || String((err as { code?: unknown }).code).startsWith('ERR_PARSE_ARGS');
+  console.error(known ? err.message : err);
+  process.exitCode = 2;
+});
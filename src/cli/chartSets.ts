@@ -0,0 +1,126 @@
+// Chart sets for the command line: folders of images, or a manifest naming each chart's timeframe
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { computeIndicators, OhlcvParseError, parseOhlcvCsv, type MarketDataByTimeframe } from "../app/marketData";
+import { parseTimeframe, sortTimeframes } from "../app/timeframes";
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+export interface ChartSet {
+  name: string; // Folder name or manifest symbol; used for the output file names
+  symbol?: string; // Only when the manifest names it; otherwise it is read from the charts
+  charts: File[];
+  timeframes?: Record<string, File>; // Known timeframes from a manifest, skipping detection
+  marketData?: MarketDataByTimeframe; // From the manifest's OHLCV files
+}
+
+export interface LoadedSets {
+  sets: ChartSet[];
+  ladder?: string[]; // Manifest ladder, or the timeframes the manifest uses
+}
+
+// Thrown for input the command line should report without a stack trace
+export class ChartSetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChartSetError';
+  }
+}
+
+const isImage = (name: string) => path.extname(name).toLowerCase() in MIME_TYPES;
+
+async function loadImage(file: string): Promise<File> {
+  const data = await readFile(file).catch(() => {
+    throw new ChartSetError(`Cannot read chart image ${file}`);
+  });
+  return new File([data], path.basename(file), { type: MIME_TYPES[path.extname(file).toLowerCase()] ?? 'application/octet-stream' });
+}
+
+async function loadMarketData(file: string) {
+  const text = await readFile(file, 'utf8').catch(() => {
+    throw new ChartSetError(`Cannot read OHLCV data ${file}`);
+  });
+  try {
+    return computeIndicators(parseOhlcvCsv(text), path.basename(file));
+  } catch (err) {
+    throw err instanceof OhlcvParseError ? new ChartSetError(`${file}: ${err.message}`) : err;
+  }
+}
+
+// Images directly inside the folder form one set, and each subfolder with images another
+async function loadDirectory(directory: string): Promise<LoadedSets> {
+  const entries = await readdir(directory, { withFileTypes: true });
+  const imagesIn = async (folder: string) => {
+    const names = (await readdir(folder)).filter(isImage).sort();
+    return Promise.all(names.map(name => loadImage(path.join(folder, name))));
+  };
+  const sets: ChartSet[] = [];
+  const own = await imagesIn(directory);
+  if (own.length > 0) sets.push({ name: path.basename(path.resolve(directory)), charts: own });
+  for (const entry of entries.filter(entry => entry.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+    const charts = await imagesIn(path.join(directory, entry.name));
+    if (charts.length > 0) sets.push({ name: entry.name, charts });
+  }
+  return { sets };
+}
+
+// {"ladder": ["1D", "4h"], "sets": [{"symbol": "EURUSD", "charts": {"1D": "eurusd/daily.png"}, "data": {"4h": "eurusd/4h.csv"}}]}
+// Paths are relative to the manifest; a timeframe needs a chart, an OHLCV CSV, or both
+async function loadManifest(file: string): Promise<LoadedSets> {
+  let manifest: { ladder?: unknown; sets?: unknown };
+  try {
+    manifest = JSON.parse(await readFile(file, 'utf8'));
+  } catch {
+    throw new ChartSetError(`${file} is not a valid JSON manifest.`);
+  }
+  if (!Array.isArray(manifest.sets) || manifest.sets.length === 0) throw new ChartSetError(`${file} has no "sets".`);
+  const base = path.dirname(file);
+  const used = new Set<string>();
+  const sets = await Promise.all(manifest.sets.map(async (entry: { symbol?: unknown; name?: unknown; charts?: unknown; data?: unknown }, index: number) => {
+    const symbol = typeof entry.symbol === 'string' && entry.symbol.trim() ? entry.symbol.trim() : undefined;
+    const name = typeof entry.name === 'string' && entry.name.trim() ? entry.name.trim() : symbol ?? `set-${index + 1}`;
+    if (!entry.charts && !entry.data) throw new ChartSetError(`Set "${name}" has no "charts" or "data".`);
+    // Timeframe label -> path, checked the same way for charts and data
+    const files = async <T>(field: 'charts' | 'data', load: (file: string) => Promise<T>): Promise<Record<string, T>> => {
+      const paths = entry[field] ?? {};
+      if (typeof paths !== 'object') throw new ChartSetError(`Set "${name}": "${field}" must map timeframes to file paths.`);
+      const loaded: Record<string, T> = {};
+      for (const [label, file] of Object.entries(paths as Record<string, unknown>)) {
+        const timeframe = parseTimeframe(label);
+        if (!timeframe) throw new ChartSetError(`Set "${name}": "${label}" is not a timeframe.`);
+        if (typeof file !== 'string') throw new ChartSetError(`Set "${name}": the ${label} ${field} entry must be a file path.`);
+        if (loaded[timeframe]) throw new ChartSetError(`Set "${name}" has two ${label} ${field} entries.`);
+        loaded[timeframe] = await load(path.resolve(base, file));
+        used.add(timeframe);
+      }
+      return loaded;
+    };
+    const timeframes = await files('charts', loadImage);
+    const marketData = await files('data', loadMarketData);
+    return { name, symbol, charts: Object.values(timeframes), timeframes, marketData };
+  }));
+  let ladder = sortTimeframes([...used]);
+  if (manifest.ladder !== undefined) {
+    if (!Array.isArray(manifest.ladder)) throw new ChartSetError(`${file}: "ladder" must be a list of timeframes.`);
+    ladder = sortTimeframes(manifest.ladder.map(label => {
+      const timeframe = typeof label === 'string' ? parseTimeframe(label) : null;
+      if (!timeframe) throw new ChartSetError(`${file}: "${label}" in "ladder" is not a timeframe.`);
+      return timeframe;
+    }));
+  }
+  return { sets, ladder };
+}
+
+export async function loadChartSets(input: string): Promise<LoadedSets> {
+  const loaded = input.toLowerCase().endsWith('.json') ? await loadManifest(input) : await loadDirectory(input).catch(err => {
+    throw err instanceof ChartSetError ? err : new ChartSetError(`Cannot read the folder ${input}`);
+  });
+  if (loaded.sets.length === 0) throw new ChartSetError(`No chart images found in ${input}`);
+  return loaded;
+}
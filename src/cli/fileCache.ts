@@ -0,0 +1,34 @@
+// Response cache backend for the command line: one JSON file per entry in a directory
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { CacheBackend, CacheEntry } from "../app/responseCache";
+
+// Keys are SHA-256 hex digests, so they are safe file names
+export function fileCacheBackend(directory: string): CacheBackend {
+  const fileOf = (key: string) => path.join(directory, `${key}.json`);
+  const read = async (file: string): Promise<CacheEntry | undefined> => {
+    try {
+      return JSON.parse(await readFile(file, 'utf8'));
+    } catch {
+      return undefined;
+    }
+  };
+  return {
+    get: key => read(fileOf(key)),
+    async put(entry) {
+      await mkdir(directory, { recursive: true });
+      await writeFile(fileOf(entry.key), JSON.stringify(entry));
+    },
+    async getAll() {
+      const names = await readdir(directory).catch(() => [] as string[]);
+      const entries = await Promise.all(names.filter(name => name.endsWith('.json')).map(name => read(path.join(directory, name))));
+      return entries.filter((entry): entry is CacheEntry => entry !== undefined);
+    },
+    async remove(keys) {
+      await Promise.all(keys.map(key => rm(fileOf(key), { force: true })));
+    },
+    async clear() {
+      await rm(directory, { recursive: true, force: true });
+    },
+  };
+}